@@ -0,0 +1,54 @@
+import {
+  Secp256k1EcdsaSignature,
+  Secp256k1EcdsaPrivateKey,
+  verifyBatch,
+  SHA256
+} from '../src';
+
+/**
+ * Curve benchmarks: run with `bun run bench`
+ */
+
+// Run a function repeatedly and report the time per operation
+function bench(name: string, iterations: number, fn: (i: number) => void, opsPerCall: number = 1): void {
+  // Warm up the JIT before measuring
+  for (let i = 0; i < Math.min(20, iterations); i++) {
+    fn(i);
+  }
+
+  const start = performance.now();
+  for (let i = 0; i < iterations; i++) {
+    fn(i);
+  }
+  const elapsed = performance.now() - start;
+
+  const perOp = elapsed / (iterations * opsPerCall);
+  console.log(`${name.padEnd(32)} ${(1000 / perOp).toFixed(0).padStart(8)} ops/s ${(perOp * 1000).toFixed(0).padStart(8)} µs/op`);
+}
+
+const sha256 = new SHA256();
+const privateKey = Secp256k1EcdsaPrivateKey.generate();
+const publicKey = privateKey.publicKey();
+const messages = Array.from({ length: 200 }, (_, i) => new TextEncoder().encode(`benchmark message ${i}`));
+const signatures = messages.map(message => Secp256k1EcdsaSignature.sign(sha256, message, privateKey));
+
+bench('publicKey (k * G)', 200, () => {
+  Secp256k1EcdsaPrivateKey.generate().publicKey();
+});
+
+bench('sign', 200, i => {
+  Secp256k1EcdsaSignature.sign(sha256, messages[i % messages.length], privateKey);
+});
+
+bench('verify', 200, i => {
+  signatures[i % signatures.length].verify(sha256, messages[i % messages.length], publicKey);
+});
+
+bench('recover', 200, i => {
+  signatures[i % signatures.length].recover(sha256, messages[i % messages.length]);
+});
+
+const batch = messages.map((message, i) => ({ signature: signatures[i], message, publicKey }));
+bench('verifyBatch (200, one signer)', 5, () => {
+  verifyBatch(batch, { hashImpl: sha256 });
+}, batch.length);
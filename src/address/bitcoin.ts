@@ -0,0 +1,196 @@
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import { Secp256k1EcdsaPublicKey, type Secp256k1EcdsaPublicKeyLike } from '../keys';
+import { hash160 } from '../hash';
+import { base58CheckDecode, base58CheckEncode, bech32Decode, bech32Encode, convertBits } from '../encoding';
+
+export type BitcoinNetwork = 'mainnet' | 'testnet';
+
+export type BitcoinAddressType = 'p2pkh' | 'p2sh' | 'p2wpkh' | 'p2wsh' | 'p2tr';
+
+/**
+ * A decoded Bitcoin address
+ */
+export interface DecodedBitcoinAddress {
+  type: BitcoinAddressType;
+  network: BitcoinNetwork;
+  // The public key hash, script hash or witness program
+  hash: Uint8Array;
+}
+
+// Version bytes and human-readable parts per network
+const NETWORKS: Record<BitcoinNetwork, { pubKeyHash: number, scriptHash: number, bech32: string }> = {
+  mainnet: { pubKeyHash: 0x00, scriptHash: 0x05, bech32: 'bc' },
+  testnet: { pubKeyHash: 0x6f, scriptHash: 0xc4, bech32: 'tb' }
+};
+
+/**
+ * Bitcoin address derivation and parsing for legacy (base58check) and segwit (bech32) addresses
+ */
+export class BitcoinAddress {
+  /**
+   * Derive a pay-to-public-key-hash address
+   * @param pubkey - The public key
+   * @param network - The network
+   * @param compressed - Whether to hash the compressed or uncompressed public key
+   * @returns The base58check address
+   */
+  static p2pkh(
+    pubkey: Secp256k1EcdsaPublicKeyLike,
+    network: BitcoinNetwork = 'mainnet',
+    compressed: boolean = true
+  ): string {
+    const key = Secp256k1EcdsaPublicKey.from(pubkey);
+    const hash = hash160(compressed ? key.toCompressed() : key.toUncompressed());
+
+    return base58CheckEncode(Uint8Array.from([NETWORKS[network].pubKeyHash, ...hash]));
+  }
+
+  /**
+   * Derive a native segwit pay-to-witness-public-key-hash address
+   * @param pubkey - The public key
+   * @param network - The network
+   * @returns The bech32 address
+   */
+  static p2wpkh(pubkey: Secp256k1EcdsaPublicKeyLike, network: BitcoinNetwork = 'mainnet'): string {
+    const hash = hash160(Secp256k1EcdsaPublicKey.from(pubkey).toCompressed());
+
+    return BitcoinAddress.encodeSegwit(NETWORKS[network].bech32, 0, hash);
+  }
+
+  /**
+   * Derive a nested segwit address: P2WPKH wrapped in pay-to-script-hash
+   * @param pubkey - The public key
+   * @param network - The network
+   * @returns The base58check address
+   */
+  static p2shP2wpkh(pubkey: Secp256k1EcdsaPublicKeyLike, network: BitcoinNetwork = 'mainnet'): string {
+    const hash = hash160(Secp256k1EcdsaPublicKey.from(pubkey).toCompressed());
+
+    // The redeem script is OP_0 <20-byte key hash>
+    const redeemScript = Uint8Array.from([0x00, 0x14, ...hash]);
+
+    return base58CheckEncode(Uint8Array.from([NETWORKS[network].scriptHash, ...hash160(redeemScript)]));
+  }
+
+  /**
+   * Parse an address
+   * @param address - The address
+   * @returns The address type, network and hash
+   */
+  static parse(address: string): DecodedBitcoinAddress {
+    try {
+      return /^(bc|tb)1/i.test(address)
+        ? BitcoinAddress.decodeSegwit(address)
+        : BitcoinAddress.decodeBase58(address);
+    } catch (error) {
+      if (error instanceof Secp256k1EcdsaException) {
+        throw error;
+      }
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidAddress,
+        `Invalid Bitcoin address: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Validate an address
+   * @param address - The address
+   * @param network - The expected network, if any
+   * @returns True if the address is valid
+   */
+  static isValid(address: string, network?: BitcoinNetwork): boolean {
+    try {
+      const decoded = BitcoinAddress.parse(address);
+      return network === undefined || decoded.network === network;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a P2PKH, P2SH-P2WPKH or P2WPKH address belongs to a public key
+   * @param address - The address
+   * @param pubkey - The public key
+   * @returns True if the public key hashes to the address
+   */
+  static matches(address: string, pubkey: Secp256k1EcdsaPublicKeyLike): boolean {
+    try {
+      const { type, network } = BitcoinAddress.parse(address);
+      switch (type) {
+        case 'p2pkh':
+          return BitcoinAddress.p2pkh(pubkey, network, true) === address ||
+            BitcoinAddress.p2pkh(pubkey, network, false) === address;
+        case 'p2sh':
+          return BitcoinAddress.p2shP2wpkh(pubkey, network) === address;
+        case 'p2wpkh':
+          return BitcoinAddress.p2wpkh(pubkey, network) === address.toLowerCase();
+        default:
+          return false;
+      }
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Encode a witness program as a segwit address
+   */
+  private static encodeSegwit(prefix: string, version: number, program: Uint8Array): string {
+    return bech32Encode(prefix, [version, ...convertBits(program, 8, 5, true)], version === 0 ? 'bech32' : 'bech32m');
+  }
+
+  /**
+   * Decode a segwit address (BIP173/BIP350)
+   */
+  private static decodeSegwit(address: string): DecodedBitcoinAddress {
+    const { prefix, words, encoding } = bech32Decode(address);
+
+    const network = (Object.keys(NETWORKS) as BitcoinNetwork[]).find(n => NETWORKS[n].bech32 === prefix);
+    if (!network || words.length === 0) {
+      throw new Error('Unknown segwit prefix');
+    }
+
+    const version = words[0];
+    const program = Uint8Array.from(convertBits(words.slice(1), 5, 8, false));
+
+    // Version 0 uses bech32, later versions bech32m
+    if ((version === 0) !== (encoding === 'bech32') || version > 16) {
+      throw new Error('Invalid witness version encoding');
+    }
+
+    if (version === 0 && program.length === 20) {
+      return { type: 'p2wpkh', network, hash: program };
+    }
+    if (version === 0 && program.length === 32) {
+      return { type: 'p2wsh', network, hash: program };
+    }
+    if (version === 1 && program.length === 32) {
+      return { type: 'p2tr', network, hash: program };
+    }
+
+    throw new Error(`Unsupported witness program: version ${version}, ${program.length} bytes`);
+  }
+
+  /**
+   * Decode a legacy base58check address
+   */
+  private static decodeBase58(address: string): DecodedBitcoinAddress {
+    const payload = base58CheckDecode(address);
+    if (payload.length !== 21) {
+      throw new Error(`Invalid payload length: ${payload.length}`);
+    }
+
+    const hash = payload.slice(1);
+    for (const network of Object.keys(NETWORKS) as BitcoinNetwork[]) {
+      if (payload[0] === NETWORKS[network].pubKeyHash) {
+        return { type: 'p2pkh', network, hash };
+      }
+      if (payload[0] === NETWORKS[network].scriptHash) {
+        return { type: 'p2sh', network, hash };
+      }
+    }
+
+    throw new Error(`Unknown version byte: ${payload[0]}`);
+  }
+}
@@ -0,0 +1,90 @@
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import { Secp256k1EcdsaPublicKey, type Secp256k1EcdsaPublicKeyLike } from '../keys';
+import { hash160 } from '../hash';
+import { bech32Decode, bech32Encode, convertBits } from '../encoding';
+
+/**
+ * Cosmos SDK address derivation and parsing: bech32(prefix, HASH160(compressed public key))
+ */
+export class CosmosAddress {
+  /**
+   * Derive the address of a public key
+   * @param pubkey - The public key
+   * @param prefix - The chain's bech32 account prefix
+   * @returns The bech32 address
+   */
+  static fromPublicKey(pubkey: Secp256k1EcdsaPublicKeyLike, prefix: string = 'cosmos'): string {
+    const hash = hash160(Secp256k1EcdsaPublicKey.from(pubkey).toCompressed());
+
+    return bech32Encode(prefix, convertBits(hash, 8, 5, true));
+  }
+
+  /**
+   * Parse an address
+   * @param address - The bech32 address
+   * @param expectedPrefix - The required prefix, if any
+   * @returns The prefix and the 20-byte address hash
+   */
+  static parse(address: string, expectedPrefix?: string): { prefix: string, hash: Uint8Array } {
+    let decoded: { prefix: string, hash: Uint8Array };
+    try {
+      const { prefix, words, encoding } = bech32Decode(address);
+      if (encoding !== 'bech32') {
+        throw new Error('Cosmos addresses use bech32, not bech32m');
+      }
+
+      decoded = { prefix, hash: Uint8Array.from(convertBits(words, 5, 8, false)) };
+    } catch (error) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidAddress,
+        `Invalid Cosmos address: ${(error as Error).message}`
+      );
+    }
+
+    if (decoded.hash.length !== 20) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidAddress,
+        `Invalid Cosmos address length: ${decoded.hash.length}`
+      );
+    }
+
+    if (expectedPrefix !== undefined && decoded.prefix !== expectedPrefix) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidAddress,
+        `Unexpected Cosmos address prefix: ${decoded.prefix}`
+      );
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Validate an address
+   * @param address - The address
+   * @param expectedPrefix - The required prefix, if any
+   * @returns True if the address is valid
+   */
+  static isValid(address: string, expectedPrefix?: string): boolean {
+    try {
+      CosmosAddress.parse(address, expectedPrefix);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether an address belongs to a public key
+   * @param address - The address
+   * @param pubkey - The public key
+   * @returns True if the public key hashes to the address
+   */
+  static matches(address: string, pubkey: Secp256k1EcdsaPublicKeyLike): boolean {
+    try {
+      const { prefix } = CosmosAddress.parse(address);
+      return CosmosAddress.fromPublicKey(pubkey, prefix) === address.toLowerCase();
+    } catch (error) {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { keccak_256 } from 'js-sha3';
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import { Secp256k1EcdsaPublicKey, type Secp256k1EcdsaPublicKeyLike } from '../keys';
+
+// Address length in bytes
+export const ETHEREUM_ADDRESS_LENGTH = 20;
+
+/**
+ * Ethereum address derivation, EIP-55 checksums and parsing
+ */
+export class EthereumAddress {
+  /**
+   * Compute the 20-byte address of a public key: the last 20 bytes of Keccak-256(x || y)
+   * @param pubkey - The public key
+   * @returns The 20-byte address
+   */
+  static hashPublicKey(pubkey: Secp256k1EcdsaPublicKeyLike): Uint8Array {
+    const raw = Secp256k1EcdsaPublicKey.from(pubkey).toRaw();
+
+    return new Uint8Array(keccak_256.arrayBuffer(raw)).slice(12);
+  }
+
+  /**
+   * Derive the EIP-55 checksummed address of a public key
+   * @param pubkey - The public key
+   * @returns The 0x-prefixed checksummed address
+   */
+  static fromPublicKey(pubkey: Secp256k1EcdsaPublicKeyLike): string {
+    return EthereumAddress.toChecksumAddress(EthereumAddress.hashPublicKey(pubkey));
+  }
+
+  /**
+   * Apply the EIP-55 mixed-case checksum to an address
+   * @param address - The address as a hex string or 20 bytes
+   * @returns The 0x-prefixed checksummed address
+   */
+  static toChecksumAddress(address: string | Uint8Array): string {
+    const hex = typeof address === 'string'
+      ? Buffer.from(EthereumAddress.parse(address, false)).toString('hex')
+      : Buffer.from(EthereumAddress.checkLength(address)).toString('hex');
+
+    // Uppercase each letter whose nibble in Keccak-256(lowercase hex) is 8 or more
+    const hash = keccak_256(hex);
+    let checksummed = '0x';
+    for (let i = 0; i < hex.length; i++) {
+      checksummed += parseInt(hash[i], 16) >= 8 ? hex[i].toUpperCase() : hex[i];
+    }
+
+    return checksummed;
+  }
+
+  /**
+   * Parse an address string
+   * @param address - The address, with or without 0x prefix
+   * @param verifyChecksum - Whether to reject mixed-case addresses with a wrong EIP-55 checksum
+   * @returns The 20-byte address
+   */
+  static parse(address: string, verifyChecksum: boolean = true): Uint8Array {
+    const hex = address.startsWith('0x') || address.startsWith('0X') ? address.slice(2) : address;
+    if (!/^[0-9a-fA-F]{40}$/.test(hex)) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidAddress,
+        `Invalid Ethereum address: ${address}`
+      );
+    }
+
+    const bytes = Uint8Array.from(Buffer.from(hex, 'hex'));
+
+    // All-lowercase and all-uppercase addresses carry no checksum
+    const mixedCase = hex !== hex.toLowerCase() && hex !== hex.toUpperCase();
+    if (verifyChecksum && mixedCase && EthereumAddress.toChecksumAddress(bytes).slice(2) !== hex) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidAddress,
+        `Invalid Ethereum address checksum: ${address}`
+      );
+    }
+
+    return bytes;
+  }
+
+  /**
+   * Check whether an address carries a valid EIP-55 checksum
+   * @param address - The 0x-prefixed address
+   * @returns True if the address is exactly its checksummed form
+   */
+  static isValidChecksum(address: string): boolean {
+    try {
+      return EthereumAddress.toChecksumAddress(address) === address;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Validate an address string
+   * @param address - The address
+   * @param strict - Require a valid EIP-55 checksum instead of accepting single-case addresses
+   * @returns True if the address is valid
+   */
+  static isValid(address: string, strict: boolean = false): boolean {
+    if (strict) {
+      return EthereumAddress.isValidChecksum(address);
+    }
+
+    try {
+      EthereumAddress.parse(address);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether an address belongs to a public key
+   * @param address - The address
+   * @param pubkey - The public key
+   * @returns True if the public key hashes to the address
+   */
+  static matches(address: string, pubkey: Secp256k1EcdsaPublicKeyLike): boolean {
+    try {
+      const expected = EthereumAddress.hashPublicKey(pubkey);
+      return EthereumAddress.parse(address).every((byte, i) => byte === expected[i]);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Ensure a byte address has the right length
+   */
+  private static checkLength(address: Uint8Array): Uint8Array {
+    if (address.length !== ETHEREUM_ADDRESS_LENGTH) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidAddress,
+        `Invalid Ethereum address length: ${address.length}`
+      );
+    }
+
+    return address;
+  }
+}
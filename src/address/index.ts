@@ -0,0 +1,7 @@
+/**
+ * Address Modules - one per chain, deriving addresses from secp256k1 public keys
+ */
+export * from './ethereum';
+export * from './bitcoin';
+export * from './tron';
+export * from './cosmos';
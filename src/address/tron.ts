@@ -0,0 +1,75 @@
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import type { Secp256k1EcdsaPublicKeyLike } from '../keys';
+import { base58CheckDecode, base58CheckEncode } from '../encoding';
+import { EthereumAddress } from './ethereum';
+
+// Version byte of Tron mainnet addresses
+const TRON_ADDRESS_PREFIX = 0x41;
+
+/**
+ * Tron address derivation and parsing: base58check(0x41 || Ethereum-style address)
+ */
+export class TronAddress {
+  /**
+   * Derive the address of a public key
+   * @param pubkey - The public key
+   * @returns The base58check address (starting with 'T')
+   */
+  static fromPublicKey(pubkey: Secp256k1EcdsaPublicKeyLike): string {
+    return base58CheckEncode(Uint8Array.from([TRON_ADDRESS_PREFIX, ...EthereumAddress.hashPublicKey(pubkey)]));
+  }
+
+  /**
+   * Parse an address
+   * @param address - The base58check address
+   * @returns The 20-byte address hash
+   */
+  static parse(address: string): Uint8Array {
+    let payload: Uint8Array;
+    try {
+      payload = base58CheckDecode(address);
+    } catch (error) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidAddress,
+        `Invalid Tron address: ${(error as Error).message}`
+      );
+    }
+
+    if (payload.length !== 21 || payload[0] !== TRON_ADDRESS_PREFIX) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidAddress,
+        `Invalid Tron address: ${address}`
+      );
+    }
+
+    return payload.slice(1);
+  }
+
+  /**
+   * Validate an address
+   * @param address - The address
+   * @returns True if the address is valid
+   */
+  static isValid(address: string): boolean {
+    try {
+      TronAddress.parse(address);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether an address belongs to a public key
+   * @param address - The address
+   * @param pubkey - The public key
+   * @returns True if the public key hashes to the address
+   */
+  static matches(address: string, pubkey: Secp256k1EcdsaPublicKeyLike): boolean {
+    try {
+      return TronAddress.fromPublicKey(pubkey) === address;
+    } catch (error) {
+      return false;
+    }
+  }
+}
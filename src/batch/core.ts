@@ -0,0 +1,65 @@
+import { Curve, type PreparedPoint } from '../utils';
+
+// Signers verified at least this many times get precomputed multiplication tables
+export const PRECOMPUTE_THRESHOLD = 16;
+
+// Digest length accepted, as single verification requires
+const DIGEST_LENGTH = 32;
+
+/**
+ * A batch entry reduced to plain bytes, so it can be posted to a worker thread
+ */
+export interface BatchEntry {
+  // The message hash
+  digest: Uint8Array;
+  // The 64-byte r || s signature
+  signature: Uint8Array;
+  // The 64-byte x || y public key
+  publicKey: Uint8Array;
+}
+
+/**
+ * Verify entries, parsing each distinct public key once
+ * @param entries - The entries to verify
+ * @returns Whether each entry's signature is valid
+ */
+export function verifyEntries(entries: BatchEntry[]): boolean[] {
+  // Count signatures per signer to decide which keys are worth precomputing
+  const counts = new Map<string, number>();
+  const keys = entries.map(entry => {
+    const key = Buffer.from(entry.publicKey).toString('hex');
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+    return key;
+  });
+
+  const points = new Map<string, PreparedPoint | null>();
+
+  return entries.map((entry, i) => {
+    const key = keys[i];
+    if (!points.has(key)) {
+      points.set(key, preparePoint(entry.publicKey, counts.get(key)! >= PRECOMPUTE_THRESHOLD));
+    }
+
+    const point = points.get(key);
+    if (!point || entry.digest.length !== DIGEST_LENGTH) {
+      return false;
+    }
+
+    try {
+      return Curve.verifyPrepared(point, entry.digest, entry.signature.slice(0, 32), entry.signature.slice(32, 64));
+    } catch (error) {
+      return false;
+    }
+  });
+}
+
+/**
+ * Parse a raw public key, or null if it is not a curve point
+ */
+function preparePoint(publicKey: Uint8Array, precompute: boolean): PreparedPoint | null {
+  try {
+    return Curve.preparePoint({ x: publicKey.slice(0, 32), y: publicKey.slice(32, 64) }, precompute);
+  } catch (error) {
+    return null;
+  }
+}
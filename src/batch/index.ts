@@ -0,0 +1,150 @@
+import { availableParallelism } from 'node:os';
+import { Secp256k1EcdsaSignature, SECP256K1_ECDSA_HASH_LENGTH } from '../index';
+import { Secp256k1EcdsaPublicKey, type Secp256k1EcdsaPublicKeyLike } from '../keys';
+import type { Secp256k1EcdsaHash } from '../hash';
+import { verifyEntries, type BatchEntry } from './core';
+import { runWorker } from './threads';
+
+/**
+ * One signature to verify in a batch
+ */
+export interface Secp256k1EcdsaBatchItem {
+  signature: Secp256k1EcdsaSignature | Uint8Array;
+  message: Uint8Array;
+  publicKey: Secp256k1EcdsaPublicKeyLike;
+  // Overrides the batch's hash implementation for this item
+  hashImpl?: Secp256k1EcdsaHash;
+}
+
+/**
+ * Options for batch verification
+ */
+export interface VerifyBatchOptions {
+  // The hash implementation for items that do not set their own
+  hashImpl?: Secp256k1EcdsaHash;
+}
+
+/**
+ * Options for batch verification on worker threads
+ */
+export interface VerifyBatchParallelOptions extends VerifyBatchOptions {
+  // The number of worker threads, defaults to the available parallelism
+  workers?: number;
+}
+
+/**
+ * Verify many signatures, parsing each signer's public key once and
+ * precomputing tables for signers that appear many times
+ * @param items - The signatures to verify
+ * @param options - The default hash implementation
+ * @returns Whether each item is valid, matching `Secp256k1EcdsaSignature.verify`
+ */
+export function verifyBatch(items: Secp256k1EcdsaBatchItem[], options: VerifyBatchOptions = {}): boolean[] {
+  const { entries, indices, results } = prepareBatch(items, options);
+
+  verifyEntries(entries).forEach((valid, i) => {
+    results[indices[i]] = valid;
+  });
+
+  return results;
+}
+
+/**
+ * Verify many signatures on worker threads; messages are hashed on the calling thread
+ * and each signer's signatures are kept on the same worker
+ * @param items - The signatures to verify
+ * @param options - The default hash implementation and the number of workers
+ * @returns Whether each item is valid, matching `Secp256k1EcdsaSignature.verify`
+ */
+export async function verifyBatchParallel(
+  items: Secp256k1EcdsaBatchItem[],
+  options: VerifyBatchParallelOptions = {}
+): Promise<boolean[]> {
+  const workerCount = Math.min(options.workers ?? availableParallelism(), items.length);
+  if (workerCount <= 1) {
+    return verifyBatch(items, options);
+  }
+
+  const { entries, indices, results } = prepareBatch(items, options);
+
+  // Group entries by signer, then hand the largest groups out to the least loaded worker
+  const groups = new Map<string, number[]>();
+  entries.forEach((entry, i) => {
+    const key = Buffer.from(entry.publicKey).toString('hex');
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(i);
+  });
+
+  const chunks: number[][] = Array.from({ length: workerCount }, (): number[] => []);
+  for (const group of [...groups.values()].sort((a, b) => b.length - a.length)) {
+    const smallest = chunks.reduce((min, chunk) => chunk.length < min.length ? chunk : min);
+    // Append one by one: spreading a large group would exceed the engine's argument limit
+    for (const index of group) {
+      smallest.push(index);
+    }
+  }
+
+  const chunkResults = await Promise.all(
+    chunks
+      .filter(chunk => chunk.length > 0)
+      .map(async chunk => ({ chunk, valid: await runWorker(chunk.map(i => entries[i])) }))
+  );
+
+  for (const { chunk, valid } of chunkResults) {
+    chunk.forEach((entryIndex, i) => {
+      results[indices[entryIndex]] = valid[i];
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Hash each item's message and reduce it to plain bytes; items that cannot be
+ * parsed are marked invalid up front, as `verify` would return false for them
+ */
+function prepareBatch(
+  items: Secp256k1EcdsaBatchItem[],
+  options: VerifyBatchOptions
+): { entries: BatchEntry[], indices: number[], results: boolean[] } {
+  const entries: BatchEntry[] = [];
+  const indices: number[] = [];
+  const results: boolean[] = new Array(items.length).fill(false);
+
+  // Parse each distinct public key object or encoding once
+  const publicKeys = new Map<Secp256k1EcdsaPublicKeyLike, Uint8Array>();
+
+  items.forEach((item, i) => {
+    try {
+      const hashImpl = item.hashImpl ?? options.hashImpl;
+      if (!hashImpl) {
+        return;
+      }
+
+      const signature = item.signature instanceof Secp256k1EcdsaSignature
+        ? item.signature
+        : new Secp256k1EcdsaSignature(item.signature);
+
+      let publicKey = publicKeys.get(item.publicKey);
+      if (!publicKey) {
+        publicKey = Secp256k1EcdsaPublicKey.from(item.publicKey).toRaw();
+        publicKeys.set(item.publicKey, publicKey);
+      }
+
+      // `verify` rejects digests that are not 32 bytes; they are left invalid here
+      const digest = hashImpl.hash(item.message);
+      if (digest.length !== SECP256K1_ECDSA_HASH_LENGTH) {
+        return;
+      }
+
+      entries.push({ digest, signature: signature.signature, publicKey });
+      indices.push(i);
+    } catch (error) {
+      // Left invalid
+    }
+  });
+
+  return { entries, indices, results };
+}
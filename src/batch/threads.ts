@@ -0,0 +1,28 @@
+import { Worker } from 'node:worker_threads';
+import type { BatchEntry } from './core';
+
+/**
+ * Verify a chunk of entries on a new worker thread
+ * @param entries - The entries to verify
+ * @param workerUrl - The worker script, the batch worker by default
+ * @returns Whether each entry's signature is valid; rejects if the worker fails or exits without answering
+ */
+export function runWorker(entries: BatchEntry[], workerUrl: URL = defaultWorkerUrl()): Promise<boolean[]> {
+  const worker = new Worker(workerUrl);
+
+  return new Promise<boolean[]>((resolve, reject) => {
+    worker.once('message', (results: boolean[]) => resolve(results));
+    worker.once('error', reject);
+    // A worker that dies without answering must still settle; after a result this is a no-op
+    worker.once('exit', code => reject(new Error(`Batch worker exited with code ${code} before posting results`)));
+    worker.postMessage(entries);
+  }).finally(() => worker.terminate());
+}
+
+/**
+ * Locate the worker with the same extension as this module (.ts from source, .js once built)
+ */
+function defaultWorkerUrl(): URL {
+  const extension = new URL(import.meta.url).pathname.match(/\.[cm]?[jt]s$/)?.[0] ?? '.js';
+  return new URL(`./worker${extension}`, import.meta.url);
+}
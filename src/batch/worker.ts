@@ -0,0 +1,9 @@
+import { parentPort } from 'node:worker_threads';
+import { verifyEntries, type BatchEntry } from './core';
+
+/**
+ * Worker thread entry point: verifies each posted chunk of entries and posts back the results
+ */
+parentPort?.on('message', (entries: BatchEntry[]) => {
+  parentPort!.postMessage(verifyEntries(entries));
+});
@@ -0,0 +1,4 @@
+/**
+ * Bitcoin Modules - message signing formats used by Bitcoin wallets
+ */
+export * from './message';
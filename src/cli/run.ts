@@ -0,0 +1,332 @@
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { Secp256k1EcdsaSignature } from '../index';
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import { BSM, ESM, Keccak, SHA256, SHA256d, type Secp256k1EcdsaHash } from '../hash';
+import { Secp256k1EcdsaPrivateKey, Secp256k1EcdsaPublicKey } from '../keys';
+import { EthereumSignature } from '../ethereum';
+import { base58Decode, base58Encode } from '../encoding';
+
+// Exit codes outside the Secp256k1EcdsaError range, from BSD sysexits
+export const CLI_EXIT_USAGE = 64;
+export const CLI_EXIT_INTERNAL = 70;
+
+/**
+ * Where the CLI reads and writes, replaceable for tests
+ */
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+  readStdin(): Promise<Uint8Array>;
+  readFile(path: string): Uint8Array;
+}
+
+type OutputEncoding = 'hex' | 'base64' | 'base58';
+
+// Hash selector values and the classes they map to
+const HASHES: Record<string, () => Secp256k1EcdsaHash> = {
+  sha256: () => new SHA256(),
+  sha256d: () => new SHA256d(),
+  keccak: () => new Keccak(),
+  bsm: () => new BSM(),
+  esm: () => new ESM()
+};
+
+const USAGE = `Usage: sol-ecdsa <command> [options] [message]
+
+Commands:
+  keygen                          Generate a private key
+  pubkey    -k <key>              Derive the public key of a private key
+  sign      -k <key> <message>    Sign a message, with a low-S signature
+  verify    -p <pubkey> -s <sig> <message>
+                                  Verify a signature; exits with the failure reason's code
+  recover   -s <sig> <message>    Recover the public key from a 65-byte signature or --recovery-id
+  normalize -s <sig>              Convert a signature to low-S form
+
+Options:
+  -H, --hash <name>         sha256 | sha256d | keccak | bsm | esm (default sha256)
+  -k, --key <input>         Private key
+  -p, --pubkey <input>      Public key, compressed, uncompressed or raw
+  -s, --signature <input>   64-byte r || s, or 65-byte r || s || v
+  -r, --recovery-id <n>     Recovery id for 64-byte signatures
+  -m, --message <input>     Message, instead of the positional argument
+  -f, --format <encoding>   Encoding of output bytes: hex | base64 | base58 (default hex)
+      --allow-high-s        Keep high-S signatures in sign, accept them in verify
+  -h, --help                Show this help
+
+Inputs are hex for keys and signatures and UTF-8 text for messages, unless
+prefixed with hex:, base64:, base58: or utf8:. Use @<path> to read a file and
+- to read stdin.
+
+Output is JSON. Errors exit with their Secp256k1EcdsaError code, usage errors
+with ${CLI_EXIT_USAGE}.`;
+
+/**
+ * A usage error, reported with the usage exit code
+ */
+class CliUsageError extends Error {}
+
+/**
+ * Run the sol-ecdsa command line
+ * @param argv - The arguments after the executable and script
+ * @param io - The streams and file access to use
+ * @returns The exit code: 0 on success, the Secp256k1EcdsaError code of a failure, or a usage/internal code
+ */
+export async function runCli(argv: string[], io: CliIO = nodeIO()): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        hash: { type: 'string', short: 'H', default: 'sha256' },
+        key: { type: 'string', short: 'k' },
+        pubkey: { type: 'string', short: 'p' },
+        signature: { type: 'string', short: 's' },
+        'recovery-id': { type: 'string', short: 'r' },
+        message: { type: 'string', short: 'm' },
+        format: { type: 'string', short: 'f', default: 'hex' },
+        'allow-high-s': { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+
+    const [command, ...rest] = positionals;
+    if (values.help) {
+      io.stdout(USAGE + '\n');
+      return 0;
+    }
+    if (!command) {
+      io.stderr(USAGE + '\n');
+      return CLI_EXIT_USAGE;
+    }
+
+    const format = values.format as OutputEncoding;
+    if (!['hex', 'base64', 'base58'].includes(format)) {
+      throw new CliUsageError(`Unknown output format: ${format}`);
+    }
+    const encode = (bytes: Uint8Array) => encodeOutput(bytes, format);
+
+    const hashFactory = HASHES[values.hash];
+    if (!hashFactory) {
+      throw new CliUsageError(`Unknown hash: ${values.hash}`);
+    }
+
+    const input = new InputReader(io);
+    const message = async () => {
+      const spec = values.message ?? rest[0];
+      if (spec === undefined) {
+        throw new CliUsageError('Missing message');
+      }
+
+      return input.read(spec, 'utf8');
+    };
+    const required = (name: string, value: string | undefined) => {
+      if (value === undefined) {
+        throw new CliUsageError(`Missing --${name}`);
+      }
+
+      return value;
+    };
+
+    let result: Record<string, unknown>;
+    let exitCode = 0;
+    switch (command) {
+      case 'keygen': {
+        const privateKey = Secp256k1EcdsaPrivateKey.generate();
+        result = { privateKey: encode(privateKey.toBytes()), ...publicKeyOutput(privateKey.publicKey(), encode) };
+        break;
+      }
+      case 'pubkey': {
+        const privateKey = new Secp256k1EcdsaPrivateKey(await input.read(required('key', values.key), 'hex'));
+        result = publicKeyOutput(privateKey.publicKey(), encode);
+        break;
+      }
+      case 'sign': {
+        const privateKey = new Secp256k1EcdsaPrivateKey(await input.read(required('key', values.key), 'hex'));
+        const signature = Secp256k1EcdsaSignature.sign(hashFactory(), await message(), privateKey);
+
+        // Low-S unless asked otherwise, so the signature passes strict verifiers like our own verify
+        result = signatureOutput(values['allow-high-s'] ? signature : signature.normalizeS(), encode);
+        break;
+      }
+      case 'verify': {
+        const publicKey = Secp256k1EcdsaPublicKey.fromBytes(await input.read(required('pubkey', values.pubkey), 'hex'));
+        const signature = parseSignature(await input.read(required('signature', values.signature), 'hex'));
+        const verification = signature.verifyDetailed(hashFactory(), await message(), publicKey, {
+          lowS: !values['allow-high-s']
+        });
+
+        result = verification.valid
+          ? { valid: true }
+          : { valid: false, reason: Secp256k1EcdsaError[verification.reason], code: verification.reason, message: verification.message };
+        exitCode = verification.valid ? 0 : verification.reason;
+        break;
+      }
+      case 'recover': {
+        let signature = parseSignature(await input.read(required('signature', values.signature), 'hex'));
+        if (values['recovery-id'] !== undefined) {
+          signature = new Secp256k1EcdsaSignature(signature.signature, parseRecoveryId(values['recovery-id']));
+        }
+
+        result = publicKeyOutput(signature.recover(hashFactory(), await message()), encode);
+        break;
+      }
+      case 'normalize': {
+        const signature = parseSignature(await input.read(required('signature', values.signature), 'hex'));
+        const normalized = signature.normalizeS();
+        result = { ...signatureOutput(normalized, encode), changed: normalized !== signature };
+        break;
+      }
+      default:
+        throw new CliUsageError(`Unknown command: ${command}`);
+    }
+
+    io.stdout(JSON.stringify(result, null, 2) + '\n');
+    return exitCode;
+  } catch (error) {
+    if (error instanceof Secp256k1EcdsaException) {
+      io.stderr(JSON.stringify({ error: Secp256k1EcdsaError[error.code], code: error.code, message: error.message }) + '\n');
+      return error.code;
+    }
+
+    const usage = error instanceof CliUsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS');
+    io.stderr(JSON.stringify({ error: usage ? 'Usage' : 'Internal', message: (error as Error).message }) + '\n');
+    return usage ? CLI_EXIT_USAGE : CLI_EXIT_INTERNAL;
+  }
+}
+
+/**
+ * Decode command line inputs, reading stdin at most once
+ */
+class InputReader {
+  private stdin: Promise<Uint8Array> | undefined;
+
+  constructor(private readonly io: CliIO) {}
+
+  /**
+   * Decode an input: an encoding prefix, @file, - for stdin, or a bare value in the default encoding.
+   * Files and stdin are raw bytes for messages, and trimmed text decoded as usual otherwise.
+   */
+  async read(spec: string, defaultEncoding: 'hex' | 'utf8'): Promise<Uint8Array> {
+    if (spec === '-' || spec.startsWith('@')) {
+      let bytes: Uint8Array;
+      try {
+        bytes = spec === '-' ? await (this.stdin ??= this.io.readStdin()) : this.io.readFile(spec.slice(1));
+      } catch (error) {
+        throw new CliUsageError(`Cannot read ${spec === '-' ? 'stdin' : spec.slice(1)}: ${(error as Error).message}`);
+      }
+
+      return defaultEncoding === 'utf8' ? bytes : decodeInput(new TextDecoder().decode(bytes).trim(), defaultEncoding);
+    }
+
+    return decodeInput(spec, defaultEncoding);
+  }
+}
+
+/**
+ * Decode a value with an optional encoding prefix
+ */
+function decodeInput(value: string, defaultEncoding: 'hex' | 'utf8'): Uint8Array {
+  const match = /^(hex|base64|base58|utf8):/.exec(value);
+  const encoding = match ? match[1] : defaultEncoding;
+  const data = match ? value.slice(match[0].length) : value;
+
+  switch (encoding) {
+    case 'utf8':
+      return new TextEncoder().encode(data);
+    case 'base64':
+      if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data)) {
+        throw new CliUsageError('Invalid base64 input');
+      }
+      return Uint8Array.from(Buffer.from(data, 'base64'));
+    case 'base58':
+      try {
+        return base58Decode(data);
+      } catch (error) {
+        throw new CliUsageError('Invalid base58 input');
+      }
+    default: {
+      const digits = data.startsWith('0x') ? data.slice(2) : data;
+      if (!/^([0-9a-fA-F]{2})*$/.test(digits)) {
+        throw new CliUsageError('Invalid hex input');
+      }
+      return Uint8Array.from(Buffer.from(digits, 'hex'));
+    }
+  }
+}
+
+/**
+ * Encode output bytes
+ */
+function encodeOutput(bytes: Uint8Array, format: OutputEncoding): string {
+  switch (format) {
+    case 'base64':
+      return Buffer.from(bytes).toString('base64');
+    case 'base58':
+      return base58Encode(bytes);
+    default:
+      return Buffer.from(bytes).toString('hex');
+  }
+}
+
+/**
+ * Parse a 64-byte r || s signature, or a 65-byte one whose last byte is v (0/1 or 27/28)
+ */
+function parseSignature(bytes: Uint8Array): Secp256k1EcdsaSignature {
+  return bytes.length === 65 ? EthereumSignature.fromBytes(bytes).signature : new Secp256k1EcdsaSignature(bytes);
+}
+
+/**
+ * Parse the --recovery-id option
+ */
+function parseRecoveryId(value: string): number {
+  if (!/^[0-3]$/.test(value)) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidRecoveryId,
+      `Invalid recovery id: ${value}`
+    );
+  }
+
+  return Number(value);
+}
+
+/**
+ * The JSON fields describing a public key
+ */
+function publicKeyOutput(publicKey: Secp256k1EcdsaPublicKey, encode: (bytes: Uint8Array) => string): Record<string, string> {
+  return {
+    publicKey: encode(publicKey.toCompressed()),
+    publicKeyUncompressed: encode(publicKey.toUncompressed())
+  };
+}
+
+/**
+ * The JSON fields describing a signature
+ */
+function signatureOutput(signature: Secp256k1EcdsaSignature, encode: (bytes: Uint8Array) => string): Record<string, unknown> {
+  return {
+    signature: encode(signature.signature),
+    r: encode(signature.r()),
+    s: encode(signature.s()),
+    recoveryId: signature.recoveryId ?? null
+  };
+}
+
+/**
+ * Read from the real process streams and file system
+ */
+function nodeIO(): CliIO {
+  return {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+    readStdin: async () => {
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of process.stdin) {
+        chunks.push(chunk);
+      }
+
+      return new Uint8Array(Buffer.concat(chunks));
+    },
+    readFile: path => new Uint8Array(readFileSync(path))
+  };
+}
@@ -0,0 +1,29 @@
+import { WeierstrassCurve, type CurveParams } from './weierstrass';
+
+export * from './weierstrass';
+
+// secp256k1 domain parameters (SEC 2, section 2.4.1)
+export const SECP256K1_PARAMS: CurveParams = {
+  name: 'secp256k1',
+  p: 0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2fn,
+  n: 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n,
+  a: 0n,
+  b: 7n,
+  gx: 0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+  gy: 0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n
+};
+
+export const secp256k1 = new WeierstrassCurve(SECP256K1_PARAMS);
+
+// NIST P-256 / secp256r1 domain parameters (SEC 2, section 2.4.2), with a = -3
+export const SECP256R1_PARAMS: CurveParams = {
+  name: 'secp256r1',
+  p: 0xffffffff00000001000000000000000000000000ffffffffffffffffffffffffn,
+  n: 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n,
+  a: 0xffffffff00000001000000000000000000000000fffffffffffffffffffffffcn,
+  b: 0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604bn,
+  gx: 0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296n,
+  gy: 0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5n
+};
+
+export const secp256r1 = new WeierstrassCurve(SECP256R1_PARAMS);
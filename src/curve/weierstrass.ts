@@ -0,0 +1,514 @@
+/**
+ * Parameters of a short Weierstrass curve y^2 = x^3 + ax + b over GF(p)
+ */
+export interface CurveParams {
+  name: string;
+  // Field prime
+  p: bigint;
+  // Group order
+  n: bigint;
+  a: bigint;
+  b: bigint;
+  // Generator
+  gx: bigint;
+  gy: bigint;
+}
+
+/**
+ * A point in affine coordinates
+ */
+export interface AffinePoint {
+  x: bigint;
+  y: bigint;
+}
+
+/**
+ * A point in Jacobian coordinates (X / Z^2, Y / Z^3); Z = 0 is the point at infinity
+ */
+interface JacobianPoint {
+  x: bigint;
+  y: bigint;
+  z: bigint;
+}
+
+/**
+ * A public key with a table of its odd multiples, for repeated verification
+ */
+export interface PreparedPoint {
+  point: AffinePoint;
+  window: number;
+  table: AffinePoint[];
+}
+
+// Window sizes for the odd-multiple tables
+const BASE_WINDOW = 8;
+const POINT_WINDOW = 4;
+const PRECOMPUTED_POINT_WINDOW = 6;
+
+const INFINITY: JacobianPoint = { x: 0n, y: 1n, z: 0n };
+
+/**
+ * WeierstrassCurve
+ * Native bigint arithmetic for a prime-order short Weierstrass curve.
+ *
+ * Operations on public values (verification, recovery) use interleaved wNAF with
+ * a precomputed generator table. Operations on secret scalars (key derivation,
+ * signing) use a Montgomery ladder with conditional swaps, so the sequence of
+ * field operations does not depend on the scalar. JavaScript bigint arithmetic
+ * is not itself constant-time; the ladder removes the scalar-dependent branches
+ * and table lookups, which are the large timing leaks.
+ */
+export class WeierstrassCurve {
+  public readonly G: AffinePoint;
+
+  private baseTable?: AffinePoint[];
+
+  constructor(public readonly params: CurveParams) {
+    this.G = { x: params.gx, y: params.gy };
+  }
+
+  /**
+   * Reduce a value modulo the field prime
+   */
+  modP(a: bigint): bigint {
+    const r = a % this.params.p;
+    return r >= 0n ? r : r + this.params.p;
+  }
+
+  /**
+   * Reduce a value modulo the group order
+   */
+  modN(a: bigint): bigint {
+    const r = a % this.params.n;
+    return r >= 0n ? r : r + this.params.n;
+  }
+
+  /**
+   * Invert a public value modulo m with the extended Euclidean algorithm
+   */
+  invert(a: bigint, m: bigint): bigint {
+    let b = m;
+    let x = 0n;
+    let u = 1n;
+    a = ((a % m) + m) % m;
+
+    while (a !== 0n) {
+      const q = b / a;
+      [b, a] = [a, b - q * a];
+      [x, u] = [u, x - q * u];
+    }
+
+    if (b !== 1n) {
+      throw new Error('Value is not invertible');
+    }
+
+    return ((x % m) + m) % m;
+  }
+
+  /**
+   * Invert a secret value modulo a prime with a fixed exponentiation (Fermat)
+   */
+  invertSecret(a: bigint, m: bigint): bigint {
+    if (a % m === 0n) {
+      throw new Error('Value is not invertible');
+    }
+
+    return this.pow(a, m - 2n, m);
+  }
+
+  /**
+   * Modular exponentiation by square-and-multiply over the bits of a public exponent
+   */
+  pow(base: bigint, exponent: bigint, m: bigint): bigint {
+    let result = 1n;
+    base = ((base % m) + m) % m;
+
+    while (exponent > 0n) {
+      if (exponent & 1n) {
+        result = (result * base) % m;
+      }
+      base = (base * base) % m;
+      exponent >>= 1n;
+    }
+
+    return result;
+  }
+
+  /**
+   * Check whether coordinates satisfy the curve equation
+   */
+  isOnCurve(point: AffinePoint): boolean {
+    const { p, a, b } = this.params;
+    const { x, y } = point;
+    if (x < 0n || x >= p || y < 0n || y >= p) {
+      return false;
+    }
+
+    return this.modP(y * y - (x * x * x + a * x + b)) === 0n;
+  }
+
+  /**
+   * Find the point with the given x-coordinate and y parity
+   */
+  liftX(x: bigint, odd: boolean): AffinePoint {
+    const { p, a, b } = this.params;
+    if (x < 0n || x >= p) {
+      throw new Error('x-coordinate out of range');
+    }
+
+    // p = 3 mod 4 for supported curves, so sqrt(c) = c^((p + 1) / 4)
+    const c = this.modP(x * x * x + a * x + b);
+    let y = this.pow(c, (p + 1n) / 4n, p);
+    if (this.modP(y * y) !== c) {
+      throw new Error('x-coordinate is not on the curve');
+    }
+
+    if ((y & 1n) !== (odd ? 1n : 0n)) {
+      y = p - y;
+    }
+
+    return { x, y };
+  }
+
+  /**
+   * Multiply the generator by a secret scalar
+   */
+  multiplyBaseSecret(k: bigint): AffinePoint {
+    return this.multiplySecret(this.G, k);
+  }
+
+  /**
+   * Multiply a point by a secret scalar with a Montgomery ladder
+   */
+  multiplySecret(point: AffinePoint, k: bigint): AffinePoint {
+    const { n } = this.params;
+    k = this.modN(k);
+    if (k === 0n) {
+      throw new Error('Scalar is zero');
+    }
+
+    // Shift the scalar into [2^bits, 2^(bits+1)) by adding n once or twice,
+    // so the ladder always starts from the same top bit
+    const bits = BigInt(n.toString(2).length);
+    const top = 1n << bits;
+    let scalar = k + n;
+    scalar += n * ((scalar - top) >> bits & 1n);
+
+    // Randomize the projective representation of the starting point
+    const lambda = this.randomFieldElement();
+    const lambda2 = this.modP(lambda * lambda);
+    let r0: JacobianPoint = {
+      x: this.modP(point.x * lambda2),
+      y: this.modP(point.y * lambda2 * lambda),
+      z: lambda
+    };
+    let r1 = this.double(r0);
+
+    // Invariant: r1 = r0 + P
+    for (let i = bits - 1n; i >= 0n; i--) {
+      const bit = (scalar >> i) & 1n;
+      [r0, r1] = conditionalSwap(r0, r1, bit);
+      r1 = this.add(r0, r1);
+      r0 = this.double(r0);
+      [r0, r1] = conditionalSwap(r0, r1, bit);
+    }
+
+    return this.toAffine(r0, true);
+  }
+
+  /**
+   * Multiply a point by a public scalar with wNAF
+   */
+  multiply(point: AffinePoint, k: bigint): AffinePoint {
+    const prepared = this.prepare(point);
+    return this.toAffine(this.interleave([[this.modN(k), prepared.table, prepared.window]]));
+  }
+
+  /**
+   * Multiply the generator by a public scalar with its precomputed table
+   */
+  multiplyBase(k: bigint): AffinePoint {
+    return this.toAffine(this.interleave([[this.modN(k), this.getBaseTable(), BASE_WINDOW]]));
+  }
+
+  /**
+   * Compute u1 * G + u2 * Q for public scalars, sharing the doublings
+   */
+  multiplyAdd(u1: bigint, point: PreparedPoint, u2: bigint): AffinePoint | null {
+    const result = this.interleave([
+      [this.modN(u1), this.getBaseTable(), BASE_WINDOW],
+      [this.modN(u2), point.table, point.window]
+    ]);
+
+    return result.z === 0n ? null : this.toAffine(result);
+  }
+
+  /**
+   * Add two affine points
+   */
+  addAffine(a: AffinePoint, b: AffinePoint): AffinePoint {
+    return this.toAffine(this.add(toJacobian(a), toJacobian(b)));
+  }
+
+  /**
+   * Build the odd-multiple table of a point for wNAF multiplication
+   */
+  prepare(point: AffinePoint, precompute: boolean = false): PreparedPoint {
+    const window = precompute ? PRECOMPUTED_POINT_WINDOW : POINT_WINDOW;
+
+    return { point, window, table: this.oddMultiples(point, window) };
+  }
+
+  /**
+   * Negate an affine point
+   */
+  negate(point: AffinePoint): AffinePoint {
+    return { x: point.x, y: this.modP(-point.y) };
+  }
+
+  /**
+   * Lazily compute the generator's odd-multiple table
+   */
+  private getBaseTable(): AffinePoint[] {
+    if (!this.baseTable) {
+      this.baseTable = this.oddMultiples(this.G, BASE_WINDOW);
+    }
+
+    return this.baseTable;
+  }
+
+  /**
+   * Compute P, 3P, 5P, ..., (2^(w-1) - 1)P in affine coordinates
+   */
+  private oddMultiples(point: AffinePoint, window: number): AffinePoint[] {
+    const count = 1 << (window - 2);
+    const double = this.double(toJacobian(point));
+
+    const multiples: JacobianPoint[] = [toJacobian(point)];
+    for (let i = 1; i < count; i++) {
+      multiples.push(this.add(multiples[i - 1], double));
+    }
+
+    return this.normalizeAll(multiples);
+  }
+
+  /**
+   * Sum k_i * P_i by interleaving the wNAF digits of every scalar
+   */
+  private interleave(terms: Array<[bigint, AffinePoint[], number]>): JacobianPoint {
+    const digits = terms.map(([k, , window]) => wnaf(k, window));
+    const length = Math.max(...digits.map(d => d.length));
+
+    let acc = INFINITY;
+    for (let i = length - 1; i >= 0; i--) {
+      acc = this.double(acc);
+
+      terms.forEach(([, table], t) => {
+        const digit = digits[t][i];
+        if (digit > 0) {
+          acc = this.addMixed(acc, table[(digit - 1) >> 1]);
+        } else if (digit < 0) {
+          acc = this.addMixed(acc, this.negate(table[(-digit - 1) >> 1]));
+        }
+      });
+    }
+
+    return acc;
+  }
+
+  /**
+   * Double a point (dbl-2007-bl)
+   */
+  private double(point: JacobianPoint): JacobianPoint {
+    const { x, y, z } = point;
+    if (z === 0n || y === 0n) {
+      return INFINITY;
+    }
+
+    const xx = this.modP(x * x);
+    const yy = this.modP(y * y);
+    const yyyy = this.modP(yy * yy);
+    const zz = this.modP(z * z);
+    const s = this.modP(2n * ((x + yy) * (x + yy) - xx - yyyy));
+    const m = this.params.a === 0n
+      ? this.modP(3n * xx)
+      : this.modP(3n * xx + this.params.a * zz * zz);
+
+    const x3 = this.modP(m * m - 2n * s);
+    const y3 = this.modP(m * (s - x3) - 8n * yyyy);
+    const z3 = this.modP((y + z) * (y + z) - yy - zz);
+
+    return { x: x3, y: y3, z: z3 };
+  }
+
+  /**
+   * Add two points (add-2007-bl)
+   */
+  private add(p1: JacobianPoint, p2: JacobianPoint): JacobianPoint {
+    if (p1.z === 0n) {
+      return p2;
+    }
+    if (p2.z === 0n) {
+      return p1;
+    }
+
+    const z1z1 = this.modP(p1.z * p1.z);
+    const z2z2 = this.modP(p2.z * p2.z);
+    const u1 = this.modP(p1.x * z2z2);
+    const u2 = this.modP(p2.x * z1z1);
+    const s1 = this.modP(p1.y * p2.z * z2z2);
+    const s2 = this.modP(p2.y * p1.z * z1z1);
+
+    const h = this.modP(u2 - u1);
+    const r = this.modP(2n * (s2 - s1));
+    if (h === 0n) {
+      return r === 0n ? this.double(p1) : INFINITY;
+    }
+
+    const i = this.modP(4n * h * h);
+    const j = this.modP(h * i);
+    const v = this.modP(u1 * i);
+
+    const x3 = this.modP(r * r - j - 2n * v);
+    const y3 = this.modP(r * (v - x3) - 2n * s1 * j);
+    const z3 = this.modP(((p1.z + p2.z) * (p1.z + p2.z) - z1z1 - z2z2) * h);
+
+    return { x: x3, y: y3, z: z3 };
+  }
+
+  /**
+   * Add an affine point to a Jacobian point (madd-2007-bl)
+   */
+  private addMixed(p1: JacobianPoint, p2: AffinePoint): JacobianPoint {
+    if (p1.z === 0n) {
+      return toJacobian(p2);
+    }
+
+    const z1z1 = this.modP(p1.z * p1.z);
+    const u2 = this.modP(p2.x * z1z1);
+    const s2 = this.modP(p2.y * p1.z * z1z1);
+
+    const h = this.modP(u2 - p1.x);
+    const r = this.modP(2n * (s2 - p1.y));
+    if (h === 0n) {
+      return r === 0n ? this.double(p1) : INFINITY;
+    }
+
+    const hh = this.modP(h * h);
+    const i = this.modP(4n * hh);
+    const j = this.modP(h * i);
+    const v = this.modP(p1.x * i);
+
+    const x3 = this.modP(r * r - j - 2n * v);
+    const y3 = this.modP(r * (v - x3) - 2n * p1.y * j);
+    const z3 = this.modP((p1.z + h) * (p1.z + h) - z1z1 - hh);
+
+    return { x: x3, y: y3, z: z3 };
+  }
+
+  /**
+   * Convert a Jacobian point to affine coordinates
+   */
+  private toAffine(point: JacobianPoint, secret: boolean = false): AffinePoint {
+    if (point.z === 0n) {
+      throw new Error('Point at infinity');
+    }
+
+    const { p } = this.params;
+    const zInv = secret ? this.invertSecret(point.z, p) : this.invert(point.z, p);
+    const zInv2 = this.modP(zInv * zInv);
+
+    return {
+      x: this.modP(point.x * zInv2),
+      y: this.modP(point.y * zInv2 * zInv)
+    };
+  }
+
+  /**
+   * Convert many Jacobian points to affine with a single inversion (Montgomery's trick)
+   */
+  private normalizeAll(points: JacobianPoint[]): AffinePoint[] {
+    const { p } = this.params;
+
+    // prefix[i] = z_0 * ... * z_i
+    const prefix: bigint[] = [];
+    let acc = 1n;
+    for (const point of points) {
+      acc = this.modP(acc * point.z);
+      prefix.push(acc);
+    }
+
+    let inverse = this.invert(acc, p);
+    const affine: AffinePoint[] = new Array(points.length);
+    for (let i = points.length - 1; i >= 0; i--) {
+      const zInv = i > 0 ? this.modP(inverse * prefix[i - 1]) : inverse;
+      inverse = this.modP(inverse * points[i].z);
+
+      const zInv2 = this.modP(zInv * zInv);
+      affine[i] = {
+        x: this.modP(points[i].x * zInv2),
+        y: this.modP(points[i].y * zInv2 * zInv)
+      };
+    }
+
+    return affine;
+  }
+
+  /**
+   * Draw a random non-zero field element
+   */
+  private randomFieldElement(): bigint {
+    const bytes = new Uint8Array(48);
+    crypto.getRandomValues(bytes);
+
+    const value = BigInt('0x' + Buffer.from(bytes).toString('hex'));
+    return this.modP(value) || 1n;
+  }
+}
+
+/**
+ * Lift an affine point to Jacobian coordinates
+ */
+function toJacobian(point: AffinePoint): JacobianPoint {
+  return { x: point.x, y: point.y, z: 1n };
+}
+
+/**
+ * Swap two points when bit is 1, without branching on it
+ */
+function conditionalSwap(a: JacobianPoint, b: JacobianPoint, bit: bigint): [JacobianPoint, JacobianPoint] {
+  const mask = -bit;
+  const dx = mask & (a.x ^ b.x);
+  const dy = mask & (a.y ^ b.y);
+  const dz = mask & (a.z ^ b.z);
+
+  return [
+    { x: a.x ^ dx, y: a.y ^ dy, z: a.z ^ dz },
+    { x: b.x ^ dx, y: b.y ^ dy, z: b.z ^ dz }
+  ];
+}
+
+/**
+ * Compute the width-w non-adjacent form of a scalar, least significant digit first
+ */
+function wnaf(k: bigint, window: number): number[] {
+  const digits: number[] = [];
+  const width = 1n << BigInt(window);
+  const half = width >> 1n;
+
+  while (k > 0n) {
+    let digit = 0n;
+    if (k & 1n) {
+      digit = k & (width - 1n);
+      if (digit >= half) {
+        digit -= width;
+      }
+      k -= digit;
+    }
+
+    digits.push(Number(digit));
+    k >>= 1n;
+  }
+
+  return digits;
+}
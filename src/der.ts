@@ -0,0 +1,128 @@
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from './errors';
+
+// ASN.1 tags
+const SEQUENCE_TAG = 0x30;
+const INTEGER_TAG = 0x02;
+
+/**
+ * Encode r and s as a DER SEQUENCE of two INTEGERs
+ * @param r - The 32-byte r component
+ * @param s - The 32-byte s component
+ * @returns The DER encoding
+ */
+export function encodeDER(r: Uint8Array, s: Uint8Array): Uint8Array {
+  const rInt = encodeInteger(r);
+  const sInt = encodeInteger(s);
+
+  const der = new Uint8Array(2 + rInt.length + sInt.length);
+  der[0] = SEQUENCE_TAG;
+  der[1] = rInt.length + sInt.length;
+  der.set(rInt, 2);
+  der.set(sInt, 2 + rInt.length);
+
+  return der;
+}
+
+/**
+ * Decode a strict DER signature (BIP66 rules, without a sighash byte)
+ * @param der - The DER encoding
+ * @returns The 64-byte r||s signature
+ */
+export function decodeDER(der: Uint8Array): Uint8Array {
+  // Minimum and maximum size: 30 06 02 01 r 02 01 s / 30 44 02 21 r 02 21 s
+  if (der.length < 8 || der.length > 72) {
+    throw invalidDER(`Invalid DER signature length: ${der.length}`);
+  }
+
+  if (der[0] !== SEQUENCE_TAG) {
+    throw invalidDER('DER signature is not a SEQUENCE');
+  }
+
+  // The SEQUENCE length must cover exactly the rest of the data
+  if (der[1] !== der.length - 2) {
+    throw invalidDER('Invalid DER SEQUENCE length');
+  }
+
+  const lenR = der[3];
+  if (5 + lenR >= der.length) {
+    throw invalidDER('DER r length overflows the signature');
+  }
+
+  const lenS = der[5 + lenR];
+  if (lenR + lenS + 6 !== der.length) {
+    throw invalidDER('DER r and s lengths do not match the signature length');
+  }
+
+  const r = decodeInteger(der, 2, lenR, 'r');
+  const s = decodeInteger(der, 4 + lenR, lenS, 's');
+
+  const signature = new Uint8Array(64);
+  signature.set(r, 0);
+  signature.set(s, 32);
+
+  return signature;
+}
+
+/**
+ * Encode a 32-byte big-endian number as a minimal DER INTEGER
+ */
+function encodeInteger(value: Uint8Array): Uint8Array {
+  // Strip leading zeros, keeping at least one byte
+  let start = 0;
+  while (start < value.length - 1 && value[start] === 0) {
+    start++;
+  }
+  let body = value.slice(start);
+
+  // Prefix a zero byte so the number is not read as negative
+  if (body[0] & 0x80) {
+    body = Uint8Array.from([0, ...body]);
+  }
+
+  return Uint8Array.from([INTEGER_TAG, body.length, ...body]);
+}
+
+/**
+ * Decode a strict DER INTEGER at the given tag position into 32 bytes
+ */
+function decodeInteger(der: Uint8Array, tagOffset: number, length: number, name: string): Uint8Array {
+  if (der[tagOffset] !== INTEGER_TAG) {
+    throw invalidDER(`DER ${name} is not an INTEGER`);
+  }
+
+  if (length === 0) {
+    throw invalidDER(`DER ${name} is empty`);
+  }
+
+  const start = tagOffset + 2;
+
+  // Negative numbers are not allowed
+  if (der[start] & 0x80) {
+    throw invalidDER(`DER ${name} is negative`);
+  }
+
+  // Leading zero bytes are only allowed to clear the sign bit
+  if (length > 1 && der[start] === 0x00 && !(der[start + 1] & 0x80)) {
+    throw invalidDER(`DER ${name} has excessive padding`);
+  }
+
+  // Drop the sign padding and ensure the value fits in 32 bytes
+  const body = der[start] === 0x00 && length > 1
+    ? der.slice(start + 1, start + length)
+    : der.slice(start, start + length);
+  if (body.length > 32) {
+    throw invalidDER(`DER ${name} is longer than 32 bytes`);
+  }
+
+  const value = new Uint8Array(32);
+  value.set(body, 32 - body.length);
+
+  return value;
+}
+
+/**
+ * Create an exception for a malformed DER signature
+ */
+function invalidDER(message: string): Secp256k1EcdsaException {
+  return new Secp256k1EcdsaException(Secp256k1EcdsaError.InvalidSignature, message);
+}
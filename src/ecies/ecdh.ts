@@ -0,0 +1,44 @@
+import { type Secp256k1EcdsaHash, SHA256 } from '../hash';
+import { Secp256k1EcdsaPrivateKey, Secp256k1EcdsaPublicKey, type Secp256k1EcdsaPublicKeyLike } from '../keys';
+import { Curve } from '../utils';
+
+/**
+ * Compute the ECDH shared point d * Q
+ * @param privkey - Our private key d
+ * @param pubkey - Their public key Q
+ * @returns The shared point
+ */
+export function ecdhSharedPoint(
+  privkey: Uint8Array | Secp256k1EcdsaPrivateKey,
+  pubkey: Secp256k1EcdsaPublicKeyLike
+): Secp256k1EcdsaPublicKey {
+  const point = Curve.mulPointSecret(Secp256k1EcdsaPublicKey.from(pubkey), Secp256k1EcdsaPrivateKey.from(privkey).toBytes());
+
+  return new Secp256k1EcdsaPublicKey(point.x, point.y);
+}
+
+/**
+ * Compute the raw ECDH shared secret, the x-coordinate of the shared point, as eccrypto and OpenSSL do
+ * @param privkey - Our private key
+ * @param pubkey - Their public key
+ * @returns The 32-byte x-coordinate
+ */
+export function ecdh(privkey: Uint8Array | Secp256k1EcdsaPrivateKey, pubkey: Secp256k1EcdsaPublicKeyLike): Uint8Array {
+  return ecdhSharedPoint(privkey, pubkey).x;
+}
+
+/**
+ * Compute a hashed ECDH shared secret over the compressed shared point, by default
+ * SHA256(0x02/0x03 || x) as libsecp256k1's `secp256k1_ecdh` does
+ * @param privkey - Our private key
+ * @param pubkey - Their public key
+ * @param hashImpl - The hash applied to the compressed shared point
+ * @returns The hashed shared secret
+ */
+export function ecdhHashed(
+  privkey: Uint8Array | Secp256k1EcdsaPrivateKey,
+  pubkey: Secp256k1EcdsaPublicKeyLike,
+  hashImpl: Secp256k1EcdsaHash = new SHA256()
+): Uint8Array {
+  return hashImpl.hash(ecdhSharedPoint(privkey, pubkey).toCompressed());
+}
@@ -0,0 +1,270 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, hkdfSync, randomBytes, timingSafeEqual } from 'node:crypto';
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import {
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaPublicKey,
+  SECP256K1_PUBLIC_KEY_COMPRESSED_LENGTH,
+  SECP256K1_PUBLIC_KEY_UNCOMPRESSED_LENGTH,
+  type Secp256k1EcdsaPublicKeyLike
+} from '../keys';
+import { ecdh, ecdhSharedPoint } from './ecdh';
+
+// AES-256-GCM nonce and tag lengths of the eciesjs format
+const ECIES_NONCE_LENGTH = 16;
+const ECIES_TAG_LENGTH = 16;
+
+// AES-256-CBC IV and HMAC-SHA256 lengths of the eccrypto format
+const ECCRYPTO_IV_LENGTH = 16;
+const ECCRYPTO_MAC_LENGTH = 32;
+
+/**
+ * Options for ECIES encryption; both are random by default and only fixed for test vectors
+ */
+export interface EciesEncryptOptions {
+  // The ephemeral private key
+  ephemeralKey?: Uint8Array | Secp256k1EcdsaPrivateKey;
+  // The AES nonce or IV, 16 bytes
+  iv?: Uint8Array;
+}
+
+/**
+ * An eccrypto ciphertext
+ */
+export interface EccryptoPayload {
+  // AES-256-CBC IV
+  iv: Uint8Array;
+  // The sender's ephemeral public key, usually uncompressed
+  ephemPublicKey: Uint8Array;
+  // AES-256-CBC ciphertext with PKCS#7 padding
+  ciphertext: Uint8Array;
+  // HMAC-SHA256 over iv || ephemPublicKey || ciphertext
+  mac: Uint8Array;
+}
+
+/**
+ * Encrypt to a public key in the eciesjs format (its default configuration):
+ * HKDF-SHA256 over the uncompressed ephemeral and shared points keys AES-256-GCM
+ * @param pubkey - The recipient's public key
+ * @param plaintext - The data to encrypt
+ * @param options - A fixed ephemeral key or nonce
+ * @returns ephemeral public key (65 bytes) || nonce (16) || tag (16) || ciphertext
+ */
+export function eciesEncrypt(
+  pubkey: Secp256k1EcdsaPublicKeyLike,
+  plaintext: Uint8Array,
+  options: EciesEncryptOptions = {}
+): Uint8Array {
+  const ephemeralKey = ephemeralPrivateKey(options);
+  const ephemeralPublicKey = ephemeralKey.publicKey().toUncompressed();
+  const key = eciesKey(ephemeralPublicKey, ecdhSharedPoint(ephemeralKey, pubkey));
+
+  const nonce = ivOrRandom(options, ECIES_NONCE_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, nonce, { authTagLength: ECIES_TAG_LENGTH });
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return concat(ephemeralPublicKey, nonce, cipher.getAuthTag(), ciphertext);
+}
+
+/**
+ * Decrypt an eciesjs ciphertext
+ * @param privkey - The recipient's private key
+ * @param data - ephemeral public key (65 bytes) || nonce (16) || tag (16) || ciphertext
+ * @returns The plaintext
+ */
+export function eciesDecrypt(privkey: Uint8Array | Secp256k1EcdsaPrivateKey, data: Uint8Array): Uint8Array {
+  const headerLength = SECP256K1_PUBLIC_KEY_UNCOMPRESSED_LENGTH + ECIES_NONCE_LENGTH + ECIES_TAG_LENGTH;
+  if (data.length < headerLength) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidCiphertext,
+      `ECIES ciphertext too short: ${data.length} bytes`
+    );
+  }
+
+  const ephemeralPublicKey = data.subarray(0, SECP256K1_PUBLIC_KEY_UNCOMPRESSED_LENGTH);
+  const nonce = data.subarray(SECP256K1_PUBLIC_KEY_UNCOMPRESSED_LENGTH, SECP256K1_PUBLIC_KEY_UNCOMPRESSED_LENGTH + ECIES_NONCE_LENGTH);
+  const tag = data.subarray(headerLength - ECIES_TAG_LENGTH, headerLength);
+  const key = eciesKey(ephemeralPublicKey, ecdhSharedPoint(privkey, parseEphemeralKey(ephemeralPublicKey)));
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, nonce, { authTagLength: ECIES_TAG_LENGTH });
+    decipher.setAuthTag(tag);
+
+    return new Uint8Array(Buffer.concat([decipher.update(data.subarray(headerLength)), decipher.final()]));
+  } catch (error) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.DecryptionFailed,
+      'ECIES authentication failed: wrong key or tampered ciphertext'
+    );
+  }
+}
+
+/**
+ * Encrypt to a public key in the eccrypto format: SHA512 of the raw ECDH secret
+ * keys AES-256-CBC (first half) and HMAC-SHA256 (second half)
+ * @param pubkey - The recipient's public key
+ * @param plaintext - The data to encrypt
+ * @param options - A fixed ephemeral key or IV
+ * @returns The payload, with an uncompressed ephemeral public key
+ */
+export function eccryptoEncrypt(
+  pubkey: Secp256k1EcdsaPublicKeyLike,
+  plaintext: Uint8Array,
+  options: EciesEncryptOptions = {}
+): EccryptoPayload {
+  const ephemeralKey = ephemeralPrivateKey(options);
+  const ephemPublicKey = ephemeralKey.publicKey().toUncompressed();
+  const { encryptionKey, macKey } = eccryptoKeys(ecdh(ephemeralKey, pubkey));
+
+  const iv = ivOrRandom(options, ECCRYPTO_IV_LENGTH);
+  const cipher = createCipheriv('aes-256-cbc', encryptionKey, iv);
+  const ciphertext = new Uint8Array(Buffer.concat([cipher.update(plaintext), cipher.final()]));
+  const mac = hmacSha256(macKey, concat(iv, ephemPublicKey, ciphertext));
+
+  return { iv, ephemPublicKey, ciphertext, mac };
+}
+
+/**
+ * Decrypt an eccrypto payload, checking the MAC before decrypting
+ * @param privkey - The recipient's private key
+ * @param payload - The payload
+ * @returns The plaintext
+ */
+export function eccryptoDecrypt(privkey: Uint8Array | Secp256k1EcdsaPrivateKey, payload: EccryptoPayload): Uint8Array {
+  const { iv, ephemPublicKey, ciphertext, mac } = payload;
+  if (iv.length !== ECCRYPTO_IV_LENGTH || mac.length !== ECCRYPTO_MAC_LENGTH) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidCiphertext,
+      'Invalid eccrypto IV or MAC length'
+    );
+  }
+
+  const { encryptionKey, macKey } = eccryptoKeys(ecdh(privkey, parseEphemeralKey(ephemPublicKey)));
+  if (!timingSafeEqual(hmacSha256(macKey, concat(iv, ephemPublicKey, ciphertext)), mac)) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.DecryptionFailed,
+      'eccrypto MAC mismatch: wrong key or tampered ciphertext'
+    );
+  }
+
+  try {
+    const decipher = createDecipheriv('aes-256-cbc', encryptionKey, iv);
+
+    return new Uint8Array(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+  } catch (error) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.DecryptionFailed,
+      'eccrypto ciphertext has invalid padding'
+    );
+  }
+}
+
+/**
+ * Serialize an eccrypto payload as eccrypto-js does
+ * @param payload - The payload
+ * @returns iv (16 bytes) || compressed ephemeral public key (33) || mac (32) || ciphertext
+ */
+export function serializeEccrypto(payload: EccryptoPayload): Uint8Array {
+  const ephemPublicKey = parseEphemeralKey(payload.ephemPublicKey).toCompressed();
+
+  return concat(payload.iv, ephemPublicKey, payload.mac, payload.ciphertext);
+}
+
+/**
+ * Parse an eccrypto-js serialized payload, restoring the uncompressed ephemeral public key the MAC covers
+ * @param data - iv (16 bytes) || compressed ephemeral public key (33) || mac (32) || ciphertext
+ * @returns The payload
+ */
+export function deserializeEccrypto(data: Uint8Array): EccryptoPayload {
+  const keyEnd = ECCRYPTO_IV_LENGTH + SECP256K1_PUBLIC_KEY_COMPRESSED_LENGTH;
+  if (data.length < keyEnd + ECCRYPTO_MAC_LENGTH) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidCiphertext,
+      `eccrypto ciphertext too short: ${data.length} bytes`
+    );
+  }
+
+  return {
+    iv: data.slice(0, ECCRYPTO_IV_LENGTH),
+    ephemPublicKey: parseEphemeralKey(data.subarray(ECCRYPTO_IV_LENGTH, keyEnd)).toUncompressed(),
+    mac: data.slice(keyEnd, keyEnd + ECCRYPTO_MAC_LENGTH),
+    ciphertext: data.slice(keyEnd + ECCRYPTO_MAC_LENGTH)
+  };
+}
+
+/**
+ * Derive the eciesjs AES key: HKDF-SHA256(ephemeral public key || shared point), without salt or info
+ */
+function eciesKey(ephemeralPublicKey: Uint8Array, sharedPoint: Secp256k1EcdsaPublicKey): Uint8Array {
+  const ikm = concat(ephemeralPublicKey, sharedPoint.toUncompressed());
+
+  return new Uint8Array(hkdfSync('sha256', ikm, new Uint8Array(0), new Uint8Array(0), 32));
+}
+
+/**
+ * Split SHA512 of the shared secret into the eccrypto encryption and MAC keys
+ */
+function eccryptoKeys(sharedSecret: Uint8Array): { encryptionKey: Uint8Array, macKey: Uint8Array } {
+  const hash = new Uint8Array(createHash('sha512').update(sharedSecret).digest());
+
+  return { encryptionKey: hash.subarray(0, 32), macKey: hash.subarray(32) };
+}
+
+/**
+ * Parse the sender's ephemeral public key, reporting a malformed one as a bad ciphertext
+ */
+function parseEphemeralKey(bytes: Uint8Array): Secp256k1EcdsaPublicKey {
+  try {
+    return Secp256k1EcdsaPublicKey.fromBytes(bytes);
+  } catch (error) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidCiphertext,
+      'Invalid ephemeral public key'
+    );
+  }
+}
+
+/**
+ * Use the given ephemeral private key or generate one
+ */
+function ephemeralPrivateKey(options: EciesEncryptOptions): Secp256k1EcdsaPrivateKey {
+  return options.ephemeralKey ? Secp256k1EcdsaPrivateKey.from(options.ephemeralKey) : Secp256k1EcdsaPrivateKey.generate();
+}
+
+/**
+ * Use the given IV, checking its length, or generate one
+ */
+function ivOrRandom(options: EciesEncryptOptions, length: number): Uint8Array {
+  if (!options.iv) {
+    return new Uint8Array(randomBytes(length));
+  }
+
+  if (options.iv.length !== length) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidCiphertext,
+      `Invalid IV length: ${options.iv.length}, expected ${length}`
+    );
+  }
+
+  return options.iv;
+}
+
+/**
+ * Compute HMAC-SHA256
+ */
+function hmacSha256(key: Uint8Array, data: Uint8Array): Uint8Array {
+  return new Uint8Array(createHmac('sha256', key).update(data).digest());
+}
+
+/**
+ * Concatenate byte arrays
+ */
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+
+  return result;
+}
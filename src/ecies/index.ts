@@ -0,0 +1,5 @@
+/**
+ * Encryption Modules - ECDH shared secrets and ECIES public key encryption
+ */
+export * from './ecdh';
+export * from './ecies';
@@ -0,0 +1,96 @@
+import { SHA256d } from '../hash/sha256d';
+
+// Bitcoin base58 alphabet, also used by Solana
+const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Encode bytes as a base58 string
+ * @param bytes - The bytes to encode
+ * @returns The base58 string
+ */
+export function base58Encode(bytes: Uint8Array): string {
+  // Leading zero bytes are encoded as leading '1' characters
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) {
+    zeros++;
+  }
+
+  let value = 0n;
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte);
+  }
+
+  let encoded = '';
+  while (value > 0n) {
+    encoded = ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+
+  return '1'.repeat(zeros) + encoded;
+}
+
+/**
+ * Decode a base58 string
+ * @param encoded - The base58 string
+ * @returns The decoded bytes
+ */
+export function base58Decode(encoded: string): Uint8Array {
+  let zeros = 0;
+  while (zeros < encoded.length && encoded[zeros] === '1') {
+    zeros++;
+  }
+
+  let value = 0n;
+  for (const char of encoded) {
+    const digit = ALPHABET.indexOf(char);
+    if (digit < 0) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+    value = value * 58n + BigInt(digit);
+  }
+
+  const body: number[] = [];
+  while (value > 0n) {
+    body.unshift(Number(value & 0xffn));
+    value >>= 8n;
+  }
+
+  return Uint8Array.from([...new Array(zeros).fill(0), ...body]);
+}
+
+/**
+ * Encode bytes as base58 with a 4-byte double-SHA256 checksum
+ * @param payload - The bytes to encode (version byte included)
+ * @returns The base58check string
+ */
+export function base58CheckEncode(payload: Uint8Array): string {
+  const checksum = new SHA256d().hash(payload).slice(0, 4);
+
+  const bytes = new Uint8Array(payload.length + 4);
+  bytes.set(payload, 0);
+  bytes.set(checksum, payload.length);
+
+  return base58Encode(bytes);
+}
+
+/**
+ * Decode a base58check string and verify its checksum
+ * @param encoded - The base58check string
+ * @returns The payload (version byte included)
+ */
+export function base58CheckDecode(encoded: string): Uint8Array {
+  const bytes = base58Decode(encoded);
+  if (bytes.length < 4) {
+    throw new Error('Base58check data too short');
+  }
+
+  const payload = bytes.slice(0, bytes.length - 4);
+  const checksum = new SHA256d().hash(payload);
+  for (let i = 0; i < 4; i++) {
+    if (checksum[i] !== bytes[payload.length + i]) {
+      throw new Error('Invalid base58check checksum');
+    }
+  }
+
+  return payload;
+}
@@ -0,0 +1,163 @@
+// Bech32 character set (BIP173)
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+// Checksum constants for bech32 (BIP173) and bech32m (BIP350)
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+// Maximum length of an encoded string
+const MAX_LENGTH = 90;
+
+export type Bech32Encoding = 'bech32' | 'bech32m';
+
+/**
+ * Encode 5-bit words as a bech32 or bech32m string
+ * @param prefix - The human-readable part
+ * @param words - The data as 5-bit words
+ * @param encoding - The checksum variant
+ * @returns The encoded string
+ */
+export function bech32Encode(prefix: string, words: number[], encoding: Bech32Encoding = 'bech32'): string {
+  const hrp = prefix.toLowerCase();
+  const checksum = createChecksum(hrp, words, encoding === 'bech32' ? BECH32_CONST : BECH32M_CONST);
+
+  return hrp + '1' + [...words, ...checksum].map(word => CHARSET[word]).join('');
+}
+
+/**
+ * Decode a bech32 or bech32m string
+ * @param encoded - The encoded string
+ * @returns The human-readable part, the 5-bit data words and the checksum variant
+ */
+export function bech32Decode(encoded: string): { prefix: string, words: number[], encoding: Bech32Encoding } {
+  if (encoded.length > MAX_LENGTH) {
+    throw new Error('Bech32 string too long');
+  }
+
+  // Mixed case is not allowed
+  if (encoded !== encoded.toLowerCase() && encoded !== encoded.toUpperCase()) {
+    throw new Error('Bech32 string has mixed case');
+  }
+
+  const lower = encoded.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) {
+    throw new Error('Invalid bech32 separator position');
+  }
+
+  const prefix = lower.slice(0, separator);
+  for (const char of prefix) {
+    const code = char.charCodeAt(0);
+    if (code < 33 || code > 126) {
+      throw new Error('Invalid bech32 prefix character');
+    }
+  }
+
+  const data: number[] = [];
+  for (const char of lower.slice(separator + 1)) {
+    const word = CHARSET.indexOf(char);
+    if (word < 0) {
+      throw new Error(`Invalid bech32 character: ${char}`);
+    }
+    data.push(word);
+  }
+
+  const check = polymod([...expandPrefix(prefix), ...data]);
+  let encoding: Bech32Encoding;
+  if (check === BECH32_CONST) {
+    encoding = 'bech32';
+  } else if (check === BECH32M_CONST) {
+    encoding = 'bech32m';
+  } else {
+    throw new Error('Invalid bech32 checksum');
+  }
+
+  return { prefix, words: data.slice(0, data.length - 6), encoding };
+}
+
+/**
+ * Regroup bits, e.g. bytes into 5-bit words and back
+ * @param data - The input values
+ * @param fromBits - The bit width of the input values
+ * @param toBits - The bit width of the output values
+ * @param pad - Whether to pad the last group with zeros
+ * @returns The regrouped values
+ */
+export function convertBits(data: ArrayLike<number>, fromBits: number, toBits: number, pad: boolean): number[] {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << toBits) - 1;
+
+  for (let i = 0; i < data.length; i++) {
+    const value = data[i];
+    if (value < 0 || value >> fromBits !== 0) {
+      throw new Error('Invalid value for bit conversion');
+    }
+
+    accumulator = (accumulator << fromBits) | value;
+    bits += fromBits;
+    while (bits >= toBits) {
+      bits -= toBits;
+      result.push((accumulator >> bits) & maxValue);
+    }
+  }
+
+  if (pad) {
+    if (bits > 0) {
+      result.push((accumulator << (toBits - bits)) & maxValue);
+    }
+  } else if (bits >= fromBits || ((accumulator << (toBits - bits)) & maxValue) !== 0) {
+    throw new Error('Invalid padding in bit conversion');
+  }
+
+  return result;
+}
+
+/**
+ * Compute the bech32 checksum polynomial
+ */
+function polymod(values: number[]): number {
+  const generator = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let checksum = 1;
+
+  for (const value of values) {
+    const top = checksum >> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >> i) & 1) {
+        checksum ^= generator[i];
+      }
+    }
+  }
+
+  return checksum >>> 0;
+}
+
+/**
+ * Expand the human-readable part for checksum computation
+ */
+function expandPrefix(prefix: string): number[] {
+  const high: number[] = [];
+  const low: number[] = [];
+  for (const char of prefix) {
+    high.push(char.charCodeAt(0) >> 5);
+    low.push(char.charCodeAt(0) & 31);
+  }
+
+  return [...high, 0, ...low];
+}
+
+/**
+ * Create the six checksum words for the given data
+ */
+function createChecksum(prefix: string, words: number[], constant: number): number[] {
+  const mod = polymod([...expandPrefix(prefix), ...words, 0, 0, 0, 0, 0, 0]) ^ constant;
+
+  const checksum: number[] = [];
+  for (let i = 0; i < 6; i++) {
+    checksum.push((mod >>> (5 * (5 - i))) & 31);
+  }
+
+  return checksum;
+}
@@ -0,0 +1,5 @@
+/**
+ * Encoding Modules - byte/string encodings shared by the chain-specific modules
+ */
+export * from './base58';
+export * from './bech32';
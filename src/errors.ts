@@ -7,7 +7,28 @@ export enum Secp256k1EcdsaError {
   InvalidRecoveryId = 3,
   InvalidSignature = 4,
   InvalidNonce = 5,
-  ArithmeticOverflow = 6
+  ArithmeticOverflow = 6,
+  InvalidInstructionData = 7,
+  InvalidTransaction = 8,
+  InvalidAddress = 9,
+  InvalidTypedData = 10,
+  HighS = 11,
+  ScalarOutOfRange = 12,
+  PointNotOnCurve = 13,
+  PointAtInfinity = 14,
+  SignatureMismatch = 15,
+  InvalidHashLength = 16,
+  InvalidMessageLength = 17,
+  InvalidDerivationPath = 18,
+  InvalidExtendedKey = 19,
+  InvalidMnemonic = 20,
+  InvalidKeystore = 21,
+  KeystoreMacMismatch = 22,
+  InvalidCiphertext = 23,
+  DecryptionFailed = 24,
+  InvalidOffchainMessage = 25,
+  InvalidRlp = 26,
+  InvalidSiweMessage = 27
 }
 
 /**
@@ -0,0 +1,7 @@
+/**
+ * Ethereum Modules - signature formats used by Ethereum wallets and transactions
+ */
+export * from './signature';
+export * from './rlp';
+export * from './transaction';
+export * from './siwe';
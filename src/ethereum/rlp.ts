@@ -0,0 +1,188 @@
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+
+/**
+ * A value RLP can encode: a byte string, a non-negative integer, or a list of them
+ */
+export type RlpInput = Uint8Array | bigint | number | RlpInput[];
+
+/**
+ * A decoded RLP item: a byte string or a list
+ */
+export type RlpValue = Uint8Array | RlpValue[];
+
+/**
+ * Encode a value with Recursive Length Prefix encoding
+ * @param input - Byte strings, integers (as minimal big-endian byte strings) and nested lists
+ * @returns The encoding
+ */
+export function rlpEncode(input: RlpInput): Uint8Array {
+  if (Array.isArray(input)) {
+    const payload = concat(...input.map(rlpEncode));
+    return concat(encodeLength(payload.length, 0xc0), payload);
+  }
+
+  const bytes = input instanceof Uint8Array ? input : rlpEncodeInteger(input);
+
+  // A single byte below 0x80 is its own encoding
+  if (bytes.length === 1 && bytes[0] < 0x80) {
+    return Uint8Array.from(bytes);
+  }
+
+  return concat(encodeLength(bytes.length, 0x80), bytes);
+}
+
+/**
+ * Decode an RLP encoding, rejecting non-canonical forms and trailing bytes
+ * @param bytes - The encoding
+ * @returns The decoded item
+ */
+export function rlpDecode(bytes: Uint8Array): RlpValue {
+  const { value, end } = decodeItem(bytes, 0);
+  if (end !== bytes.length) {
+    throw invalidRlp(`Unexpected ${bytes.length - end} trailing bytes`);
+  }
+
+  return value;
+}
+
+/**
+ * Encode a non-negative integer as a minimal big-endian byte string, empty for zero
+ * @param value - The integer
+ * @returns The byte string
+ */
+export function rlpEncodeInteger(value: bigint | number): Uint8Array {
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw invalidRlp(`Integer is not a safe integer: ${value}`);
+  }
+
+  const integer = BigInt(value);
+  if (integer < 0n) {
+    throw invalidRlp(`Integer is negative: ${integer}`);
+  }
+  if (integer === 0n) {
+    return new Uint8Array(0);
+  }
+
+  const hex = integer.toString(16);
+  return Uint8Array.from(Buffer.from(hex.length % 2 ? '0' + hex : hex, 'hex'));
+}
+
+/**
+ * Decode a byte string as a canonical integer, without leading zeros
+ * @param value - The decoded item
+ * @returns The integer
+ */
+export function rlpDecodeInteger(value: RlpValue): bigint {
+  if (!(value instanceof Uint8Array)) {
+    throw invalidRlp('Expected an integer, got a list');
+  }
+  if (value.length > 0 && value[0] === 0) {
+    throw invalidRlp('Integer has leading zero bytes');
+  }
+
+  return value.length === 0 ? 0n : BigInt('0x' + Buffer.from(value).toString('hex'));
+}
+
+/**
+ * Decode the item starting at an offset
+ */
+function decodeItem(bytes: Uint8Array, offset: number): { value: RlpValue, end: number } {
+  if (offset >= bytes.length) {
+    throw invalidRlp('Unexpected end of data');
+  }
+
+  const prefix = bytes[offset];
+  if (prefix < 0x80) {
+    return { value: bytes.slice(offset, offset + 1), end: offset + 1 };
+  }
+
+  const isList = prefix >= 0xc0;
+  const { length, start } = decodeLength(bytes, offset, isList ? 0xc0 : 0x80);
+  const end = start + length;
+  if (end > bytes.length) {
+    throw invalidRlp('Unexpected end of data');
+  }
+
+  if (!isList) {
+    if (length === 1 && bytes[start] < 0x80) {
+      throw invalidRlp('Single byte below 0x80 must not have a length prefix');
+    }
+
+    return { value: bytes.slice(start, end), end };
+  }
+
+  const items: RlpValue[] = [];
+  let position = start;
+  while (position < end) {
+    const item = decodeItem(bytes.subarray(0, end), position);
+    items.push(item.value);
+    position = item.end;
+  }
+
+  return { value: items, end };
+}
+
+/**
+ * Decode the length of a string (base 0x80) or list (base 0xc0) item
+ */
+function decodeLength(bytes: Uint8Array, offset: number, base: number): { length: number, start: number } {
+  const prefix = bytes[offset] - base;
+
+  // Short form: the length is in the prefix
+  if (prefix <= 55) {
+    return { length: prefix, start: offset + 1 };
+  }
+
+  // Long form: the prefix gives the size of a big-endian length
+  const lengthSize = prefix - 55;
+  const start = offset + 1 + lengthSize;
+  if (start > bytes.length) {
+    throw invalidRlp('Unexpected end of data');
+  }
+  if (bytes[offset + 1] === 0) {
+    throw invalidRlp('Length has leading zero bytes');
+  }
+
+  let length = 0;
+  for (let i = offset + 1; i < start; i++) {
+    length = length * 256 + bytes[i];
+  }
+  if (length <= 55 || !Number.isSafeInteger(length)) {
+    throw invalidRlp(`Non-canonical length: ${length}`);
+  }
+
+  return { length, start };
+}
+
+/**
+ * Encode an item length with the short or long form
+ */
+function encodeLength(length: number, base: number): Uint8Array {
+  if (length <= 55) {
+    return Uint8Array.of(base + length);
+  }
+
+  const lengthBytes = rlpEncodeInteger(length);
+  return Uint8Array.of(base + 55 + lengthBytes.length, ...lengthBytes);
+}
+
+/**
+ * Concatenate byte arrays
+ */
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+
+  return result;
+}
+
+/**
+ * Create an exception for malformed RLP
+ */
+function invalidRlp(message: string): Secp256k1EcdsaException {
+  return new Secp256k1EcdsaException(Secp256k1EcdsaError.InvalidRlp, message);
+}
@@ -0,0 +1,349 @@
+import { Secp256k1EcdsaSignature, SECP256K1_ECDSA_SIGNATURE_LENGTH } from '../index';
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import { Secp256k1EcdsaPrivateKey, Secp256k1EcdsaPublicKey } from '../keys';
+import { ESM } from '../hash';
+import type { Secp256k1EcdsaHash } from '../hash';
+import { EthereumAddress } from '../address';
+
+// Length of an r || s || v signature with a single-byte v
+export const ETHEREUM_SIGNATURE_LENGTH = 65;
+
+// Offsets of the v conventions
+const LEGACY_V_OFFSET = 27;
+const EIP155_V_OFFSET = 35;
+
+/**
+ * How the recovery id is carried in v:
+ * - `parity`: the raw y-parity, 0 or 1 (typed transactions, some hardware wallets)
+ * - `legacy`: 27 or 28 (`personal_sign`, `eth_sign`, pre-EIP-155 transactions)
+ * - `eip155`: chainId * 2 + 35 or 36 (EIP-155 replay-protected transactions)
+ */
+export type EthereumVFormat = 'parity' | 'legacy' | 'eip155';
+
+/**
+ * EthereumSignature
+ * A recoverable signature in Ethereum's r || s || v format.
+ */
+export class EthereumSignature {
+  /**
+   * Create a new signature from its 64-byte r || s part and v
+   * @param signature - The r || s signature
+   * @param v - The v value in any of the supported formats
+   */
+  constructor(public readonly signature: Secp256k1EcdsaSignature, public readonly v: number) {
+    const recoveryId = EthereumSignature.recoveryIdFromV(v);
+    if (signature.recoveryId !== undefined && signature.recoveryId !== recoveryId) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidRecoveryId,
+        `Recovery id ${signature.recoveryId} does not match v: ${v}`
+      );
+    }
+
+    // Carry the recovery id on the underlying signature so it can recover on its own
+    if (signature.recoveryId === undefined) {
+      this.signature = new Secp256k1EcdsaSignature(signature.signature, recoveryId);
+    }
+  }
+
+  /**
+   * Wrap a signature that carries a recovery id
+   * @param signature - The signature, as returned by `Secp256k1EcdsaSignature.sign`
+   * @param chainId - The EIP-155 chain id, or undefined for a 27/28 v
+   * @returns The Ethereum signature
+   */
+  static fromSignature(signature: Secp256k1EcdsaSignature, chainId?: number): EthereumSignature {
+    if (signature.recoveryId === undefined) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidRecoveryId,
+        'Recovery id is required to create an Ethereum signature'
+      );
+    }
+
+    return new EthereumSignature(signature, EthereumSignature.toV(signature.recoveryId, chainId));
+  }
+
+  /**
+   * Parse an r || s || v signature
+   * @param bytes - 64 bytes of r || s followed by v as a big-endian integer (a single byte for 27/28)
+   * @returns The Ethereum signature
+   */
+  static fromBytes(bytes: Uint8Array): EthereumSignature {
+    // Allow multi-byte v for EIP-155 chain ids above 110
+    if (bytes.length < ETHEREUM_SIGNATURE_LENGTH || bytes.length > SECP256K1_ECDSA_SIGNATURE_LENGTH + 6) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidSignature,
+        `Invalid Ethereum signature length: ${bytes.length}`
+      );
+    }
+
+    // v is a minimal big-endian integer, so every signature has a single encoding
+    const vBytes = bytes.slice(SECP256K1_ECDSA_SIGNATURE_LENGTH);
+    if (vBytes.length > 1 && vBytes[0] === 0) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidSignature,
+        'Ethereum signature v has leading zero bytes'
+      );
+    }
+
+    let v = 0;
+    for (const byte of vBytes) {
+      v = v * 256 + byte;
+    }
+
+    return new EthereumSignature(
+      new Secp256k1EcdsaSignature(bytes.slice(0, SECP256K1_ECDSA_SIGNATURE_LENGTH)),
+      v
+    );
+  }
+
+  /**
+   * Parse a hex-encoded r || s || v signature, as returned by wallets
+   * @param hex - The signature, with or without 0x prefix
+   * @returns The Ethereum signature
+   */
+  static fromHex(hex: string): EthereumSignature {
+    const digits = hex.startsWith('0x') || hex.startsWith('0X') ? hex.slice(2) : hex;
+    if (!/^([0-9a-fA-F]{2})*$/.test(digits)) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidSignature,
+        'Invalid hex signature'
+      );
+    }
+
+    return EthereumSignature.fromBytes(Uint8Array.from(Buffer.from(digits, 'hex')));
+  }
+
+  /**
+   * Parse a signature in any supported representation
+   * @param signature - An EthereumSignature, r || s || v bytes or a hex string
+   * @returns The Ethereum signature
+   */
+  static from(signature: EthereumSignature | Uint8Array | string): EthereumSignature {
+    if (signature instanceof EthereumSignature) {
+      return signature;
+    }
+
+    return typeof signature === 'string'
+      ? EthereumSignature.fromHex(signature)
+      : EthereumSignature.fromBytes(signature);
+  }
+
+  /**
+   * Sign a message and encode the signature with v
+   * @param hashImpl - The hash implementation to use, usually ESM for `personal_sign`
+   * @param message - The message to sign
+   * @param privkey - The private key
+   * @param chainId - The EIP-155 chain id, or undefined for a 27/28 v
+   * @returns The low-S Ethereum signature
+   */
+  static sign<H extends Secp256k1EcdsaHash>(
+    hashImpl: H,
+    message: Uint8Array,
+    privkey: Uint8Array | Secp256k1EcdsaPrivateKey,
+    chainId?: number
+  ): EthereumSignature {
+    // Ethereum requires low-S signatures (EIP-2)
+    const signature = Secp256k1EcdsaSignature.sign(hashImpl, message, privkey).normalizeS();
+
+    return EthereumSignature.fromSignature(signature, chainId);
+  }
+
+  /**
+   * Verify a `personal_sign` signature against an address in one call
+   * @param message - The message that was signed, before the ESM envelope
+   * @param signature - The signature as bytes or a hex string
+   * @param address - The expected signer's address
+   * @returns True if the signature was produced by the address
+   */
+  static verifyMessage(
+    message: Uint8Array,
+    signature: EthereumSignature | Uint8Array | string,
+    address: string
+  ): boolean {
+    try {
+      return EthereumSignature.from(signature).verify(new ESM(), message, address);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Get the recovery id encoded in v
+   * @returns The recovery id (0 or 1)
+   */
+  get recoveryId(): number {
+    return EthereumSignature.recoveryIdFromV(this.v);
+  }
+
+  /**
+   * Get the EIP-155 chain id encoded in v
+   * @returns The chain id, or undefined if v does not carry one
+   */
+  get chainId(): number | undefined {
+    return this.format() === 'eip155' ? Math.floor((this.v - EIP155_V_OFFSET) / 2) : undefined;
+  }
+
+  /**
+   * Get the convention v is expressed in
+   * @returns The v format
+   */
+  format(): EthereumVFormat {
+    if (this.v < LEGACY_V_OFFSET) {
+      return 'parity';
+    }
+
+    return this.v < EIP155_V_OFFSET ? 'legacy' : 'eip155';
+  }
+
+  /**
+   * Re-encode v as 27/28
+   * @returns The signature with a legacy v
+   */
+  toLegacy(): EthereumSignature {
+    return new EthereumSignature(this.signature, EthereumSignature.toV(this.recoveryId));
+  }
+
+  /**
+   * Re-encode v for an EIP-155 chain id
+   * @param chainId - The chain id
+   * @returns The signature with an EIP-155 v
+   */
+  toEIP155(chainId: number): EthereumSignature {
+    return new EthereumSignature(this.signature, EthereumSignature.toV(this.recoveryId, chainId));
+  }
+
+  /**
+   * Re-encode v as the raw y-parity
+   * @returns The signature with v = 0 or 1
+   */
+  toParity(): EthereumSignature {
+    return new EthereumSignature(this.signature, this.recoveryId);
+  }
+
+  /**
+   * Normalize the signature to a lower S value, flipping v's parity if needed
+   * @returns The normalized signature, in the same v format
+   */
+  normalizeS(): EthereumSignature {
+    const normalized = this.signature.normalizeS();
+    if (normalized === this.signature) {
+      return this;
+    }
+
+    const v = this.v + (normalized.recoveryId - this.recoveryId);
+    return new EthereumSignature(normalized, v);
+  }
+
+  /**
+   * Serialize the signature as r || s || v, with v as a minimal big-endian integer
+   * @returns The 65-byte signature (longer only for large EIP-155 v values)
+   */
+  toBytes(): Uint8Array {
+    const v: number[] = [];
+    let remaining = this.v;
+    do {
+      v.unshift(remaining % 256);
+      remaining = Math.floor(remaining / 256);
+    } while (remaining > 0);
+
+    return Uint8Array.from([...this.signature.signature, ...v]);
+  }
+
+  /**
+   * Serialize the signature as a 0x-prefixed hex string
+   * @returns The hex signature
+   */
+  toHex(): string {
+    return '0x' + Buffer.from(this.toBytes()).toString('hex');
+  }
+
+  /**
+   * Recover the signer's public key
+   * @param hashImpl - The hash implementation to use
+   * @param message - The message that was signed
+   * @returns The public key of the signer
+   */
+  recover<H extends Secp256k1EcdsaHash>(hashImpl: H, message: Uint8Array): Secp256k1EcdsaPublicKey {
+    return this.signature.recover(hashImpl, message, this.recoveryId);
+  }
+
+  /**
+   * Recover the signer's address
+   * @param hashImpl - The hash implementation to use
+   * @param message - The message that was signed
+   * @returns The checksummed address of the signer
+   */
+  recoverAddress<H extends Secp256k1EcdsaHash>(hashImpl: H, message: Uint8Array): string {
+    return EthereumAddress.fromPublicKey(this.recover(hashImpl, message));
+  }
+
+  /**
+   * Verify the signature against an address
+   * @param hashImpl - The hash implementation to use
+   * @param message - The message that was signed
+   * @param address - The expected signer's address
+   * @returns True if the signature was produced by the address
+   */
+  verify<H extends Secp256k1EcdsaHash>(hashImpl: H, message: Uint8Array, address: string): boolean {
+    try {
+      return EthereumAddress.matches(address, this.recover(hashImpl, message));
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Compare this signature to another
+   * @param other - The other signature
+   * @returns True if r, s and v are equal
+   */
+  equals(other: EthereumSignature): boolean {
+    return this.v === other.v && this.signature.equals(other.signature);
+  }
+
+  /**
+   * Encode a recovery id as v
+   */
+  private static toV(recoveryId: number, chainId?: number): number {
+    if (recoveryId !== 0 && recoveryId !== 1) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidRecoveryId,
+        `Recovery id cannot be expressed in v: ${recoveryId}`
+      );
+    }
+
+    if (chainId === undefined) {
+      return LEGACY_V_OFFSET + recoveryId;
+    }
+
+    if (!Number.isSafeInteger(chainId) || chainId < 0 || chainId * 2 + EIP155_V_OFFSET + 1 > Number.MAX_SAFE_INTEGER) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidRecoveryId,
+        `Invalid chain id: ${chainId}`
+      );
+    }
+
+    return chainId * 2 + EIP155_V_OFFSET + recoveryId;
+  }
+
+  /**
+   * Decode the recovery id from v
+   */
+  private static recoveryIdFromV(v: number): number {
+    if (!Number.isSafeInteger(v) || v < 0) {
+      throw new Secp256k1EcdsaException(Secp256k1EcdsaError.InvalidRecoveryId, `Invalid v: ${v}`);
+    }
+
+    if (v === 0 || v === 1) {
+      return v;
+    }
+    if (v === LEGACY_V_OFFSET || v === LEGACY_V_OFFSET + 1) {
+      return v - LEGACY_V_OFFSET;
+    }
+    if (v >= EIP155_V_OFFSET) {
+      return (v - EIP155_V_OFFSET) % 2;
+    }
+
+    throw new Secp256k1EcdsaException(Secp256k1EcdsaError.InvalidRecoveryId, `Invalid v: ${v}`);
+  }
+}
@@ -0,0 +1,365 @@
+import { randomBytes } from 'node:crypto';
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import type { Secp256k1EcdsaPrivateKey } from '../keys';
+import { ESM } from '../hash';
+import { EthereumAddress } from '../address';
+import { EthereumSignature } from './signature';
+
+// The only message version defined by EIP-4361
+export const SIWE_VERSION = '1';
+
+// Minimum nonce length, in alphanumeric characters
+export const SIWE_MIN_NONCE_LENGTH = 8;
+
+// Text after the domain on the first line
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+// RFC 3986 character classes used by the ABNF
+const UNRESERVED = "A-Za-z0-9\\-._~";
+const SUB_DELIMS = "!$&'()*+,;=";
+const PCT_ENCODED = '%[0-9A-Fa-f]{2}';
+
+const SCHEME = /^[A-Za-z][A-Za-z0-9+.\-]*$/;
+const AUTHORITY = new RegExp(
+  `^(?:(?:[${UNRESERVED}${SUB_DELIMS}:]|${PCT_ENCODED})*@)?` +
+  `(?:\\[[0-9A-Fa-f:.]+\\]|(?:[${UNRESERVED}${SUB_DELIMS}]|${PCT_ENCODED})+)` +
+  '(?::[0-9]*)?$'
+);
+const URI = new RegExp(`^[A-Za-z][A-Za-z0-9+.\\-]*:(?:[${UNRESERVED}${SUB_DELIMS}:/?#\\[\\]@]|${PCT_ENCODED})*$`);
+const STATEMENT = new RegExp(`^[${UNRESERVED}${SUB_DELIMS}:/?#\\[\\]@ ]+$`);
+const REQUEST_ID = new RegExp(`^(?:[${UNRESERVED}${SUB_DELIMS}:@]|${PCT_ENCODED})*$`);
+const NONCE = new RegExp(`^[A-Za-z0-9]{${SIWE_MIN_NONCE_LENGTH},}$`);
+const CHAIN_ID = /^(?:0|[1-9][0-9]*)$/;
+const DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})[Tt](\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(?:[Zz]|[+-](\d{2}):(\d{2}))$/;
+
+/**
+ * The fields of a Sign-In With Ethereum message
+ */
+export interface SiweMessageFields {
+  // URI scheme of the requesting origin, omitted for the default https
+  scheme?: string;
+  // RFC 3986 authority of the requesting origin
+  domain: string;
+  // EIP-55 checksummed address of the signer
+  address: string;
+  // Human-readable assertion, on a single non-empty line
+  statement?: string;
+  // RFC 3986 URI of the resource the sign-in is for
+  uri: string;
+  version: typeof SIWE_VERSION;
+  // EIP-155 chain id
+  chainId: number;
+  // At least 8 alphanumeric characters chosen by the relying party
+  nonce: string;
+  // RFC 3339 date-times
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  // System-specific identifier, made of RFC 3986 path characters
+  requestId?: string;
+  // RFC 3986 URIs the user wishes to have resolved
+  resources?: string[];
+}
+
+/**
+ * Reasons a SIWE message fails verification
+ */
+export enum SiweVerificationError {
+  // The signature is malformed or was not made by the message's address
+  InvalidSignature = 1,
+  // The message was issued for another domain
+  DomainMismatch = 2,
+  // The message carries another nonce than the session issued
+  NonceMismatch = 3,
+  // The expiration time has passed
+  Expired = 4,
+  // The not-before time has not been reached
+  NotYetValid = 5
+}
+
+/**
+ * Outcome of verifying a SIWE message
+ */
+export type SiweVerificationResult =
+  | { valid: true }
+  | { valid: false, error: SiweVerificationError };
+
+/**
+ * What the relying party expects of a SIWE message
+ */
+export interface SiweVerifyOptions {
+  // The domain the user is signing in to
+  domain?: string;
+  // The nonce issued for this sign-in
+  nonce?: string;
+  // The time to check the validity window against, now by default
+  time?: Date;
+}
+
+/**
+ * SiweMessage
+ * An EIP-4361 Sign-In With Ethereum message, signed with `personal_sign`.
+ */
+export class SiweMessage {
+  /**
+   * Create a message, checking every field against the EIP-4361 ABNF
+   * @param fields - The message fields
+   */
+  constructor(public readonly fields: SiweMessageFields) {
+    if (fields.scheme !== undefined && !SCHEME.test(fields.scheme)) {
+      throw invalidMessage(`Invalid scheme: ${fields.scheme}`);
+    }
+    if (!AUTHORITY.test(fields.domain)) {
+      throw invalidMessage(`Invalid domain: ${fields.domain}`);
+    }
+    if (!EthereumAddress.isValidChecksum(fields.address)) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidAddress,
+        `SIWE address must be EIP-55 checksummed: ${fields.address}`
+      );
+    }
+    if (fields.statement !== undefined && !STATEMENT.test(fields.statement)) {
+      throw invalidMessage('Statement contains characters outside the allowed set');
+    }
+    if (!URI.test(fields.uri)) {
+      throw invalidMessage(`Invalid URI: ${fields.uri}`);
+    }
+    if (fields.version !== SIWE_VERSION) {
+      throw invalidMessage(`Unsupported version: ${fields.version}`);
+    }
+    if (!Number.isSafeInteger(fields.chainId) || fields.chainId < 0) {
+      throw invalidMessage(`Invalid chain id: ${fields.chainId}`);
+    }
+    if (!NONCE.test(fields.nonce)) {
+      throw invalidMessage(`Nonce must be at least ${SIWE_MIN_NONCE_LENGTH} alphanumeric characters`);
+    }
+
+    parseDateTime(fields.issuedAt, 'issued-at');
+    if (fields.expirationTime !== undefined) {
+      parseDateTime(fields.expirationTime, 'expiration time');
+    }
+    if (fields.notBefore !== undefined) {
+      parseDateTime(fields.notBefore, 'not-before');
+    }
+
+    if (fields.requestId !== undefined && !REQUEST_ID.test(fields.requestId)) {
+      throw invalidMessage(`Invalid request id: ${fields.requestId}`);
+    }
+    for (const resource of fields.resources ?? []) {
+      if (!URI.test(resource)) {
+        throw invalidMessage(`Invalid resource URI: ${resource}`);
+      }
+    }
+  }
+
+  /**
+   * Parse a message, requiring it to match the ABNF exactly
+   * @param text - The message text
+   * @returns The message
+   */
+  static parse(text: string): SiweMessage {
+    const lines = text.split('\n');
+    let line = 0;
+
+    const header = lines[line++];
+    if (header === undefined || !header.endsWith(HEADER_SUFFIX)) {
+      throw invalidMessage('Missing SIWE header line');
+    }
+    const origin = header.slice(0, -HEADER_SUFFIX.length);
+    const separator = origin.indexOf('://');
+    const scheme = separator === -1 ? undefined : origin.slice(0, separator);
+    const domain = separator === -1 ? origin : origin.slice(separator + 3);
+
+    const address = lines[line++];
+    if (address === undefined || lines[line++] !== '') {
+      throw invalidMessage('Expected the address followed by an empty line');
+    }
+
+    // The statement sits between two empty lines; without one, a single empty line remains
+    let statement: string | undefined;
+    if (lines[line] !== '') {
+      statement = lines[line++];
+    }
+    if (lines[line++] !== '') {
+      throw invalidMessage('Expected an empty line after the statement');
+    }
+
+    const field = (tag: string, optional: boolean): string | undefined => {
+      const current = lines[line];
+      if (current !== undefined && current.startsWith(tag)) {
+        line++;
+        return current.slice(tag.length);
+      }
+      if (!optional) {
+        throw invalidMessage(`Missing field: ${tag.trim()}`);
+      }
+      return undefined;
+    };
+
+    const uri = field('URI: ', false);
+    const version = field('Version: ', false);
+    const chainId = field('Chain ID: ', false);
+    const nonce = field('Nonce: ', false);
+    const issuedAt = field('Issued At: ', false);
+    const expirationTime = field('Expiration Time: ', true);
+    const notBefore = field('Not Before: ', true);
+    const requestId = field('Request ID: ', true);
+
+    let resources: string[] | undefined;
+    if (lines[line] === 'Resources:') {
+      line++;
+      resources = [];
+      while (line < lines.length && lines[line].startsWith('- ')) {
+        resources.push(lines[line++].slice(2));
+      }
+    }
+
+    if (line !== lines.length) {
+      throw invalidMessage(`Unexpected line ${line + 1}: ${lines[line]}`);
+    }
+    if (!CHAIN_ID.test(chainId)) {
+      throw invalidMessage(`Invalid chain id: ${chainId}`);
+    }
+
+    return new SiweMessage({
+      scheme,
+      domain,
+      address,
+      statement,
+      uri,
+      version: version as typeof SIWE_VERSION,
+      chainId: Number(chainId),
+      nonce,
+      issuedAt,
+      expirationTime,
+      notBefore,
+      requestId,
+      resources
+    });
+  }
+
+  /**
+   * Generate a random nonce for a new sign-in
+   * @returns 32 hex characters (128 bits)
+   */
+  static generateNonce(): string {
+    return randomBytes(16).toString('hex');
+  }
+
+  /**
+   * Serialize the message as the text the wallet displays and signs
+   * @returns The message text, without a trailing newline
+   */
+  toMessage(): string {
+    const fields = this.fields;
+    const origin = fields.scheme === undefined ? fields.domain : `${fields.scheme}://${fields.domain}`;
+    const lines = [origin + HEADER_SUFFIX, fields.address, ''];
+    if (fields.statement !== undefined) {
+      lines.push(fields.statement);
+    }
+    lines.push(
+      '',
+      `URI: ${fields.uri}`,
+      `Version: ${fields.version}`,
+      `Chain ID: ${fields.chainId}`,
+      `Nonce: ${fields.nonce}`,
+      `Issued At: ${fields.issuedAt}`
+    );
+
+    if (fields.expirationTime !== undefined) {
+      lines.push(`Expiration Time: ${fields.expirationTime}`);
+    }
+    if (fields.notBefore !== undefined) {
+      lines.push(`Not Before: ${fields.notBefore}`);
+    }
+    if (fields.requestId !== undefined) {
+      lines.push(`Request ID: ${fields.requestId}`);
+    }
+    if (fields.resources !== undefined) {
+      lines.push('Resources:', ...fields.resources.map(resource => `- ${resource}`));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Compute the hash the wallet signs
+   * @returns The Ethereum Signed Message hash of the UTF-8 message text
+   */
+  signingHash(): Uint8Array {
+    return new ESM().hash(new TextEncoder().encode(this.toMessage()));
+  }
+
+  /**
+   * Sign the message as `personal_sign` does
+   * @param privkey - The private key of the message's address
+   * @returns The low-S signature with a 27/28 v
+   */
+  sign(privkey: Uint8Array | Secp256k1EcdsaPrivateKey): EthereumSignature {
+    return EthereumSignature.sign(new ESM(), new TextEncoder().encode(this.toMessage()), privkey);
+  }
+
+  /**
+   * Verify a signature and check the message against the relying party's expectations
+   * @param signature - The signature as returned by the wallet
+   * @param options - The expected domain and nonce, and the time to check validity at
+   * @returns Whether the sign-in is valid, or the first check that failed
+   */
+  verify(
+    signature: EthereumSignature | Uint8Array | string,
+    options: SiweVerifyOptions = {}
+  ): SiweVerificationResult {
+    const fields = this.fields;
+    if (options.domain !== undefined && options.domain !== fields.domain) {
+      return { valid: false, error: SiweVerificationError.DomainMismatch };
+    }
+    if (options.nonce !== undefined && options.nonce !== fields.nonce) {
+      return { valid: false, error: SiweVerificationError.NonceMismatch };
+    }
+
+    const time = (options.time ?? new Date()).getTime();
+    if (fields.expirationTime !== undefined && time >= parseDateTime(fields.expirationTime, 'expiration time')) {
+      return { valid: false, error: SiweVerificationError.Expired };
+    }
+    if (fields.notBefore !== undefined && time < parseDateTime(fields.notBefore, 'not-before')) {
+      return { valid: false, error: SiweVerificationError.NotYetValid };
+    }
+
+    if (!EthereumSignature.verifyMessage(new TextEncoder().encode(this.toMessage()), signature, fields.address)) {
+      return { valid: false, error: SiweVerificationError.InvalidSignature };
+    }
+
+    return { valid: true };
+  }
+}
+
+/**
+ * Parse an RFC 3339 date-time, checking each component's range
+ */
+function parseDateTime(value: string, name: string): number {
+  const match = DATE_TIME.exec(value);
+  if (!match) {
+    throw invalidMessage(`Invalid ${name}: ${value}`);
+  }
+
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+  const leapYear = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+  const daysInMonth = month === 2 ? (leapYear ? 29 : 28) : [4, 6, 9, 11].includes(month) ? 30 : 31;
+  const offsetHour = match[7] === undefined ? 0 : Number(match[7]);
+  const offsetMinute = match[8] === undefined ? 0 : Number(match[8]);
+  if (
+    month < 1 || month > 12 || day < 1 || day > daysInMonth ||
+    hour > 23 || minute > 59 || second > 59 || offsetHour > 23 || offsetMinute > 59
+  ) {
+    throw invalidMessage(`Invalid ${name}: ${value}`);
+  }
+
+  return Date.parse(value.toUpperCase());
+}
+
+/**
+ * Create an exception for a malformed message
+ */
+function invalidMessage(message: string): Secp256k1EcdsaException {
+  return new Secp256k1EcdsaException(Secp256k1EcdsaError.InvalidSiweMessage, message);
+}
@@ -0,0 +1,434 @@
+import { Secp256k1EcdsaSignature } from '../index';
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import type { Secp256k1EcdsaPrivateKey } from '../keys';
+import { Keccak } from '../hash';
+import { EthereumAddress } from '../address';
+import { EthereumSignature } from './signature';
+import { rlpDecode, rlpDecodeInteger, rlpEncode, type RlpInput, type RlpValue } from './rlp';
+
+/**
+ * An EIP-2930 access list entry
+ */
+export interface EthereumAccessListEntry {
+  address: string;
+  // 32-byte storage slots
+  storageKeys: Uint8Array[];
+}
+
+/**
+ * Fields shared by every transaction type
+ */
+interface EthereumTransactionFields {
+  nonce: bigint;
+  gasLimit: bigint;
+  // Recipient address, or null to create a contract
+  to: string | null;
+  value: bigint;
+  data: Uint8Array;
+}
+
+/**
+ * A legacy transaction, replay-protected with EIP-155 when it has a chain id
+ */
+export interface EthereumLegacyTransaction extends EthereumTransactionFields {
+  type: 0;
+  chainId?: number;
+  gasPrice: bigint;
+}
+
+/**
+ * An EIP-2930 (type 1) transaction with an access list
+ */
+export interface EthereumAccessListTransaction extends EthereumTransactionFields {
+  type: 1;
+  chainId: number;
+  gasPrice: bigint;
+  accessList: EthereumAccessListEntry[];
+}
+
+/**
+ * An EIP-1559 (type 2) dynamic fee transaction
+ */
+export interface EthereumDynamicFeeTransaction extends EthereumTransactionFields {
+  type: 2;
+  chainId: number;
+  maxPriorityFeePerGas: bigint;
+  maxFeePerGas: bigint;
+  accessList: EthereumAccessListEntry[];
+}
+
+/**
+ * The transaction types that can be signed and parsed
+ */
+export type EthereumTransactionData = EthereumLegacyTransaction | EthereumAccessListTransaction | EthereumDynamicFeeTransaction;
+
+/**
+ * EthereumTransaction
+ * A legacy, EIP-2930 or EIP-1559 transaction, optionally signed.
+ */
+export class EthereumTransaction {
+  /**
+   * Create a transaction, checking its fields
+   * @param fields - The transaction fields
+   * @param signature - The signature, with v as the transaction type encodes it
+   */
+  constructor(public readonly fields: EthereumTransactionData, public readonly signature?: EthereumSignature) {
+    if (fields.type !== 0 && fields.type !== 1 && fields.type !== 2) {
+      throw invalidTransaction(`Unsupported transaction type: ${(fields as { type: unknown }).type}`);
+    }
+    if (fields.chainId !== undefined && (!Number.isSafeInteger(fields.chainId) || fields.chainId < 0)) {
+      throw invalidTransaction(`Invalid chain id: ${fields.chainId}`);
+    }
+    if (fields.type !== 0 && fields.chainId === undefined) {
+      throw invalidTransaction('Typed transactions require a chain id');
+    }
+    if (fields.to !== null) {
+      EthereumAddress.parse(fields.to);
+    }
+
+    for (const entry of fields.type === 0 ? [] : fields.accessList) {
+      EthereumAddress.parse(entry.address);
+      if (entry.storageKeys.some(key => key.length !== 32)) {
+        throw invalidTransaction('Access list storage keys must be 32 bytes');
+      }
+    }
+  }
+
+  /**
+   * Get the transaction type: 0 (legacy), 1 (EIP-2930) or 2 (EIP-1559)
+   * @returns The type
+   */
+  get type(): 0 | 1 | 2 {
+    return this.fields.type;
+  }
+
+  /**
+   * Serialize the fields that are signed
+   * @returns The RLP payload, prefixed with the type byte for typed transactions
+   */
+  signingPayload(): Uint8Array {
+    const fields = this.fields;
+    if (fields.type === 0) {
+      // EIP-155 appends chainId, 0, 0 to the six legacy fields
+      const legacy = EthereumTransaction.encodeFields(fields);
+      return rlpEncode(fields.chainId === undefined ? legacy : [...legacy, fields.chainId, 0, 0]);
+    }
+
+    return concat(Uint8Array.of(fields.type), rlpEncode(EthereumTransaction.encodeFields(fields)));
+  }
+
+  /**
+   * Compute the hash the sender signs
+   * @returns Keccak-256 of the signing payload
+   */
+  signingHash(): Uint8Array {
+    return new Keccak().hash(this.signingPayload());
+  }
+
+  /**
+   * Sign the transaction
+   * @param privkey - The sender's private key
+   * @returns A signed copy of the transaction, with a low-S signature
+   */
+  sign(privkey: Uint8Array | Secp256k1EcdsaPrivateKey): EthereumTransaction {
+    // Ethereum rejects high-S transaction signatures (EIP-2)
+    const signature = Secp256k1EcdsaSignature.sign(new Keccak(), this.signingPayload(), privkey).normalizeS();
+
+    // Legacy v is 27/28 or chainId * 2 + 35/36; typed transactions carry the y-parity
+    const v = this.fields.type === 0
+      ? EthereumSignature.fromSignature(signature, this.fields.chainId)
+      : new EthereumSignature(signature, signature.recoveryId);
+
+    return new EthereumTransaction(this.fields, v);
+  }
+
+  /**
+   * Serialize the signed transaction, as sent with `eth_sendRawTransaction`
+   * @returns The raw transaction bytes
+   */
+  serialize(): Uint8Array {
+    const signature = this.requireSignature();
+    const fields = this.fields;
+    const rsv: RlpInput[] = [
+      signature.v,
+      stripLeadingZeros(signature.signature.r()),
+      stripLeadingZeros(signature.signature.s())
+    ];
+
+    if (fields.type === 0) {
+      return rlpEncode([...EthereumTransaction.encodeFields(fields), ...rsv]);
+    }
+
+    return concat(Uint8Array.of(fields.type), rlpEncode([...EthereumTransaction.encodeFields(fields), ...rsv]));
+  }
+
+  /**
+   * Serialize the signed transaction as a 0x-prefixed hex string
+   * @returns The raw transaction hex
+   */
+  toHex(): string {
+    return '0x' + Buffer.from(this.serialize()).toString('hex');
+  }
+
+  /**
+   * Compute the transaction hash, as block explorers show it
+   * @returns Keccak-256 of the raw signed transaction
+   */
+  hash(): Uint8Array {
+    return new Keccak().hash(this.serialize());
+  }
+
+  /**
+   * Recover the sender of a signed transaction
+   * @returns The checksummed sender address
+   */
+  sender(): string {
+    return this.requireSignature().recoverAddress(new Keccak(), this.signingPayload());
+  }
+
+  /**
+   * Parse a raw signed transaction
+   * @param raw - The raw transaction, as bytes or a hex string
+   * @returns The signed transaction; `sender()` recovers who signed it
+   */
+  static parse(raw: Uint8Array | string): EthereumTransaction {
+    const bytes = typeof raw === 'string' ? fromHex(raw) : raw;
+    if (bytes.length === 0) {
+      throw invalidTransaction('Transaction is empty');
+    }
+
+    // Legacy transactions are RLP lists; typed transactions start with their type byte
+    const type = bytes[0] >= 0xc0 ? 0 : bytes[0];
+    if (type !== 0 && type !== 1 && type !== 2) {
+      throw invalidTransaction(`Unsupported transaction type: ${type}`);
+    }
+
+    const items = rlpDecode(type === 0 ? bytes : bytes.subarray(1));
+    if (!Array.isArray(items)) {
+      throw invalidTransaction('Transaction is not an RLP list');
+    }
+
+    const expected = { 0: 9, 1: 11, 2: 12 }[type];
+    if (items.length !== expected) {
+      throw invalidTransaction(`Type ${type} transaction must have ${expected} fields, got ${items.length}`);
+    }
+
+    const [vItem, rItem, sItem] = items.slice(-3);
+    const v = toSafeNumber(rlpDecodeInteger(vItem), 'v');
+    const signature = new Secp256k1EcdsaSignature(concat(toWord(rItem, 'r'), toWord(sItem, 's')));
+    if (!signature.isLowS()) {
+      throw new Secp256k1EcdsaException(Secp256k1EcdsaError.HighS, 'Transaction signature s is above N/2');
+    }
+
+    let fields: EthereumTransactionData;
+    let ethereumSignature: EthereumSignature;
+    if (type === 0) {
+      const [nonce, gasPrice, gasLimit, to, value, data] = items;
+
+      // v = 27/28 before EIP-155, chainId * 2 + 35/36 after
+      if (v !== 27 && v !== 28 && v < 35) {
+        throw invalidTransaction(`Invalid legacy transaction v: ${v}`);
+      }
+      ethereumSignature = new EthereumSignature(signature, v);
+      fields = {
+        type,
+        chainId: ethereumSignature.chainId,
+        nonce: rlpDecodeInteger(nonce),
+        gasPrice: rlpDecodeInteger(gasPrice),
+        gasLimit: rlpDecodeInteger(gasLimit),
+        to: toAddress(to),
+        value: rlpDecodeInteger(value),
+        data: toBytes(data, 'data')
+      };
+    } else {
+      if (v !== 0 && v !== 1) {
+        throw invalidTransaction(`Invalid typed transaction y-parity: ${v}`);
+      }
+      ethereumSignature = new EthereumSignature(signature, v);
+
+      const chainId = toSafeNumber(rlpDecodeInteger(items[0]), 'chain id');
+      const nonce = rlpDecodeInteger(items[1]);
+      if (type === 1) {
+        const [, , gasPrice, gasLimit, to, value, data, accessList] = items;
+        fields = {
+          type, chainId, nonce,
+          gasPrice: rlpDecodeInteger(gasPrice),
+          gasLimit: rlpDecodeInteger(gasLimit),
+          to: toAddress(to),
+          value: rlpDecodeInteger(value),
+          data: toBytes(data, 'data'),
+          accessList: toAccessList(accessList)
+        };
+      } else {
+        const [, , maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data, accessList] = items;
+        fields = {
+          type, chainId, nonce,
+          maxPriorityFeePerGas: rlpDecodeInteger(maxPriorityFeePerGas),
+          maxFeePerGas: rlpDecodeInteger(maxFeePerGas),
+          gasLimit: rlpDecodeInteger(gasLimit),
+          to: toAddress(to),
+          value: rlpDecodeInteger(value),
+          data: toBytes(data, 'data'),
+          accessList: toAccessList(accessList)
+        };
+      }
+    }
+
+    return new EthereumTransaction(fields, ethereumSignature);
+  }
+
+  /**
+   * Get the signature, failing for unsigned transactions
+   */
+  private requireSignature(): EthereumSignature {
+    if (!this.signature) {
+      throw invalidTransaction('Transaction is not signed');
+    }
+
+    return this.signature;
+  }
+
+  /**
+   * Lay out the unsigned fields of a transaction in RLP order
+   */
+  private static encodeFields(fields: EthereumTransactionData): RlpInput[] {
+    const to = fields.to === null ? new Uint8Array(0) : EthereumAddress.parse(fields.to);
+    const accessList = (entries: EthereumAccessListEntry[]): RlpInput[] =>
+      entries.map(entry => [EthereumAddress.parse(entry.address), entry.storageKeys]);
+
+    switch (fields.type) {
+      case 0:
+        return [fields.nonce, fields.gasPrice, fields.gasLimit, to, fields.value, fields.data];
+      case 1:
+        return [
+          fields.chainId, fields.nonce, fields.gasPrice, fields.gasLimit, to, fields.value, fields.data,
+          accessList(fields.accessList)
+        ];
+      case 2:
+        return [
+          fields.chainId, fields.nonce, fields.maxPriorityFeePerGas, fields.maxFeePerGas, fields.gasLimit,
+          to, fields.value, fields.data, accessList(fields.accessList)
+        ];
+    }
+  }
+}
+
+/**
+ * Read a byte string field
+ */
+function toBytes(value: RlpValue, name: string): Uint8Array {
+  if (!(value instanceof Uint8Array)) {
+    throw invalidTransaction(`Transaction ${name} must be a byte string`);
+  }
+
+  return value;
+}
+
+/**
+ * Read the recipient: 20 bytes, or empty for contract creation
+ */
+function toAddress(value: RlpValue): string | null {
+  const bytes = toBytes(value, 'recipient');
+  if (bytes.length === 0) {
+    return null;
+  }
+  if (bytes.length !== 20) {
+    throw invalidTransaction(`Invalid recipient length: ${bytes.length}`);
+  }
+
+  return EthereumAddress.toChecksumAddress(bytes);
+}
+
+/**
+ * Read an access list of [address, [storage keys]] entries
+ */
+function toAccessList(value: RlpValue): EthereumAccessListEntry[] {
+  if (!Array.isArray(value)) {
+    throw invalidTransaction('Access list must be a list');
+  }
+
+  return value.map(entry => {
+    if (!Array.isArray(entry) || entry.length !== 2 || !Array.isArray(entry[1])) {
+      throw invalidTransaction('Invalid access list entry');
+    }
+
+    const address = toAddress(entry[0]);
+    if (address === null) {
+      throw invalidTransaction('Access list address is empty');
+    }
+
+    return { address, storageKeys: entry[1].map(key => toBytes(key, 'storage key')) };
+  });
+}
+
+/**
+ * Read a signature component, a canonical integer of at most 32 bytes, as a 32-byte word
+ */
+function toWord(value: RlpValue, name: string): Uint8Array {
+  const bytes = toBytes(value, name);
+  rlpDecodeInteger(bytes);
+  if (bytes.length > 32) {
+    throw new Secp256k1EcdsaException(Secp256k1EcdsaError.InvalidSignature, `Signature ${name} is longer than 32 bytes`);
+  }
+
+  const word = new Uint8Array(32);
+  word.set(bytes, 32 - bytes.length);
+
+  return word;
+}
+
+/**
+ * Convert an integer field that must fit in a JavaScript number
+ */
+function toSafeNumber(value: bigint, name: string): number {
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw invalidTransaction(`Transaction ${name} is too large: ${value}`);
+  }
+
+  return Number(value);
+}
+
+/**
+ * Drop the leading zero bytes of a 32-byte signature component, as RLP integers require
+ */
+function stripLeadingZeros(bytes: Uint8Array): Uint8Array {
+  let start = 0;
+  while (start < bytes.length && bytes[start] === 0) {
+    start++;
+  }
+
+  return bytes.slice(start);
+}
+
+/**
+ * Decode a hex string, with or without 0x prefix
+ */
+function fromHex(hex: string): Uint8Array {
+  const digits = hex.startsWith('0x') || hex.startsWith('0X') ? hex.slice(2) : hex;
+  if (!/^([0-9a-fA-F]{2})*$/.test(digits)) {
+    throw invalidTransaction('Invalid hex transaction');
+  }
+
+  return Uint8Array.from(Buffer.from(digits, 'hex'));
+}
+
+/**
+ * Concatenate byte arrays
+ */
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+
+  return result;
+}
+
+/**
+ * Create an exception for a malformed transaction
+ */
+function invalidTransaction(message: string): Secp256k1EcdsaException {
+  return new Secp256k1EcdsaException(Secp256k1EcdsaError.InvalidTransaction, message);
+}
@@ -1,10 +1,11 @@
 import { sha256 } from 'js-sha256';
-import type { Secp256k1EcdsaHash } from './index';
+import type { Secp256k1EcdsaHasher, Secp256k1EcdsaStreamingHash } from './index';
+import { assertDeclaredLength, withDeclaredLength } from './declared-length';
 
 /**
  * Bitcoin Signed Message hash implementation
  */
-export class BSM implements Secp256k1EcdsaHash {
+export class BSM implements Secp256k1EcdsaStreamingHash {
   private static readonly MAGIC_BYTES = new TextEncoder().encode('\u0018Bitcoin Signed Message:\n');
 
   /**
@@ -13,25 +14,39 @@ export class BSM implements Secp256k1EcdsaHash {
    * @returns The 32-byte hash
    */
   hash(message: Uint8Array): Uint8Array {
-    const len = message.length;
+    return this.create(message.length).update(message).digest();
+  }
+
+  /**
+   * Start an incremental Bitcoin Signed Message computation
+   * @param length - The total message length, which is hashed before the message
+   * @returns A hasher that fails if the streamed byte count differs from `length`
+   */
+  create(length?: number): Secp256k1EcdsaHasher {
+    assertDeclaredLength(length);
     
     // Encode message length in varint format
     const buffer = new Uint8Array(9);
-    const bufferLen = BSM.encodeVarint(len, buffer);
+    const bufferLen = BSM.encodeVarint(length, buffer);
     
-    // First SHA256 hash
+    // First SHA256 hash, fed incrementally after the prefix
     const firstHash = sha256.create();
     firstHash.update(BSM.MAGIC_BYTES);
     firstHash.update(buffer.subarray(0, bufferLen));
-    firstHash.update(message);
-    const firstDigest = firstHash.digest();
-    
-    // Second SHA256 hash
-    const secondHash = sha256.create();
-    secondHash.update(firstDigest);
-    const secondDigest = secondHash.digest();
     
-    return new Uint8Array(secondDigest);
+    return withDeclaredLength({
+      update(chunk: Uint8Array) {
+        firstHash.update(chunk);
+        return this;
+      },
+      digest: () => {
+        // Second SHA256 hash
+        const secondHash = sha256.create();
+        secondHash.update(firstHash.digest());
+        
+        return new Uint8Array(secondHash.digest());
+      }
+    }, length);
   }
 
   /**
@@ -0,0 +1,50 @@
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import type { Secp256k1EcdsaHasher } from './index';
+
+/**
+ * Check a declared message length, for formats that encode it before the message
+ * @param length - The declared length
+ */
+export function assertDeclaredLength(length: number | undefined): void {
+  if (length === undefined || !Number.isSafeInteger(length) || length < 0) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidMessageLength,
+      `A message length is required to stream this hash, got: ${length}`
+    );
+  }
+}
+
+/**
+ * Wrap a hasher so that it fails if the number of bytes fed to it differs from the declared length
+ * @param hasher - The hasher already primed with the length-dependent prefix
+ * @param length - The declared message length
+ * @returns The checked hasher
+ */
+export function withDeclaredLength(hasher: Secp256k1EcdsaHasher, length: number): Secp256k1EcdsaHasher {
+  let received = 0;
+
+  return {
+    update(chunk: Uint8Array) {
+      received += chunk.length;
+      if (received > length) {
+        throw new Secp256k1EcdsaException(
+          Secp256k1EcdsaError.InvalidMessageLength,
+          `Message is longer than its declared length of ${length} bytes`
+        );
+      }
+
+      hasher.update(chunk);
+      return this;
+    },
+    digest: () => {
+      if (received !== length) {
+        throw new Secp256k1EcdsaException(
+          Secp256k1EcdsaError.InvalidMessageLength,
+          `Message has ${received} bytes, expected ${length}`
+        );
+      }
+
+      return hasher.digest();
+    }
+  };
+}
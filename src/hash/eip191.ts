@@ -0,0 +1,43 @@
+import { keccak_256 } from 'js-sha3';
+import type { Secp256k1EcdsaHash } from './index';
+import { EthereumAddress } from '../address/ethereum';
+
+/**
+ * EIP-191 version 0x00 ("data with intended validator") hash implementation
+ */
+export class EIP191 implements Secp256k1EcdsaHash {
+  // The 20-byte address of the contract that validates the signature
+  public readonly validator: Uint8Array;
+
+  /**
+   * Create a hash implementation bound to a validator contract
+   * @param validator - The validator's address, as a hex string or 20 bytes
+   */
+  constructor(validator: string | Uint8Array) {
+    this.validator = typeof validator === 'string'
+      ? EthereumAddress.parse(validator)
+      : EthereumAddress.parse(Buffer.from(validator).toString('hex'));
+  }
+
+  /**
+   * Hash a message for the intended validator
+   * @param message - The message to hash
+   * @returns The 32-byte hash
+   */
+  hash(message: Uint8Array): Uint8Array {
+    const hash = keccak_256.create();
+    hash.update(this.encode(message));
+    const digest = hash.digest();
+
+    return new Uint8Array(digest);
+  }
+
+  /**
+   * Wrap a message in the version 0x00 envelope
+   * @param message - The message to wrap
+   * @returns "\x19\x00" || validator || message
+   */
+  encode(message: Uint8Array): Uint8Array {
+    return Uint8Array.from([0x19, 0x00, ...this.validator, ...message]);
+  }
+}
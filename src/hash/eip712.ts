@@ -0,0 +1,366 @@
+import { keccak_256 } from 'js-sha3';
+import type { Secp256k1EcdsaHash } from './index';
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import { EthereumAddress } from '../address/ethereum';
+
+/**
+ * A member of an EIP-712 struct type
+ */
+export interface EIP712TypeField {
+  name: string;
+  type: string;
+}
+
+/**
+ * Struct type definitions, keyed by type name
+ */
+export type EIP712Types = Record<string, EIP712TypeField[]>;
+
+/**
+ * The EIP-712 domain; only the fields that are present are hashed
+ */
+export interface EIP712Domain {
+  name?: string;
+  version?: string;
+  chainId?: number | bigint | string;
+  verifyingContract?: string;
+  salt?: Uint8Array | string;
+}
+
+/**
+ * The `eth_signTypedData_v4` payload
+ */
+export interface EIP712TypedData {
+  types: EIP712Types;
+  primaryType: string;
+  domain: EIP712Domain;
+  message: Record<string, unknown>;
+}
+
+// Domain fields in the order EIP-712 lists them
+const DOMAIN_FIELDS: EIP712TypeField[] = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' },
+  { name: 'salt', type: 'bytes32' }
+];
+
+/**
+ * EIP-712 typed structured data hash implementation.
+ * The message passed to `hash` is the 32-byte `hashStruct` of the primary type,
+ * which gets wrapped as keccak256("\x19\x01" || domainSeparator || hashStruct(message)).
+ */
+export class EIP712 implements Secp256k1EcdsaHash {
+  // keccak256 of the encoded domain
+  public readonly domainSeparator: Uint8Array;
+
+  private readonly types: EIP712Types;
+
+  /**
+   * Create a hash implementation bound to a domain
+   * @param domain - The signing domain
+   * @param types - The struct types; `EIP712Domain` is inferred from the domain if absent
+   */
+  constructor(domain: EIP712Domain, types: EIP712Types = {}) {
+    this.types = {
+      ...types,
+      EIP712Domain: types.EIP712Domain ?? DOMAIN_FIELDS.filter(field => domain[field.name as keyof EIP712Domain] !== undefined)
+    };
+    this.domainSeparator = this.hashStruct('EIP712Domain', domain as Record<string, unknown>);
+  }
+
+  /**
+   * Create a hash implementation from an `eth_signTypedData_v4` payload
+   * @param typedData - The typed data
+   * @returns The hash implementation and the struct hash of the message, ready to sign
+   */
+  static fromTypedData(typedData: EIP712TypedData): { hashImpl: EIP712, message: Uint8Array } {
+    const hashImpl = new EIP712(typedData.domain, typedData.types);
+
+    return { hashImpl, message: hashImpl.hashStruct(typedData.primaryType, typedData.message) };
+  }
+
+  /**
+   * Compute the digest signed by `eth_signTypedData_v4`
+   * @param typedData - The typed data
+   * @returns The 32-byte digest
+   */
+  static hashTypedData(typedData: EIP712TypedData): Uint8Array {
+    const { hashImpl, message } = EIP712.fromTypedData(typedData);
+
+    return hashImpl.hash(message);
+  }
+
+  /**
+   * Hash a struct hash under this domain
+   * @param message - The 32-byte struct hash of the message
+   * @returns The 32-byte digest
+   */
+  hash(message: Uint8Array): Uint8Array {
+    return keccak256(this.encode(message));
+  }
+
+  /**
+   * Wrap a struct hash in the EIP-712 envelope
+   * @param message - The 32-byte struct hash of the message
+   * @returns "\x19\x01" || domainSeparator || message
+   */
+  encode(message: Uint8Array): Uint8Array {
+    if (message.length !== 32) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidTypedData,
+        `EIP-712 messages are 32-byte struct hashes, got ${message.length} bytes`
+      );
+    }
+
+    return Uint8Array.from([0x19, 0x01, ...this.domainSeparator, ...message]);
+  }
+
+  /**
+   * Compute hashStruct(data) = keccak256(typeHash || encodeData(data))
+   * @param primaryType - The struct type name
+   * @param data - The struct value
+   * @returns The 32-byte struct hash
+   */
+  hashStruct(primaryType: string, data: Record<string, unknown>): Uint8Array {
+    return keccak256(this.encodeData(primaryType, data));
+  }
+
+  /**
+   * Encode a struct type and the types it references, e.g. `Mail(Person from,...)Person(...)`
+   * @param primaryType - The struct type name
+   * @returns The encoded type
+   */
+  encodeType(primaryType: string): string {
+    const dependencies = [...this.findDependencies(primaryType, new Set())]
+      .filter(type => type !== primaryType)
+      .sort();
+
+    return [primaryType, ...dependencies]
+      .map(type => `${type}(${this.fields(type).map(field => `${field.type} ${field.name}`).join(',')})`)
+      .join('');
+  }
+
+  /**
+   * Compute keccak256(encodeType(primaryType))
+   * @param primaryType - The struct type name
+   * @returns The 32-byte type hash
+   */
+  typeHash(primaryType: string): Uint8Array {
+    return keccak256(new TextEncoder().encode(this.encodeType(primaryType)));
+  }
+
+  /**
+   * Encode a struct value as typeHash followed by each member encoded to 32 bytes
+   * @param primaryType - The struct type name
+   * @param data - The struct value
+   * @returns The encoded data
+   */
+  encodeData(primaryType: string, data: Record<string, unknown>): Uint8Array {
+    if (typeof data !== 'object' || data === null) {
+      throw invalidTypedData(`Expected an object for ${primaryType}`);
+    }
+
+    const encoded = [this.typeHash(primaryType)];
+    for (const field of this.fields(primaryType)) {
+      if (data[field.name] === undefined) {
+        throw invalidTypedData(`Missing value for ${primaryType}.${field.name}`);
+      }
+      encoded.push(this.encodeValue(field.type, data[field.name]));
+    }
+
+    return concat(encoded);
+  }
+
+  /**
+   * Encode one member value to 32 bytes
+   */
+  private encodeValue(type: string, value: unknown): Uint8Array {
+    // Arrays hash the concatenation of their encoded elements
+    const array = type.match(/^(.*)\[(\d*)\]$/);
+    if (array) {
+      if (!Array.isArray(value)) {
+        throw invalidTypedData(`Expected an array for ${type}`);
+      }
+      if (array[2] !== '' && value.length !== Number(array[2])) {
+        throw invalidTypedData(`Expected ${array[2]} elements for ${type}, got ${value.length}`);
+      }
+
+      return keccak256(concat(value.map(element => this.encodeValue(array[1], element))));
+    }
+
+    if (this.types[type]) {
+      return this.hashStruct(type, value as Record<string, unknown>);
+    }
+
+    // Dynamic types are hashed
+    if (type === 'string') {
+      if (typeof value !== 'string') {
+        throw invalidTypedData(`Expected a string, got ${typeof value}`);
+      }
+      return keccak256(new TextEncoder().encode(value));
+    }
+    if (type === 'bytes') {
+      return keccak256(toBytes(value, type));
+    }
+
+    return encodeAtomic(type, value);
+  }
+
+  /**
+   * Collect a type and every struct type it references
+   */
+  private findDependencies(type: string, found: Set<string>): Set<string> {
+    const baseType = type.replace(/\[\d*\]/g, '');
+    if (found.has(baseType) || !this.types[baseType]) {
+      return found;
+    }
+
+    found.add(baseType);
+    for (const field of this.types[baseType]) {
+      this.findDependencies(field.type, found);
+    }
+
+    return found;
+  }
+
+  /**
+   * Get the members of a struct type
+   */
+  private fields(type: string): EIP712TypeField[] {
+    const fields = this.types[type];
+    if (!fields) {
+      throw invalidTypedData(`Unknown struct type: ${type}`);
+    }
+
+    return fields;
+  }
+}
+
+/**
+ * Encode an atomic value (uintN, intN, address, bool, bytesN) to 32 bytes
+ */
+function encodeAtomic(type: string, value: unknown): Uint8Array {
+  const integer = type.match(/^(u?)int(\d*)$/);
+  if (integer) {
+    const bits = integer[2] === '' ? 256 : Number(integer[2]);
+    if (bits < 8 || bits > 256 || bits % 8 !== 0) {
+      throw invalidTypedData(`Invalid integer type: ${type}`);
+    }
+
+    const n = toBigInt(value, type);
+    const signed = integer[1] === '';
+    const min = signed ? -(1n << BigInt(bits - 1)) : 0n;
+    const max = signed ? (1n << BigInt(bits - 1)) - 1n : (1n << BigInt(bits)) - 1n;
+    if (n < min || n > max) {
+      throw invalidTypedData(`Value out of range for ${type}: ${n}`);
+    }
+
+    // Negative numbers are sign-extended two's complement
+    return bigIntToBytes32(n < 0n ? n + (1n << 256n) : n);
+  }
+
+  if (type === 'address') {
+    if (typeof value !== 'string') {
+      throw invalidTypedData(`Expected an address string, got ${typeof value}`);
+    }
+
+    const address = EthereumAddress.parse(value);
+    const encoded = new Uint8Array(32);
+    encoded.set(address, 12);
+    return encoded;
+  }
+
+  if (type === 'bool') {
+    if (typeof value !== 'boolean') {
+      throw invalidTypedData(`Expected a boolean, got ${typeof value}`);
+    }
+    return bigIntToBytes32(value ? 1n : 0n);
+  }
+
+  const fixedBytes = type.match(/^bytes(\d+)$/);
+  if (fixedBytes) {
+    const size = Number(fixedBytes[1]);
+    const bytes = toBytes(value, type);
+    if (size < 1 || size > 32 || bytes.length !== size) {
+      throw invalidTypedData(`Expected ${size} bytes for ${type}, got ${bytes.length}`);
+    }
+
+    // Fixed-size bytes are right-padded
+    const encoded = new Uint8Array(32);
+    encoded.set(bytes, 0);
+    return encoded;
+  }
+
+  throw invalidTypedData(`Unknown type: ${type}`);
+}
+
+/**
+ * Read an integer given as a number, bigint, decimal string or 0x-prefixed hex string
+ */
+function toBigInt(value: unknown, type: string): bigint {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'number' && Number.isSafeInteger(value)) {
+    return BigInt(value);
+  }
+  if (typeof value === 'string' && /^(-?\d+|-?0x[0-9a-fA-F]+)$/.test(value)) {
+    return value.startsWith('-') ? -BigInt(value.slice(1)) : BigInt(value);
+  }
+
+  throw invalidTypedData(`Invalid ${type} value: ${String(value)}`);
+}
+
+/**
+ * Read bytes given as a Uint8Array or hex string
+ */
+function toBytes(value: unknown, type: string): Uint8Array {
+  if (value instanceof Uint8Array) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const hex = value.startsWith('0x') ? value.slice(2) : value;
+    if (/^([0-9a-fA-F]{2})*$/.test(hex)) {
+      return Uint8Array.from(Buffer.from(hex, 'hex'));
+    }
+  }
+
+  throw invalidTypedData(`Invalid ${type} value: ${String(value)}`);
+}
+
+/**
+ * Encode a non-negative bigint as 32 big-endian bytes
+ */
+function bigIntToBytes32(value: bigint): Uint8Array {
+  return Uint8Array.from(Buffer.from(value.toString(16).padStart(64, '0'), 'hex'));
+}
+
+/**
+ * Concatenate byte arrays
+ */
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+
+  return result;
+}
+
+/**
+ * Hash bytes with Keccak-256
+ */
+function keccak256(data: Uint8Array): Uint8Array {
+  return new Uint8Array(keccak_256.arrayBuffer(data));
+}
+
+/**
+ * Create an exception for malformed typed data
+ */
+function invalidTypedData(message: string): Secp256k1EcdsaException {
+  return new Secp256k1EcdsaException(Secp256k1EcdsaError.InvalidTypedData, message);
+}
@@ -1,16 +1,47 @@
 import { keccak_256 } from 'js-sha3';
-import type { Secp256k1EcdsaHash } from './index';
+import type { Secp256k1EcdsaHasher, Secp256k1EcdsaStreamingHash } from './index';
+import { assertDeclaredLength, withDeclaredLength } from './declared-length';
 
 /**
  * Ethereum Signed Message hash implementation
  */
-export class ESM implements Secp256k1EcdsaHash {
+export class ESM implements Secp256k1EcdsaStreamingHash {
   /**
    * Hash a message using Ethereum Signed Message format
    * @param message - The message to hash
    * @returns The 32-byte hash
    */
   hash(message: Uint8Array): Uint8Array {
+    return this.create(message.length).update(message).digest();
+  }
+
+  /**
+   * Start an incremental Ethereum Signed Message computation
+   * @param length - The total message length, which is part of the prefix
+   * @returns A hasher that fails if the streamed byte count differs from `length`
+   */
+  create(length?: number): Secp256k1EcdsaHasher {
+    assertDeclaredLength(length);
+    
+    // Hash the prefix "\x19Ethereum Signed Message:\n" + length, then the message with Keccak-256
+    const hash = keccak_256.create();
+    hash.update(new TextEncoder().encode(`\x19Ethereum Signed Message:\n${length}`));
+    
+    return withDeclaredLength({
+      update(chunk: Uint8Array) {
+        hash.update(chunk);
+        return this;
+      },
+      digest: () => new Uint8Array(hash.digest())
+    }, length);
+  }
+
+  /**
+   * Wrap a message in the Ethereum Signed Message envelope
+   * @param message - The message to wrap
+   * @returns The prefixed message bytes that get hashed
+   */
+  static encode(message: Uint8Array): Uint8Array {
     // Create prefix "\x19Ethereum Signed Message:\n" + message.length
     const prefix = `\x19Ethereum Signed Message:\n${message.length}`;
     
@@ -22,11 +53,6 @@ export class ESM implements Secp256k1EcdsaHash {
     combined.set(prefixBytes, 0);
     combined.set(message, prefixBytes.length);
     
-    // Hash the combined message with Keccak-256
-    const hash = keccak_256.create();
-    hash.update(combined);
-    const digest = hash.digest();
-    
-    return new Uint8Array(digest);
+    return combined;
   }
 } 
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { createHash } from 'node:crypto';
+import { sha256 } from 'js-sha256';
+
+/**
+ * Compute the RIPEMD-160 digest of a message
+ * @param message - The message to hash
+ * @returns The 20-byte hash
+ */
+export function ripemd160(message: Uint8Array): Uint8Array {
+  return new Uint8Array(createHash('ripemd160').update(message).digest());
+}
+
+/**
+ * Compute HASH160, i.e. RIPEMD-160(SHA256(message)), as used by Bitcoin addresses
+ * @param message - The message to hash
+ * @returns The 20-byte hash
+ */
+export function hash160(message: Uint8Array): Uint8Array {
+  return ripemd160(new Uint8Array(sha256.arrayBuffer(message)));
+}
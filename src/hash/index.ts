@@ -6,6 +6,24 @@ export interface Secp256k1EcdsaHash {
   hash(message: Uint8Array): Uint8Array;
 }
 
+/**
+ * Secp256k1EcdsaHasher Interface
+ * An incremental hash computation, fed one chunk at a time
+ */
+export interface Secp256k1EcdsaHasher {
+  update(chunk: Uint8Array): Secp256k1EcdsaHasher;
+  digest(): Uint8Array;
+}
+
+/**
+ * Secp256k1EcdsaStreamingHash Interface
+ * A hash that can also be computed incrementally, for messages too large to hold in memory.
+ * `create(length)` takes the total message length for formats that encode it up front.
+ */
+export interface Secp256k1EcdsaStreamingHash extends Secp256k1EcdsaHash {
+  create(length?: number): Secp256k1EcdsaHasher;
+}
+
 /**
  * Hash Implementation Modules - imported in dedicated files for better tree-shaking
  */
@@ -13,4 +31,10 @@ export * from './sha256';
 export * from './sha256d';
 export * from './keccak';
 export * from './bsm';
-export * from './esm'; 
\ No newline at end of file
+export * from './esm';
+export * from './hash160';
+export * from './eip712';
+export * from './eip191';
+export * from './som';
+export * from './tagged';
+export * from './stream';
\ No newline at end of file
@@ -1,20 +1,32 @@
 import { keccak_256 } from 'js-sha3';
-import type { Secp256k1EcdsaHash } from './index';
+import type { Secp256k1EcdsaHasher, Secp256k1EcdsaStreamingHash } from './index';
 
 /**
  * Keccak-256 hash implementation
  */
-export class Keccak implements Secp256k1EcdsaHash {
+export class Keccak implements Secp256k1EcdsaStreamingHash {
   /**
    * Hash a message using Keccak-256
    * @param message - The message to hash
    * @returns The 32-byte hash
    */
   hash(message: Uint8Array): Uint8Array {
+    return this.create().update(message).digest();
+  }
+
+  /**
+   * Start an incremental Keccak-256 computation
+   * @returns A hasher producing the same 32-byte hash as `hash`
+   */
+  create(): Secp256k1EcdsaHasher {
     const hash = keccak_256.create();
-    hash.update(message);
-    const digest = hash.digest();
-    
-    return new Uint8Array(digest);
+
+    return {
+      update(chunk: Uint8Array) {
+        hash.update(chunk);
+        return this;
+      },
+      digest: () => new Uint8Array(hash.digest())
+    };
   }
-} 
\ No newline at end of file
+} 
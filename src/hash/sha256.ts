@@ -1,21 +1,33 @@
 import { sha256 } from 'js-sha256';
-import type { Secp256k1EcdsaHash } from './index';
+import type { Secp256k1EcdsaHasher, Secp256k1EcdsaStreamingHash } from './index';
 
 /**
  * SHA256 hash implementation
  */
-export class SHA256 implements Secp256k1EcdsaHash {
+export class SHA256 implements Secp256k1EcdsaStreamingHash {
   /**
    * Hash a message using SHA256
    * @param message - The message to hash
    * @returns The 32-byte hash
    */
   hash(message: Uint8Array): Uint8Array {
+    return this.create().update(message).digest();
+  }
+
+  /**
+   * Start an incremental SHA256 computation
+   * @returns A hasher producing the same 32-byte hash as `hash`
+   */
+  create(): Secp256k1EcdsaHasher {
     const hash = sha256.create();
-    hash.update(message);
-    const digest = hash.digest();
-    
-    // Convert the array to Uint8Array
-    return new Uint8Array(digest);
+
+    return {
+      update(chunk: Uint8Array) {
+        hash.update(chunk);
+        return this;
+      },
+      // Convert the array to Uint8Array
+      digest: () => new Uint8Array(hash.digest())
+    };
   }
-} 
\ No newline at end of file
+} 
@@ -1,27 +1,40 @@
 import { sha256 } from 'js-sha256';
-import type { Secp256k1EcdsaHash } from './index';
+import type { Secp256k1EcdsaHasher, Secp256k1EcdsaStreamingHash } from './index';
 
 /**
  * SHA256d hash implementation
  * Applies SHA256 twice: sha256(sha256(message))
  */
-export class SHA256d implements Secp256k1EcdsaHash {
+export class SHA256d implements Secp256k1EcdsaStreamingHash {
   /**
    * Hash a message using double SHA256
    * @param message - The message to hash
    * @returns The 32-byte hash
    */
   hash(message: Uint8Array): Uint8Array {
-    // First SHA256
+    return this.create().update(message).digest();
+  }
+
+  /**
+   * Start an incremental double SHA256 computation
+   * @returns A hasher producing the same 32-byte hash as `hash`
+   */
+  create(): Secp256k1EcdsaHasher {
+    // First SHA256, fed incrementally
     const firstHash = sha256.create();
-    firstHash.update(message);
-    const firstDigest = firstHash.digest();
-    
-    // Second SHA256
-    const secondHash = sha256.create();
-    secondHash.update(firstDigest);
-    const secondDigest = secondHash.digest();
-    
-    return new Uint8Array(secondDigest);
+
+    return {
+      update(chunk: Uint8Array) {
+        firstHash.update(chunk);
+        return this;
+      },
+      digest: () => {
+        // Second SHA256
+        const secondHash = sha256.create();
+        secondHash.update(firstHash.digest());
+
+        return new Uint8Array(secondHash.digest());
+      }
+    };
   }
-} 
\ No newline at end of file
+} 
@@ -0,0 +1,36 @@
+import { keccak_256 } from 'js-sha3';
+import type { Secp256k1EcdsaHash } from './index';
+import { SolanaOffchainMessage, type SolanaOffchainMessageOptions } from '../solana/offchain-message';
+
+/**
+ * Solana Off-chain Message hash implementation
+ * Keccak-256 of the off-chain message envelope, the hash the secp256k1 program checks
+ */
+export class SOM implements Secp256k1EcdsaHash {
+  /**
+   * Create a hash implementation bound to an off-chain message header
+   * @param options - The signers, application domain and format of the envelope
+   */
+  constructor(public readonly options: SolanaOffchainMessageOptions) {}
+
+  /**
+   * Hash a message in the off-chain message envelope
+   * @param message - The message body
+   * @returns The 32-byte hash
+   */
+  hash(message: Uint8Array): Uint8Array {
+    const hash = keccak_256.create();
+    hash.update(this.encode(message));
+
+    return new Uint8Array(hash.digest());
+  }
+
+  /**
+   * Wrap a message in the off-chain message envelope, checking it against its format
+   * @param message - The message body
+   * @returns The serialized off-chain message that gets hashed
+   */
+  encode(message: Uint8Array): Uint8Array {
+    return new SolanaOffchainMessage(message, this.options).serialize();
+  }
+}
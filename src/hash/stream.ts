@@ -0,0 +1,51 @@
+import type { Secp256k1EcdsaStreamingHash } from './index';
+
+/**
+ * A source of message bytes: any async iterable of chunks, which includes Node.js
+ * `Readable` streams, or a Web `ReadableStream`
+ */
+export type Secp256k1EcdsaByteStream = AsyncIterable<Uint8Array> | ReadableStream<Uint8Array>;
+
+/**
+ * Hash a message as it is read, without holding it in memory
+ * @param hashImpl - The streaming hash implementation to use
+ * @param stream - The message bytes
+ * @param length - The total message length, required by `BSM` and `ESM`
+ * @returns The hash of the streamed message
+ */
+export async function hashStream(
+  hashImpl: Secp256k1EcdsaStreamingHash,
+  stream: Secp256k1EcdsaByteStream,
+  length?: number
+): Promise<Uint8Array> {
+  const hasher = hashImpl.create(length);
+
+  for await (const chunk of readChunks(stream)) {
+    hasher.update(chunk);
+  }
+
+  return hasher.digest();
+}
+
+/**
+ * Iterate the chunks of a stream, reading Web streams through their reader
+ * since not every runtime makes them async iterable
+ */
+async function* readChunks(stream: Secp256k1EcdsaByteStream): AsyncGenerator<Uint8Array> {
+  if ('getReader' in stream) {
+    const reader = stream.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          return;
+        }
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  yield* stream;
+}
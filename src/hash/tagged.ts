@@ -0,0 +1,46 @@
+import { sha256 } from 'js-sha256';
+import type { Secp256k1EcdsaHasher, Secp256k1EcdsaStreamingHash } from './index';
+
+/**
+ * BIP340 tagged hash implementation
+ * Computes sha256(sha256(tag) || sha256(tag) || message), so hashes for different purposes never collide
+ */
+export class TaggedHash implements Secp256k1EcdsaStreamingHash {
+  // SHA256 of the tag, prefixed twice to every message
+  private readonly tagHash: Uint8Array;
+
+  /**
+   * Create a tagged hash
+   * @param tag - The tag, e.g. 'BIP0340/challenge' or 'TapLeaf'
+   */
+  constructor(public readonly tag: string) {
+    this.tagHash = new Uint8Array(sha256.arrayBuffer(new TextEncoder().encode(tag)));
+  }
+
+  /**
+   * Hash a message under the tag
+   * @param message - The message to hash
+   * @returns The 32-byte hash
+   */
+  hash(message: Uint8Array): Uint8Array {
+    return this.create().update(message).digest();
+  }
+
+  /**
+   * Start an incremental tagged hash computation
+   * @returns A hasher producing the same 32-byte hash as `hash`
+   */
+  create(): Secp256k1EcdsaHasher {
+    const hash = sha256.create();
+    hash.update(this.tagHash);
+    hash.update(this.tagHash);
+
+    return {
+      update(chunk: Uint8Array) {
+        hash.update(chunk);
+        return this;
+      },
+      digest: () => new Uint8Array(hash.digest())
+    };
+  }
+}
@@ -0,0 +1,394 @@
+import { createHmac } from 'node:crypto';
+import { Curve } from '../utils';
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import { Secp256k1EcdsaPrivateKey, Secp256k1EcdsaPublicKey } from '../keys';
+import { hash160 } from '../hash';
+import { base58CheckDecode, base58CheckEncode } from '../encoding';
+import { mnemonicToEntropy, mnemonicToSeed } from './mnemonic';
+
+// Child indices at or above this offset use hardened derivation
+export const HARDENED_OFFSET = 0x80000000;
+
+// Length of a serialized extended key, before the base58check checksum
+export const HD_EXTENDED_KEY_LENGTH = 78;
+
+/**
+ * Version bytes of serialized extended keys
+ */
+export interface HDKeyVersions {
+  private: number;
+  public: number;
+}
+
+// xprv/xpub and tprv/tpub
+export const BITCOIN_MAINNET_VERSIONS: HDKeyVersions = { private: 0x0488ade4, public: 0x0488b21e };
+export const BITCOIN_TESTNET_VERSIONS: HDKeyVersions = { private: 0x04358394, public: 0x043587cf };
+
+// HMAC key for master key generation
+const MASTER_SECRET = new TextEncoder().encode('Bitcoin seed');
+
+/**
+ * HDKey
+ * A BIP32 extended key: a private or public key together with its chain code and position in the tree.
+ */
+export class HDKey {
+  /**
+   * Create an extended key from its parts; use `fromMasterSeed` or `fromExtendedKey` instead
+   * @param publicKey - The public key
+   * @param privateKey - The private key, or null for a public-only key
+   * @param chainCode - The 32-byte chain code
+   * @param depth - The number of derivations from the master key
+   * @param index - The child index this key was derived with
+   * @param parentFingerprint - The fingerprint of the parent key
+   * @param versions - The version bytes used when serializing
+   */
+  private constructor(
+    public readonly publicKey: Secp256k1EcdsaPublicKey,
+    public readonly privateKey: Secp256k1EcdsaPrivateKey | null,
+    public readonly chainCode: Uint8Array,
+    public readonly depth: number,
+    public readonly index: number,
+    public readonly parentFingerprint: number,
+    public readonly versions: HDKeyVersions
+  ) {}
+
+  /**
+   * Generate the master key from a seed
+   * @param seed - The seed, between 16 and 64 bytes (e.g. a BIP39 seed)
+   * @param versions - The version bytes used when serializing
+   * @returns The master extended private key
+   */
+  static fromMasterSeed(seed: Uint8Array, versions: HDKeyVersions = BITCOIN_MAINNET_VERSIONS): HDKey {
+    if (seed.length < 16 || seed.length > 64) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidSecretKey,
+        `Invalid seed length: ${seed.length}`
+      );
+    }
+
+    const I = hmacSha512(MASTER_SECRET, seed);
+    const privateKey = HDKey.privateKeyFromIL(I.slice(0, 32));
+
+    return new HDKey(privateKey.publicKey(), privateKey, I.slice(32), 0, 0, 0, versions);
+  }
+
+  /**
+   * Generate the master key from a BIP39 mnemonic, which must be valid for the English wordlist
+   * @param mnemonic - The mnemonic sentence
+   * @param passphrase - The optional BIP39 passphrase
+   * @param versions - The version bytes used when serializing
+   * @returns The master extended private key
+   */
+  static fromMnemonic(
+    mnemonic: string,
+    passphrase: string = '',
+    versions: HDKeyVersions = BITCOIN_MAINNET_VERSIONS
+  ): HDKey {
+    // Reject typos before deriving keys nobody has funds on
+    mnemonicToEntropy(mnemonic);
+
+    return HDKey.fromMasterSeed(mnemonicToSeed(mnemonic, passphrase), versions);
+  }
+
+  /**
+   * Parse a base58check-serialized extended key (xprv/xpub)
+   * @param extendedKey - The serialized key
+   * @param versions - The expected version bytes
+   * @returns The extended key, public-only if it was an extended public key
+   */
+  static fromExtendedKey(extendedKey: string, versions: HDKeyVersions = BITCOIN_MAINNET_VERSIONS): HDKey {
+    let bytes: Uint8Array;
+    try {
+      bytes = base58CheckDecode(extendedKey);
+    } catch (error) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidExtendedKey,
+        `Invalid extended key encoding: ${(error as Error).message}`
+      );
+    }
+
+    if (bytes.length !== HD_EXTENDED_KEY_LENGTH) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidExtendedKey,
+        `Invalid extended key length: ${bytes.length}`
+      );
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const version = view.getUint32(0);
+    const depth = bytes[4];
+    const parentFingerprint = view.getUint32(5);
+    const index = view.getUint32(9);
+    const chainCode = bytes.slice(13, 45);
+    const keyData = bytes.slice(45, 78);
+
+    // The master key has no parent
+    if (depth === 0 && (parentFingerprint !== 0 || index !== 0)) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidExtendedKey,
+        'Zero depth with a non-zero parent fingerprint or index'
+      );
+    }
+
+    if (version === versions.private) {
+      if (keyData[0] !== 0x00) {
+        throw new Secp256k1EcdsaException(
+          Secp256k1EcdsaError.InvalidExtendedKey,
+          'Private key data must start with 0x00'
+        );
+      }
+
+      const privateKey = HDKey.parseKey(() => new Secp256k1EcdsaPrivateKey(keyData.slice(1)));
+      return new HDKey(privateKey.publicKey(), privateKey, chainCode, depth, index, parentFingerprint, versions);
+    }
+
+    if (version === versions.public) {
+      if (keyData[0] !== 0x02 && keyData[0] !== 0x03) {
+        throw new Secp256k1EcdsaException(
+          Secp256k1EcdsaError.InvalidExtendedKey,
+          'Public key data must be a compressed point'
+        );
+      }
+
+      const publicKey = HDKey.parseKey(() => Secp256k1EcdsaPublicKey.fromBytes(keyData));
+      return new HDKey(publicKey, null, chainCode, depth, index, parentFingerprint, versions);
+    }
+
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidExtendedKey,
+      `Unknown extended key version: 0x${version.toString(16).padStart(8, '0')}`
+    );
+  }
+
+  /**
+   * Parse a derivation path such as m/44'/60'/0'/0/0
+   * @param path - The path; hardened indices end in ', h or H
+   * @returns The child indices, with hardened ones offset by 2^31
+   */
+  static parsePath(path: string): number[] {
+    const [root, ...segments] = path.split('/');
+    if (root !== 'm' && root !== 'M') {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidDerivationPath,
+        `Derivation path must start with m: ${path}`
+      );
+    }
+
+    return segments.map(segment => {
+      const match = /^(\d+)(['hH])?$/.exec(segment);
+      const index = match ? Number(match[1]) : NaN;
+      if (!match || index >= HARDENED_OFFSET) {
+        throw new Secp256k1EcdsaException(
+          Secp256k1EcdsaError.InvalidDerivationPath,
+          `Invalid derivation path segment: ${segment}`
+        );
+      }
+
+      return match[2] ? index + HARDENED_OFFSET : index;
+    });
+  }
+
+  /**
+   * Get the identifier of this key, HASH160 of the compressed public key
+   * @returns The 20-byte identifier
+   */
+  identifier(): Uint8Array {
+    return hash160(this.publicKey.toCompressed());
+  }
+
+  /**
+   * Get the fingerprint of this key, the first 4 bytes of its identifier
+   * @returns The fingerprint as an unsigned 32-bit integer
+   */
+  fingerprint(): number {
+    const id = this.identifier();
+
+    return ((id[0] << 24) | (id[1] << 16) | (id[2] << 8) | id[3]) >>> 0;
+  }
+
+  /**
+   * Check whether this key can derive hardened children and sign
+   * @returns True if the private key is known
+   */
+  isPrivate(): boolean {
+    return this.privateKey !== null;
+  }
+
+  /**
+   * Derive the key at a path below this one
+   * @param path - The path, e.g. m/44'/60'/0'/0/0, where m is this key
+   * @returns The derived key, public-only if this key is
+   */
+  derive(path: string): HDKey {
+    return HDKey.parsePath(path).reduce<HDKey>((key, index) => key.deriveChild(index), this);
+  }
+
+  /**
+   * Derive a child key (CKDpriv, or CKDpub for public-only keys)
+   * @param index - The child index; indices from 2^31 are hardened
+   * @returns The child key
+   */
+  deriveChild(index: number): HDKey {
+    if (!Number.isInteger(index) || index < 0 || index > 0xffffffff) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidDerivationPath,
+        `Invalid child index: ${index}`
+      );
+    }
+
+    if (this.depth >= 255) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidDerivationPath,
+        'Maximum derivation depth exceeded'
+      );
+    }
+
+    const hardened = index >= HARDENED_OFFSET;
+    if (hardened && !this.privateKey) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidDerivationPath,
+        'Cannot derive a hardened child from a public key'
+      );
+    }
+
+    // Hardened children commit to the private key, normal ones to the public key
+    const data = new Uint8Array(37);
+    if (hardened) {
+      data.set(this.privateKey.toBytes(), 1);
+    } else {
+      data.set(this.publicKey.toCompressed(), 0);
+    }
+    new DataView(data.buffer).setUint32(33, index);
+
+    const I = hmacSha512(this.chainCode, data);
+    const IL = I.slice(0, 32);
+    const chainCode = I.slice(32);
+
+    if (this.privateKey) {
+      // k_i = IL + k_par (mod n)
+      const privateKey = HDKey.privateKeyFromIL(IL, this.privateKey.toBytes());
+
+      return new HDKey(
+        privateKey.publicKey(), privateKey, chainCode, this.depth + 1, index, this.fingerprint(), this.versions
+      );
+    }
+
+    // K_i = IL * G + K_par
+    if (Curve.gteN(IL)) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidDerivationPath,
+        `Child ${index} is invalid, use the next index`
+      );
+    }
+
+    let point: { x: Uint8Array, y: Uint8Array };
+    try {
+      point = Curve.tweakAdd(this.publicKey, IL);
+    } catch (error) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidDerivationPath,
+        `Child ${index} is invalid, use the next index`
+      );
+    }
+
+    return new HDKey(
+      new Secp256k1EcdsaPublicKey(point.x, point.y),
+      null,
+      chainCode,
+      this.depth + 1,
+      index,
+      this.fingerprint(),
+      this.versions
+    );
+  }
+
+  /**
+   * Drop the private key
+   * @returns The same key as a public-only extended key
+   */
+  neuter(): HDKey {
+    return new HDKey(
+      this.publicKey, null, this.chainCode, this.depth, this.index, this.parentFingerprint, this.versions
+    );
+  }
+
+  /**
+   * Serialize the extended private key
+   * @returns The base58check string, e.g. xprv...
+   */
+  toExtendedPrivateKey(): string {
+    if (!this.privateKey) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidSecretKey,
+        'Extended key has no private key'
+      );
+    }
+
+    const keyData = new Uint8Array(33);
+    keyData.set(this.privateKey.toBytes(), 1);
+
+    return this.serialize(this.versions.private, keyData);
+  }
+
+  /**
+   * Serialize the extended public key
+   * @returns The base58check string, e.g. xpub...
+   */
+  toExtendedPublicKey(): string {
+    return this.serialize(this.versions.public, this.publicKey.toCompressed());
+  }
+
+  /**
+   * Serialize as version || depth || parent fingerprint || index || chain code || key data
+   */
+  private serialize(version: number, keyData: Uint8Array): string {
+    const bytes = new Uint8Array(HD_EXTENDED_KEY_LENGTH);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(0, version);
+    bytes[4] = this.depth;
+    view.setUint32(5, this.parentFingerprint);
+    view.setUint32(9, this.index);
+    bytes.set(this.chainCode, 13);
+    bytes.set(keyData, 45);
+
+    return base58CheckEncode(bytes);
+  }
+
+  /**
+   * Parse the key data of a serialized key, reporting failures as an invalid extended key
+   */
+  private static parseKey<T>(parse: () => T): T {
+    try {
+      return parse();
+    } catch (error) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidExtendedKey,
+        `Invalid extended key data: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Turn the left half of an HMAC output into a private key, adding it to a parent key if given
+   */
+  private static privateKeyFromIL(IL: Uint8Array, parent?: Uint8Array): Secp256k1EcdsaPrivateKey {
+    const secret = parent ? Curve.addModN(IL, parent) : IL;
+
+    // IL >= n or a zero key make this child invalid (probability below 2^-127)
+    if (Curve.gteN(IL) || !Curve.isValidScalar(secret)) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidDerivationPath,
+        'Derived key is invalid, use the next index'
+      );
+    }
+
+    return new Secp256k1EcdsaPrivateKey(secret);
+  }
+}
+
+/**
+ * Compute HMAC-SHA512
+ */
+function hmacSha512(key: Uint8Array, data: Uint8Array): Uint8Array {
+  return new Uint8Array(createHmac('sha512', key).update(data).digest());
+}
@@ -0,0 +1,6 @@
+/**
+ * HD Wallet Modules - hierarchical deterministic key derivation and mnemonic phrases
+ */
+export * from './hdkey';
+export * from './mnemonic';
+export * from './wordlists/english';
@@ -0,0 +1,180 @@
+import { pbkdf2Sync } from 'node:crypto';
+import { sha256 } from 'js-sha256';
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import { ENGLISH_WORDLIST } from './wordlists/english';
+
+// Entropy sizes in bits, giving 12, 15, 18, 21 or 24 words
+export type MnemonicStrength = 128 | 160 | 192 | 224 | 256;
+
+// PBKDF2 iterations for seed derivation
+const SEED_ITERATIONS = 2048;
+
+// Word indices of each wordlist, built on first use
+const wordIndices = new WeakMap<readonly string[], Map<string, number>>();
+
+/**
+ * Generate a random mnemonic
+ * @param strength - The entropy size in bits
+ * @param wordlist - The 2048-word list to use
+ * @returns The mnemonic sentence
+ */
+export function generateMnemonic(
+  strength: MnemonicStrength = 128,
+  wordlist: readonly string[] = ENGLISH_WORDLIST
+): string {
+  if (![128, 160, 192, 224, 256].includes(strength)) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidMnemonic,
+      `Invalid mnemonic strength: ${strength}`
+    );
+  }
+
+  return entropyToMnemonic(crypto.getRandomValues(new Uint8Array(strength / 8)), wordlist);
+}
+
+/**
+ * Encode entropy as a mnemonic, appending a checksum of its SHA256 hash
+ * @param entropy - 16 to 32 bytes of entropy, a multiple of 4 bytes
+ * @param wordlist - The 2048-word list to use
+ * @returns The mnemonic sentence
+ */
+export function entropyToMnemonic(entropy: Uint8Array, wordlist: readonly string[] = ENGLISH_WORDLIST): string {
+  if (entropy.length < 16 || entropy.length > 32 || entropy.length % 4 !== 0) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidMnemonic,
+      `Invalid entropy length: ${entropy.length}`
+    );
+  }
+  assertWordlist(wordlist);
+
+  // Entropy bits followed by ENT / 32 checksum bits, split into 11-bit word indices
+  const bits = toBits(entropy) + checksumBits(entropy);
+  const words: string[] = [];
+  for (let i = 0; i < bits.length; i += 11) {
+    words.push(wordlist[parseInt(bits.slice(i, i + 11), 2)]);
+  }
+
+  return words.join(' ');
+}
+
+/**
+ * Decode a mnemonic back to its entropy, checking every word and the checksum
+ * @param mnemonic - The mnemonic sentence
+ * @param wordlist - The 2048-word list it was generated with
+ * @returns The entropy
+ */
+export function mnemonicToEntropy(mnemonic: string, wordlist: readonly string[] = ENGLISH_WORDLIST): Uint8Array {
+  const words = normalize(mnemonic).split(' ');
+  if (words.length < 12 || words.length > 24 || words.length % 3 !== 0) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidMnemonic,
+      `Invalid mnemonic word count: ${words.length}`
+    );
+  }
+
+  const indices = getWordIndices(wordlist);
+  const bits = words.map((word, position) => {
+    const index = indices.get(word);
+    if (index === undefined) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidMnemonic,
+        `Unknown mnemonic word at position ${position + 1}: ${word}`
+      );
+    }
+
+    return index.toString(2).padStart(11, '0');
+  }).join('');
+
+  // The last ENT / 32 bits are the checksum
+  const entropyBits = bits.length - bits.length / 33;
+  const entropy = new Uint8Array(entropyBits / 8);
+  for (let i = 0; i < entropy.length; i++) {
+    entropy[i] = parseInt(bits.slice(i * 8, i * 8 + 8), 2);
+  }
+
+  if (checksumBits(entropy) !== bits.slice(entropyBits)) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidMnemonic,
+      'Invalid mnemonic checksum'
+    );
+  }
+
+  return entropy;
+}
+
+/**
+ * Check whether a mnemonic is valid for a wordlist
+ * @param mnemonic - The mnemonic sentence
+ * @param wordlist - The 2048-word list it was generated with
+ * @returns True if every word is known and the checksum matches
+ */
+export function validateMnemonic(mnemonic: string, wordlist: readonly string[] = ENGLISH_WORDLIST): boolean {
+  try {
+    mnemonicToEntropy(mnemonic, wordlist);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Derive the 64-byte seed of a mnemonic with PBKDF2-HMAC-SHA512, as input for `HDKey.fromMasterSeed`.
+ * Like BIP39 itself, this does not check the mnemonic; use `validateMnemonic` for that.
+ * @param mnemonic - The mnemonic sentence
+ * @param passphrase - The optional passphrase
+ * @returns The seed
+ */
+export function mnemonicToSeed(mnemonic: string, passphrase: string = ''): Uint8Array {
+  const password = new TextEncoder().encode(normalize(mnemonic));
+  const salt = new TextEncoder().encode('mnemonic' + passphrase.normalize('NFKD'));
+
+  return new Uint8Array(pbkdf2Sync(password, salt, SEED_ITERATIONS, 64, 'sha512'));
+}
+
+/**
+ * Apply NFKD normalization and collapse whitespace between words
+ */
+function normalize(mnemonic: string): string {
+  return mnemonic.normalize('NFKD').trim().split(/\s+/).join(' ');
+}
+
+/**
+ * Get the first ENT / 32 bits of the SHA256 hash of the entropy
+ */
+function checksumBits(entropy: Uint8Array): string {
+  return toBits(new Uint8Array(sha256.arrayBuffer(entropy))).slice(0, entropy.length / 4);
+}
+
+/**
+ * Convert bytes to a string of bits
+ */
+function toBits(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(2).padStart(8, '0')).join('');
+}
+
+/**
+ * Look up the index of each word in a wordlist
+ */
+function getWordIndices(wordlist: readonly string[]): Map<string, number> {
+  assertWordlist(wordlist);
+
+  let indices = wordIndices.get(wordlist);
+  if (!indices) {
+    indices = new Map(wordlist.map((word, i) => [word.normalize('NFKD'), i]));
+    wordIndices.set(wordlist, indices);
+  }
+
+  return indices;
+}
+
+/**
+ * Ensure a wordlist has exactly 2048 words
+ */
+function assertWordlist(wordlist: readonly string[]): void {
+  if (wordlist.length !== 2048) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidMnemonic,
+      `Wordlist must have 2048 words, got ${wordlist.length}`
+    );
+  }
+}
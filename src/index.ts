@@ -1,14 +1,63 @@
-import { Curve, rfc6979Generate } from './utils';
+import { Curve } from './utils';
+import { rfc6979Generate, type Rfc6979Hash } from './rfc6979';
 import { Secp256k1EcdsaError, Secp256k1EcdsaException } from './errors';
-import type { Secp256k1EcdsaHash } from './hash';
+import { Secp256k1EcdsaPrivateKey, Secp256k1EcdsaPublicKey } from './keys';
+import { decodeDER, encodeDER } from './der';
+import { hashStream } from './hash';
+import type { Secp256k1EcdsaHash, Secp256k1EcdsaStreamingHash, Secp256k1EcdsaByteStream } from './hash';
 
 // Re-export hash implementations
 export * from './hash';
 export * from './errors';
+export * from './keys';
+export * from './address';
+export * from './ethereum';
+export * from './bitcoin';
+export * from './batch';
+export * from './hd';
+export * from './keystore';
+export * from './ecies';
+export * from './schnorr';
+export * from './rfc6979';
+export * from './secp256r1';
+export * from './solana';
 
 // Signature length
 export const SECP256K1_ECDSA_SIGNATURE_LENGTH = 64;
 
+// Message hash length required by strict verification
+export const SECP256K1_ECDSA_HASH_LENGTH = 32;
+
+/**
+ * Options for RFC6979 signing
+ */
+export interface Secp256k1EcdsaSignOptions {
+  // The hash used for HMAC in nonce generation. The default stays 'sha256' whatever the message hash,
+  // for compatibility with libsecp256k1, ethers and Ethereum wallets, so Keccak and ESM signatures
+  // only get HMAC-Keccak-256 nonces when 'keccak256' is passed here explicitly
+  nonceHash?: Rfc6979Hash;
+  // Additional data mixed into the nonce for hedged signatures, or true for 32 random bytes
+  extraEntropy?: Uint8Array | boolean;
+}
+
+/**
+ * Options for strict verification
+ */
+export interface Secp256k1EcdsaVerifyOptions {
+  // Reject signatures whose s is above N/2, as Solana and Bitcoin do (default true)
+  lowS?: boolean;
+}
+
+/**
+ * The outcome of a detailed verification
+ */
+export interface Secp256k1EcdsaVerifyResult {
+  valid: boolean;
+  // Why the signature was rejected, unset when valid
+  reason?: Secp256k1EcdsaError;
+  message?: string;
+}
+
 /**
  * Secp256k1EcdsaSignature
  * An ECDSA signature used for signature verification purposes.
@@ -17,14 +66,19 @@ export class Secp256k1EcdsaSignature {
   /**
    * Create a new signature from a 64-byte array
    * @param signature - The signature bytes
+   * @param recoveryId - The recovery id (0-3), if known
    */
-  constructor(public readonly signature: Uint8Array) {
+  constructor(public readonly signature: Uint8Array, public readonly recoveryId?: number) {
     if (signature.length !== SECP256K1_ECDSA_SIGNATURE_LENGTH) {
       throw new Secp256k1EcdsaException(
         Secp256k1EcdsaError.InvalidSignature,
         `Invalid signature length: ${signature.length}`
       );
     }
+
+    if (recoveryId !== undefined) {
+      Secp256k1EcdsaSignature.assertRecoveryId(recoveryId);
+    }
   }
 
   /**
@@ -43,33 +97,120 @@ export class Secp256k1EcdsaSignature {
     return this.signature.slice(32, 64);
   }
 
+  /**
+   * Parse a strict DER-encoded signature (BIP66 rules)
+   * @param der - The DER encoding, without a sighash byte
+   * @returns The signature
+   */
+  static fromDER(der: Uint8Array): Secp256k1EcdsaSignature {
+    return new Secp256k1EcdsaSignature(decodeDER(der));
+  }
+
+  /**
+   * Parse a strict DER-encoded signature followed by a Bitcoin sighash type byte
+   * @param bytes - The DER encoding with the sighash byte appended
+   * @returns The signature and the sighash type
+   */
+  static fromDERWithSighash(bytes: Uint8Array): { signature: Secp256k1EcdsaSignature, sighashType: number } {
+    if (bytes.length === 0) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidSignature,
+        'Missing sighash type'
+      );
+    }
+
+    return {
+      signature: Secp256k1EcdsaSignature.fromDER(bytes.slice(0, bytes.length - 1)),
+      sighashType: bytes[bytes.length - 1]
+    };
+  }
+
+  /**
+   * Encode the signature in DER format
+   * @param sighashType - A Bitcoin sighash type byte to append, if any
+   * @returns The DER encoding
+   */
+  toDER(sighashType?: number): Uint8Array {
+    const der = encodeDER(this.r(), this.s());
+    if (sighashType === undefined) {
+      return der;
+    }
+
+    if (!Number.isInteger(sighashType) || sighashType < 0 || sighashType > 0xff) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidSignature,
+        `Invalid sighash type: ${sighashType}`
+      );
+    }
+
+    return Uint8Array.from([...der, sighashType]);
+  }
+
   /**
    * Sign a message with a defined ephemeral key (k)
    * @param hashImpl - The hash implementation to use
    * @param message - The message to sign
    * @param k - The ephemeral key (must be cryptographically secure if not deterministic)
    * @param privkey - The private key
-   * @returns The signature
+   * @returns The signature, including its recovery id
    */
   static signWithK<H extends Secp256k1EcdsaHash>(
     hashImpl: H,
     message: Uint8Array,
     k: Uint8Array,
-    privkey: Uint8Array
+    privkey: Uint8Array | Secp256k1EcdsaPrivateKey
+  ): Secp256k1EcdsaSignature {
+    return Secp256k1EcdsaSignature.signDigestWithK(hashImpl.hash(message), k, privkey);
+  }
+
+  /**
+   * Sign a message using RFC6979 deterministic nonce generation
+   * @param hashImpl - The hash implementation to use
+   * @param message - The message to sign
+   * @param privkey - The private key
+   * @param options - The nonce HMAC hash and extra entropy
+   * @returns The signature, including its recovery id
+   */
+  static sign<H extends Secp256k1EcdsaHash>(
+    hashImpl: H,
+    message: Uint8Array,
+    privkey: Uint8Array | Secp256k1EcdsaPrivateKey,
+    options: Secp256k1EcdsaSignOptions = {}
+  ): Secp256k1EcdsaSignature {
+    return Secp256k1EcdsaSignature.signDigest(hashImpl.hash(message), privkey, options);
+  }
+
+  /**
+   * Sign a 32-byte digest with a defined ephemeral key (k)
+   * @param digest - The message hash, computed by the caller
+   * @param k - The ephemeral key (must be cryptographically secure if not deterministic)
+   * @param privkey - The private key
+   * @returns The signature, including its recovery id
+   */
+  static signDigestWithK(
+    digest: Uint8Array,
+    k: Uint8Array,
+    privkey: Uint8Array | Secp256k1EcdsaPrivateKey
   ): Secp256k1EcdsaSignature {
-    // Hash the message first
-    const h = hashImpl.hash(message);
+    Secp256k1EcdsaSignature.assertDigest(digest);
+
+    // Validate the private key range
+    const secret = Secp256k1EcdsaPrivateKey.from(privkey).toBytes();
     
     // Calculate R = k*G and extract x-coordinate
     try {
-      const r = Curve.mulG(k);
+      const point = Curve.mulGPoint(k);
+      const r = Curve.modN(point.x);
+      
+      // Record the parity of R.y and whether R.x overflowed N for public key recovery
+      const recoveryId = (point.y[31] & 1) | (Curve.gteN(point.x) ? 2 : 0);
       
       // Calculate k^-1 (mod n)
       const modInvK = Curve.modInvN(k);
       
       // Calculate s = k^-1 * (h + privkey*r) (mod n)
-      const pMulRModN = Curve.mulModN(r, privkey); // Compute privkey * r mod n
-      const sum = Curve.addModN(h, pMulRModN); // Compute (h + privkey*r) mod n
+      const pMulRModN = Curve.mulModN(r, secret); // Compute privkey * r mod n
+      const sum = Curve.addModN(digest, pMulRModN); // Compute (h + privkey*r) mod n
       const s = Curve.mulModN(modInvK, sum); // Multiply by k⁻¹ mod n
       
       // Assemble the signature: first 32 bytes R, last 32 bytes S
@@ -77,32 +218,57 @@ export class Secp256k1EcdsaSignature {
       signature.set(r, 0);
       signature.set(s, 32);
       
-      return new Secp256k1EcdsaSignature(signature);
+      return new Secp256k1EcdsaSignature(signature, recoveryId);
     } catch (error) {
       throw new Secp256k1EcdsaException(Secp256k1EcdsaError.InvalidSecretKey);
     }
   }
 
   /**
-   * Sign a message using RFC6979 deterministic nonce generation
-   * @param hashImpl - The hash implementation to use
-   * @param message - The message to sign
+   * Sign a 32-byte digest using RFC6979 deterministic nonce generation, e.g. a Bitcoin
+   * sighash or a hash computed by another service
+   * @param digest - The message hash, computed by the caller
    * @param privkey - The private key
-   * @returns The signature
+   * @param options - The nonce HMAC hash and extra entropy
+   * @returns The signature, including its recovery id
    */
-  static sign<H extends Secp256k1EcdsaHash>(
-    hashImpl: H,
-    message: Uint8Array,
-    privkey: Uint8Array
+  static signDigest(
+    digest: Uint8Array,
+    privkey: Uint8Array | Secp256k1EcdsaPrivateKey,
+    options: Secp256k1EcdsaSignOptions = {}
   ): Secp256k1EcdsaSignature {
-    // Hash the message first
-    const h = hashImpl.hash(message);
+    Secp256k1EcdsaSignature.assertDigest(digest);
+
+    // Validate the private key range
+    const secret = Secp256k1EcdsaPrivateKey.from(privkey).toBytes();
     
-    // Generate deterministic k using RFC6979
-    const k = rfc6979Generate(privkey, h);
+    // Generate deterministic k using RFC6979, hedged if extra entropy is given
+    const k = rfc6979Generate(secret, digest, {
+      hash: options.nonceHash,
+      extraEntropy: options.extraEntropy
+    });
     
     // Sign using the generated k
-    return Secp256k1EcdsaSignature.signWithK(hashImpl, message, k, privkey);
+    return Secp256k1EcdsaSignature.signDigestWithK(digest, k, privkey);
+  }
+
+  /**
+   * Sign a streamed message, such as a large file, using RFC6979 deterministic nonce generation
+   * @param hashImpl - The streaming hash implementation to use
+   * @param stream - The message bytes, as an async iterable or a Node.js or Web stream
+   * @param privkey - The private key
+   * @param length - The total message length, required by `BSM` and `ESM`
+   * @param options - The nonce HMAC hash and extra entropy
+   * @returns The signature, including its recovery id
+   */
+  static async signStream(
+    hashImpl: Secp256k1EcdsaStreamingHash,
+    stream: Secp256k1EcdsaByteStream,
+    privkey: Uint8Array | Secp256k1EcdsaPrivateKey,
+    length?: number,
+    options: Secp256k1EcdsaSignOptions = {}
+  ): Promise<Secp256k1EcdsaSignature> {
+    return Secp256k1EcdsaSignature.signDigest(await hashStream(hashImpl, stream, length), privkey, options);
   }
 
   /**
@@ -112,26 +278,8 @@ export class Secp256k1EcdsaSignature {
   normalizeS(): Secp256k1EcdsaSignature {
     const s = this.s();
     
-    // Convert to BN for comparison with N_DIV_2
-    const sBN = Buffer.from(s);
-    const nDiv2Array = Curve.N_DIV_2.toArray('be', 32); // Ensure fixed length array
-    const nDiv2Buf = Buffer.from(nDiv2Array);
-    
     // Check if s > N/2
-    let shouldNegate = false;
-    if (sBN.length > nDiv2Buf.length) {
-      shouldNegate = true;
-    } else if (sBN.length === nDiv2Buf.length) {
-      for (let i = 0; i < sBN.length; i++) {
-        if (sBN[i] > nDiv2Buf[i]) {
-          shouldNegate = true;
-          break;
-        }
-        if (sBN[i] < nDiv2Buf[i]) {
-          break;
-        }
-      }
-    }
+    const shouldNegate = !this.isLowS();
     
     if (shouldNegate) {
       // Compute the negated s (n - s)
@@ -142,7 +290,10 @@ export class Secp256k1EcdsaSignature {
       signature.set(this.r(), 0);
       signature.set(negS, 32);
       
-      return new Secp256k1EcdsaSignature(signature);
+      // Negating s negates R, which flips the parity of its y-coordinate
+      const recoveryId = this.recoveryId === undefined ? undefined : this.recoveryId ^ 1;
+      
+      return new Secp256k1EcdsaSignature(signature, recoveryId);
     }
     
     // No need to normalize
@@ -159,40 +310,221 @@ export class Secp256k1EcdsaSignature {
   verify<H extends Secp256k1EcdsaHash>(
     hashImpl: H,
     message: Uint8Array,
-    pubkey: { x: Uint8Array, y: Uint8Array }
+    pubkey: Secp256k1EcdsaPublicKey | { x: Uint8Array, y: Uint8Array }
   ): boolean {
     try {
-      // Hash message
-      const h = hashImpl.hash(message);
-      
-      // s1 = s^-1 % N
-      const s1 = Curve.modInvN(this.s());
-      
-      // R' = (h * s1) * G + (r * s1) * pubKey
-      const rMulS1 = Curve.mulModN(this.r(), s1);
-      
-      // ecmul pubkey by r*s1
-      const point = Curve.ecMul(pubkey, rMulS1);
-      
-      // Calculate h * s1
-      const hMulS1 = Curve.mulModN(h, s1);
-      
-      // Tweak our point by h*s1
-      const recoveredPoint = point.tweak(hMulS1);
+      return this.verifyDigest(hashImpl.hash(message), pubkey);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Verify a signature over a 32-byte digest
+   * @param digest - The message hash, computed by the caller
+   * @param pubkey - The public key to verify against
+   * @returns True if the signature is valid, false for any invalid signature or public key
+   */
+  verifyDigest(
+    digest: Uint8Array,
+    pubkey: Secp256k1EcdsaPublicKey | { x: Uint8Array, y: Uint8Array }
+  ): boolean {
+    Secp256k1EcdsaSignature.assertDigest(digest);
+
+    try {
+      // R' = (h * s1) * G + (r * s1) * pubKey, compared against r
+      return Curve.verifyPrepared(Curve.preparePoint(pubkey), digest, this.r(), this.s());
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Verify a signature over a streamed message
+   * @param hashImpl - The streaming hash implementation to use
+   * @param stream - The message bytes, as an async iterable or a Node.js or Web stream
+   * @param pubkey - The public key to verify against
+   * @param length - The total message length, required by `BSM` and `ESM`
+   * @returns True if the signature is valid; rejects if the stream fails or does not match `length`
+   */
+  async verifyStream(
+    hashImpl: Secp256k1EcdsaStreamingHash,
+    stream: Secp256k1EcdsaByteStream,
+    pubkey: Secp256k1EcdsaPublicKey | { x: Uint8Array, y: Uint8Array },
+    length?: number
+  ): Promise<boolean> {
+    return this.verifyDigest(await hashStream(hashImpl, stream, length), pubkey);
+  }
+
+  /**
+   * Verify a signature, rejecting malleable and malformed inputs that `verify` accepts
+   * @param hashImpl - The hash implementation to use, which must produce 32 bytes
+   * @param message - The message that was signed
+   * @param pubkey - The public key to verify against
+   * @param options - Whether to require a low s value
+   * @returns True if the signature is valid
+   */
+  verifyStrict<H extends Secp256k1EcdsaHash>(
+    hashImpl: H,
+    message: Uint8Array,
+    pubkey: Secp256k1EcdsaPublicKey | { x: Uint8Array, y: Uint8Array },
+    options: Secp256k1EcdsaVerifyOptions = {}
+  ): boolean {
+    return this.verifyDetailed(hashImpl, message, pubkey, options).valid;
+  }
+
+  /**
+   * Verify a signature with the same checks as `verifyStrict`, reporting why it was rejected
+   * @param hashImpl - The hash implementation to use, which must produce 32 bytes
+   * @param message - The message that was signed
+   * @param pubkey - The public key to verify against
+   * @param options - Whether to require a low s value
+   * @returns The result, with a reason code from `Secp256k1EcdsaError` when invalid
+   */
+  verifyDetailed<H extends Secp256k1EcdsaHash>(
+    hashImpl: H,
+    message: Uint8Array,
+    pubkey: Secp256k1EcdsaPublicKey | { x: Uint8Array, y: Uint8Array },
+    options: Secp256k1EcdsaVerifyOptions = {}
+  ): Secp256k1EcdsaVerifyResult {
+    let h: Uint8Array;
+    try {
+      h = hashImpl.hash(message);
+    } catch (error) {
+      // Hash implementations report malformed input, such as EIP-712 data, with a typed error
+      if (error instanceof Secp256k1EcdsaException) {
+        return { valid: false, reason: error.code, message: error.message };
+      }
+      throw error;
+    }
+
+    return this.verifyDigestDetailed(h, pubkey, options);
+  }
+
+  /**
+   * Verify a signature over a 32-byte digest with the same checks as `verifyStrict`
+   * @param digest - The message hash, computed by the caller
+   * @param pubkey - The public key to verify against
+   * @param options - Whether to require a low s value
+   * @returns The result, with a reason code from `Secp256k1EcdsaError` when invalid
+   */
+  verifyDigestDetailed(
+    digest: Uint8Array,
+    pubkey: Secp256k1EcdsaPublicKey | { x: Uint8Array, y: Uint8Array },
+    options: Secp256k1EcdsaVerifyOptions = {}
+  ): Secp256k1EcdsaVerifyResult {
+    const reject = (reason: Secp256k1EcdsaError, detail: string): Secp256k1EcdsaVerifyResult => ({
+      valid: false,
+      reason,
+      message: detail
+    });
+
+    if (digest.length !== SECP256K1_ECDSA_HASH_LENGTH) {
+      return reject(Secp256k1EcdsaError.InvalidHashLength, `Invalid hash length: ${digest.length}`);
+    }
+
+    // r and s must both be in [1, N-1]
+    for (const [name, scalar] of [['r', this.r()], ['s', this.s()]] as const) {
+      if (scalar.every(b => b === 0) || Curve.gteN(scalar)) {
+        return reject(Secp256k1EcdsaError.ScalarOutOfRange, `Signature ${name} is not in [1, N-1]`);
+      }
+    }
+
+    if ((options.lowS ?? true) && !this.isLowS()) {
+      return reject(Secp256k1EcdsaError.HighS, 'Signature s is above N/2');
+    }
+
+    const { x, y } = pubkey;
+    if (x.length !== 32 || y.length !== 32) {
+      return reject(Secp256k1EcdsaError.InvalidPublicKey, 'Public key coordinates must be 32 bytes');
+    }
+    if (x.every(b => b === 0) && y.every(b => b === 0)) {
+      return reject(Secp256k1EcdsaError.PointAtInfinity, 'Public key is the point at infinity');
+    }
+    if (!Curve.isOnCurve({ x, y })) {
+      return reject(Secp256k1EcdsaError.PointNotOnCurve, 'Public key is not on the curve');
+    }
+
+    // R' = (h * s1) * G + (r * s1) * pubKey
+    const pointX = Curve.verifyPoint(Curve.preparePoint({ x, y }), digest, this.r(), this.s());
+    if (pointX === null) {
+      return reject(Secp256k1EcdsaError.PointAtInfinity, 'Recomputed point R is the point at infinity');
+    }
+    if (!pointX.every((byte, i) => byte === this.signature[i])) {
+      return reject(Secp256k1EcdsaError.SignatureMismatch, 'Signature does not match the message and public key');
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Check whether s is at most N/2, the canonical form produced by `normalizeS`
+   * @returns True if the signature has a low s value
+   */
+  isLowS(): boolean {
+    return BigInt('0x' + Buffer.from(this.s()).toString('hex')) <= Curve.N_DIV_2;
+  }
+
+  /**
+   * Recover the public key that produced this signature
+   * @param hashImpl - The hash implementation to use
+   * @param message - The message that was signed
+   * @param recoveryId - The recovery id (0-3), defaults to the one stored on the signature
+   * @returns The public key of the signer
+   */
+  recover<H extends Secp256k1EcdsaHash>(
+    hashImpl: H,
+    message: Uint8Array,
+    recoveryId: number | undefined = this.recoveryId
+  ): Secp256k1EcdsaPublicKey {
+    return this.recoverDigest(hashImpl.hash(message), recoveryId);
+  }
+
+  /**
+   * Recover the public key that signed a 32-byte digest
+   * @param digest - The message hash, computed by the caller
+   * @param recoveryId - The recovery id (0-3), defaults to the one stored on the signature
+   * @returns The public key of the signer
+   */
+  recoverDigest(
+    digest: Uint8Array,
+    recoveryId: number | undefined = this.recoveryId
+  ): Secp256k1EcdsaPublicKey {
+    Secp256k1EcdsaSignature.assertDigest(digest);
+
+    if (recoveryId === undefined) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidRecoveryId,
+        'Recovery id is required to recover the public key'
+      );
+    }
+    Secp256k1EcdsaSignature.assertRecoveryId(recoveryId);
+    
+    // r and s must both be in [1, N-1]
+    for (const scalar of [this.r(), this.s()]) {
+      if (scalar.every(b => b === 0) || Curve.gteN(scalar)) {
+        throw new Secp256k1EcdsaException(Secp256k1EcdsaError.InvalidSignature);
+      }
+    }
+    
+    try {
+      // Reconstruct R from r and the recovery id
+      const point = Curve.liftR(this.r(), recoveryId);
       
-      // Compare r to x coordinate of recovered point
-      const rDigest = Buffer.from(this.r());
-      const pointX = Buffer.from(recoveredPoint.x);
+      // r1 = r^-1 % N
+      const r1 = Curve.modInvN(this.r());
       
-      for (let i = 0; i < 32; i++) {
-        if (rDigest[i] !== pointX[i]) {
-          return false;
-        }
-      }
+      // Q = (s * r1) * R + (-h * r1) * G
+      const sMulR1 = Curve.mulModN(this.s(), r1);
+      const negHMulR1 = Curve.negateN(Curve.mulModN(digest, r1));
+      const pubkey = Curve.ecMul(point, sMulR1).tweak(negHMulR1);
       
-      return true;
+      return new Secp256k1EcdsaPublicKey(pubkey.x, pubkey.y);
     } catch (error) {
-      return false;
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidSignature,
+        'Unable to recover public key from signature'
+      );
     }
   }
 
@@ -214,4 +546,30 @@ export class Secp256k1EcdsaSignature {
     
     return true;
   }
+
+  /**
+   * Ensure a digest is exactly 32 bytes
+   * @param digest - The digest to check
+   */
+  private static assertDigest(digest: Uint8Array): void {
+    if (digest.length !== SECP256K1_ECDSA_HASH_LENGTH) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidHashLength,
+        `Invalid hash length: ${digest.length}`
+      );
+    }
+  }
+
+  /**
+   * Ensure a recovery id is an integer between 0 and 3
+   * @param recoveryId - The recovery id to check
+   */
+  private static assertRecoveryId(recoveryId: number): void {
+    if (!Number.isInteger(recoveryId) || recoveryId < 0 || recoveryId > 3) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidRecoveryId,
+        `Invalid recovery id: ${recoveryId}`
+      );
+    }
+  }
 } 
\ No newline at end of file
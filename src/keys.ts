@@ -0,0 +1,277 @@
+import { Curve } from './utils';
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from './errors';
+
+// Key lengths
+export const SECP256K1_PRIVATE_KEY_LENGTH = 32;
+export const SECP256K1_PUBLIC_KEY_COMPRESSED_LENGTH = 33;
+export const SECP256K1_PUBLIC_KEY_UNCOMPRESSED_LENGTH = 65;
+export const SECP256K1_PUBLIC_KEY_RAW_LENGTH = 64;
+
+// Anything accepted where a public key is expected: an instance, SEC1/raw bytes or coordinates
+export type Secp256k1EcdsaPublicKeyLike = Secp256k1EcdsaPublicKey | Uint8Array | { x: Uint8Array, y: Uint8Array };
+
+/**
+ * Secp256k1EcdsaPrivateKey
+ * A secret scalar in the range [1, N-1].
+ */
+export class Secp256k1EcdsaPrivateKey {
+  private readonly secret: Uint8Array;
+
+  /**
+   * Create a private key from a 32-byte array
+   * @param secret - The private key bytes
+   */
+  constructor(secret: Uint8Array) {
+    if (secret.length !== SECP256K1_PRIVATE_KEY_LENGTH) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidSecretKey,
+        `Invalid private key length: ${secret.length}`
+      );
+    }
+
+    if (!Curve.isValidScalar(secret)) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidSecretKey,
+        'Private key must be in the range [1, N-1]'
+      );
+    }
+
+    this.secret = Uint8Array.from(secret);
+  }
+
+  /**
+   * Accept either raw private key bytes or a private key instance
+   * @param privkey - The private key
+   * @returns The private key instance
+   */
+  static from(privkey: Uint8Array | Secp256k1EcdsaPrivateKey): Secp256k1EcdsaPrivateKey {
+    return privkey instanceof Secp256k1EcdsaPrivateKey ? privkey : new Secp256k1EcdsaPrivateKey(privkey);
+  }
+
+  /**
+   * Generate a new private key from a cryptographically secure random source
+   * @returns The private key
+   */
+  static generate(): Secp256k1EcdsaPrivateKey {
+    const secret = new Uint8Array(SECP256K1_PRIVATE_KEY_LENGTH);
+
+    // Rejection sampling: retry the (astronomically unlikely) out-of-range values
+    do {
+      crypto.getRandomValues(secret);
+    } while (!Curve.isValidScalar(secret));
+
+    return new Secp256k1EcdsaPrivateKey(secret);
+  }
+
+  /**
+   * Derive the public key for this private key
+   * @returns The public key
+   */
+  publicKey(): Secp256k1EcdsaPublicKey {
+    const point = Curve.mulGPoint(this.secret);
+
+    return new Secp256k1EcdsaPublicKey(point.x, point.y);
+  }
+
+  /**
+   * Get the private key bytes
+   * @returns A copy of the 32-byte private key
+   */
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.secret);
+  }
+
+  /**
+   * Compare this private key to another
+   * @param other - The other private key
+   * @returns True if the keys are equal
+   */
+  equals(other: Secp256k1EcdsaPrivateKey): boolean {
+    return bytesEqual(this.secret, other.secret);
+  }
+}
+
+/**
+ * Secp256k1EcdsaPublicKey
+ * A point on the secp256k1 curve, with SEC1 encodings.
+ */
+export class Secp256k1EcdsaPublicKey {
+  /**
+   * Create a public key from its affine coordinates
+   * @param x - The x-coordinate as a 32-byte array
+   * @param y - The y-coordinate as a 32-byte array
+   */
+  constructor(public readonly x: Uint8Array, public readonly y: Uint8Array) {
+    if (x.length !== 32 || y.length !== 32 || !Curve.isOnCurve({ x, y })) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidPublicKey,
+        'Public key is not a point on the curve'
+      );
+    }
+  }
+
+  /**
+   * Parse a public key from its compressed (33 bytes), uncompressed (65 bytes)
+   * or raw x||y (64 bytes) encoding
+   * @param bytes - The encoded public key
+   * @returns The public key
+   */
+  static fromBytes(bytes: Uint8Array): Secp256k1EcdsaPublicKey {
+    switch (bytes.length) {
+      case SECP256K1_PUBLIC_KEY_COMPRESSED_LENGTH: {
+        if (bytes[0] !== 0x02 && bytes[0] !== 0x03) {
+          break;
+        }
+
+        try {
+          const point = Curve.liftX(bytes.slice(1), bytes[0] === 0x03);
+          return new Secp256k1EcdsaPublicKey(point.x, point.y);
+        } catch (error) {
+          throw new Secp256k1EcdsaException(
+            Secp256k1EcdsaError.InvalidPublicKey,
+            'Public key is not a point on the curve'
+          );
+        }
+      }
+      case SECP256K1_PUBLIC_KEY_UNCOMPRESSED_LENGTH:
+        if (bytes[0] !== 0x04) {
+          break;
+        }
+        return new Secp256k1EcdsaPublicKey(bytes.slice(1, 33), bytes.slice(33, 65));
+      case SECP256K1_PUBLIC_KEY_RAW_LENGTH:
+        return new Secp256k1EcdsaPublicKey(bytes.slice(0, 32), bytes.slice(32, 64));
+      default:
+        throw new Secp256k1EcdsaException(
+          Secp256k1EcdsaError.InvalidPublicKey,
+          `Invalid public key length: ${bytes.length}`
+        );
+    }
+
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidPublicKey,
+      `Invalid public key prefix: ${bytes[0]}`
+    );
+  }
+
+  /**
+   * Accept a public key instance, an encoded public key or raw coordinates
+   * @param pubkey - The public key
+   * @returns The public key instance
+   */
+  static from(pubkey: Secp256k1EcdsaPublicKeyLike): Secp256k1EcdsaPublicKey {
+    if (pubkey instanceof Secp256k1EcdsaPublicKey) {
+      return pubkey;
+    }
+
+    if (pubkey instanceof Uint8Array) {
+      return Secp256k1EcdsaPublicKey.fromBytes(pubkey);
+    }
+
+    return new Secp256k1EcdsaPublicKey(pubkey.x, pubkey.y);
+  }
+
+  /**
+   * Derive the public key of a private key
+   * @param privkey - The private key
+   * @returns The public key
+   */
+  static fromPrivateKey(privkey: Uint8Array | Secp256k1EcdsaPrivateKey): Secp256k1EcdsaPublicKey {
+    return Secp256k1EcdsaPrivateKey.from(privkey).publicKey();
+  }
+
+  /**
+   * Serialize the public key in SEC1 compressed form
+   * @returns The 33-byte encoding (0x02/0x03 || x)
+   */
+  toCompressed(): Uint8Array {
+    const bytes = new Uint8Array(SECP256K1_PUBLIC_KEY_COMPRESSED_LENGTH);
+    bytes[0] = (this.y[31] & 1) === 1 ? 0x03 : 0x02;
+    bytes.set(this.x, 1);
+
+    return bytes;
+  }
+
+  /**
+   * Serialize the public key in SEC1 uncompressed form
+   * @returns The 65-byte encoding (0x04 || x || y)
+   */
+  toUncompressed(): Uint8Array {
+    const bytes = new Uint8Array(SECP256K1_PUBLIC_KEY_UNCOMPRESSED_LENGTH);
+    bytes[0] = 0x04;
+    bytes.set(this.x, 1);
+    bytes.set(this.y, 33);
+
+    return bytes;
+  }
+
+  /**
+   * Serialize the public key as raw coordinates
+   * @returns The 64-byte encoding (x || y)
+   */
+  toRaw(): Uint8Array {
+    const bytes = new Uint8Array(SECP256K1_PUBLIC_KEY_RAW_LENGTH);
+    bytes.set(this.x, 0);
+    bytes.set(this.y, 32);
+
+    return bytes;
+  }
+
+  /**
+   * Compare this public key to another
+   * @param other - The other public key
+   * @returns True if the keys are equal
+   */
+  equals(other: { x: Uint8Array, y: Uint8Array }): boolean {
+    return bytesEqual(this.x, other.x) && bytesEqual(this.y, other.y);
+  }
+}
+
+/**
+ * Secp256k1EcdsaKeypair
+ * A private key together with its derived public key.
+ */
+export class Secp256k1EcdsaKeypair {
+  public readonly publicKey: Secp256k1EcdsaPublicKey;
+
+  /**
+   * Create a keypair from a private key
+   * @param privateKey - The private key
+   */
+  constructor(public readonly privateKey: Secp256k1EcdsaPrivateKey) {
+    this.publicKey = privateKey.publicKey();
+  }
+
+  /**
+   * Generate a new random keypair
+   * @returns The keypair
+   */
+  static generate(): Secp256k1EcdsaKeypair {
+    return new Secp256k1EcdsaKeypair(Secp256k1EcdsaPrivateKey.generate());
+  }
+
+  /**
+   * Create a keypair from 32 private key bytes
+   * @param secret - The private key bytes
+   * @returns The keypair
+   */
+  static fromSecretKey(secret: Uint8Array): Secp256k1EcdsaKeypair {
+    return new Secp256k1EcdsaKeypair(new Secp256k1EcdsaPrivateKey(secret));
+  }
+}
+
+/**
+ * Compare two byte arrays
+ */
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,4 @@
+/**
+ * Keystore Modules - password-encrypted private key storage
+ */
+export * from './keystore';
@@ -0,0 +1,445 @@
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes, randomUUID, scryptSync, timingSafeEqual } from 'node:crypto';
+import { EthereumAddress } from '../address';
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import { Keccak } from '../hash';
+import { Secp256k1EcdsaPrivateKey } from '../keys';
+
+// Key derivation functions of the V3 format
+export type KeystoreKdf = 'scrypt' | 'pbkdf2';
+
+/**
+ * scrypt parameters as stored in a keystore
+ */
+export interface KeystoreScryptParams {
+  dklen: number;
+  n: number;
+  r: number;
+  p: number;
+  salt: string;
+}
+
+/**
+ * PBKDF2 parameters as stored in a keystore; only HMAC-SHA256 is defined
+ */
+export interface KeystorePbkdf2Params {
+  dklen: number;
+  c: number;
+  prf: 'hmac-sha256';
+  salt: string;
+}
+
+/**
+ * A Web3 Secret Storage (V3 keystore) document, as written by geth and ethers
+ */
+export interface KeystoreV3 {
+  version: 3;
+  id: string;
+  // The lowercase address without 0x
+  address?: string;
+  crypto: {
+    cipher: 'aes-128-ctr';
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: KeystoreKdf;
+    kdfparams: KeystoreScryptParams | KeystorePbkdf2Params;
+    mac: string;
+  };
+}
+
+/**
+ * Options for encrypting a keystore
+ */
+export interface KeystoreEncryptOptions {
+  // The key derivation function (default 'scrypt')
+  kdf?: KeystoreKdf;
+  // scrypt cost parameters (default n = 262144, r = 8, p = 1, as geth, which are also the largest n and r accepted)
+  n?: number;
+  r?: number;
+  p?: number;
+  // PBKDF2 iterations (default 262144, at most 1048576)
+  c?: number;
+  // 32-byte KDF salt, random by default
+  salt?: Uint8Array;
+  // 16-byte AES-CTR IV, random by default
+  iv?: Uint8Array;
+  // The document UUID, random by default
+  id?: string;
+}
+
+// Derived key length; the first half keys AES-128, the second half the MAC
+const DERIVED_KEY_LENGTH = 32;
+
+// Default work factors of geth's standard settings
+const DEFAULT_SCRYPT = { n: 262144, r: 8, p: 1 };
+const DEFAULT_PBKDF2_ITERATIONS = 262144;
+
+// Largest scrypt parameters accepted: geth's standard n and r, and geth's light p = 6 with headroom.
+// Keystores are untrusted, so these bound the memory decryption may use before the MAC is checked
+const MAX_SCRYPT = { n: 262144, r: 8, p: 16 };
+const SCRYPT_MAX_MEMORY = 256 * MAX_SCRYPT.n * MAX_SCRYPT.r + 1024 * 1024;
+
+// Largest PBKDF2 iteration count accepted, four times the default, bounding the time spent before the MAC check
+const MAX_PBKDF2_ITERATIONS = 1048576;
+
+/**
+ * Encrypt a private key as a Web3 Secret Storage V3 keystore
+ * @param privkey - The private key to encrypt
+ * @param password - The password, NFKC-normalized if a string, as ethers does
+ * @param options - The KDF, its cost parameters, and fixed salt, IV or id
+ * @returns The keystore document, ready for `JSON.stringify`
+ */
+export function encryptKeystore(
+  privkey: Uint8Array | Secp256k1EcdsaPrivateKey,
+  password: string | Uint8Array,
+  options: KeystoreEncryptOptions = {}
+): KeystoreV3 {
+  const privateKey = Secp256k1EcdsaPrivateKey.from(privkey);
+  const salt = options.salt ?? new Uint8Array(randomBytes(32));
+  const iv = options.iv ?? new Uint8Array(randomBytes(16));
+  if (iv.length !== 16) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidKeystore,
+      `Invalid keystore IV length: ${iv.length}`
+    );
+  }
+
+  const kdf = options.kdf ?? 'scrypt';
+  let kdfparams: KeystoreScryptParams | KeystorePbkdf2Params;
+  if (kdf === 'scrypt') {
+    kdfparams = {
+      dklen: DERIVED_KEY_LENGTH,
+      n: options.n ?? DEFAULT_SCRYPT.n,
+      r: options.r ?? DEFAULT_SCRYPT.r,
+      p: options.p ?? DEFAULT_SCRYPT.p,
+      salt: toHex(salt)
+    };
+  } else if (kdf === 'pbkdf2') {
+    kdfparams = {
+      dklen: DERIVED_KEY_LENGTH,
+      c: options.c ?? DEFAULT_PBKDF2_ITERATIONS,
+      prf: 'hmac-sha256',
+      salt: toHex(salt)
+    };
+  } else {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidKeystore,
+      `Unsupported keystore KDF: ${kdf}`
+    );
+  }
+
+  const derivedKey = deriveKey(kdf, kdfparams, password);
+  const ciphertext = aes128Ctr(derivedKey, iv, privateKey.toBytes(), true);
+
+  return {
+    version: 3,
+    id: options.id ?? randomUUID(),
+    address: EthereumAddress.fromPublicKey(privateKey.publicKey()).slice(2).toLowerCase(),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      cipherparams: { iv: toHex(iv) },
+      ciphertext: toHex(ciphertext),
+      kdf,
+      kdfparams,
+      mac: toHex(computeMac(derivedKey, ciphertext))
+    }
+  };
+}
+
+/**
+ * Decrypt a Web3 Secret Storage V3 keystore, checking the MAC before decrypting
+ * @param json - The keystore as a JSON string or parsed document
+ * @param password - The password it was encrypted with
+ * @returns The private key
+ */
+export function decryptKeystore(json: string | KeystoreV3, password: string | Uint8Array): Secp256k1EcdsaPrivateKey {
+  const keystore = parseKeystore(json);
+  const { cipherparams, ciphertext, kdf, kdfparams, mac } = keystore.crypto;
+
+  const derivedKey = deriveKey(kdf, kdfparams, password);
+  const encrypted = fromHex(ciphertext, 'ciphertext');
+  const expected = fromHex(mac, 'mac');
+  if (!timingSafeEqual(computeMac(derivedKey, encrypted), expected)) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.KeystoreMacMismatch,
+      'Keystore MAC mismatch: wrong password or corrupted keystore'
+    );
+  }
+
+  const iv = fromHex(cipherparams.iv, 'iv');
+
+  let privateKey: Secp256k1EcdsaPrivateKey;
+  try {
+    privateKey = new Secp256k1EcdsaPrivateKey(aes128Ctr(derivedKey, iv, encrypted, false));
+  } catch (error) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidKeystore,
+      'Keystore does not contain a valid private key'
+    );
+  }
+
+  // The address is optional, but must belong to the key when present
+  if (keystore.address !== undefined) {
+    const address = EthereumAddress.fromPublicKey(privateKey.publicKey()).slice(2).toLowerCase();
+    if (keystore.address.toLowerCase().replace(/^0x/, '') !== address) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidKeystore,
+        'Keystore address does not match its private key'
+      );
+    }
+  }
+
+  return privateKey;
+}
+
+/**
+ * Parse and check every field of an untrusted keystore, accepting the capitalized
+ * "Crypto" key of older geth versions
+ */
+function parseKeystore(json: string | KeystoreV3): KeystoreV3 {
+  let keystore: unknown;
+  try {
+    keystore = typeof json === 'string' ? JSON.parse(json) : json;
+  } catch (error) {
+    throw invalidKeystore('Keystore is not valid JSON');
+  }
+
+  if (typeof keystore !== 'object' || keystore === null) {
+    throw invalidKeystore('Keystore is not a JSON object');
+  }
+
+  const version = getField(keystore, 'version');
+  if (version !== 3) {
+    throw invalidKeystore(`Unsupported keystore version: ${version}`);
+  }
+
+  const id = getField(keystore, 'id');
+  if (typeof id !== 'string') {
+    throw invalidKeystore('Keystore id must be a string');
+  }
+
+  const address = getField(keystore, 'address');
+  if (address !== undefined && (typeof address !== 'string' || !/^(0x)?[0-9a-fA-F]{40}$/.test(address))) {
+    throw invalidKeystore('Keystore address must be 20 bytes of hex');
+  }
+
+  const crypto = getField(keystore, 'crypto') ?? getField(keystore, 'Crypto');
+  if (typeof crypto !== 'object' || crypto === null) {
+    throw invalidKeystore('Keystore is missing its crypto section');
+  }
+
+  const cipher = getField(crypto, 'cipher');
+  if (cipher !== 'aes-128-ctr') {
+    throw invalidKeystore(`Unsupported keystore cipher: ${cipher}`);
+  }
+
+  const cipherparams = getField(crypto, 'cipherparams');
+  const iv = typeof cipherparams === 'object' && cipherparams !== null ? getField(cipherparams, 'iv') : undefined;
+
+  return {
+    version,
+    id,
+    ...(typeof address === 'string' ? { address } : {}),
+    crypto: {
+      cipher,
+      cipherparams: { iv: checkHex(iv, 'iv', 16) },
+      ciphertext: checkHex(getField(crypto, 'ciphertext'), 'ciphertext', 32),
+      ...parseKdf(crypto),
+      mac: checkHex(getField(crypto, 'mac'), 'mac', 32)
+    }
+  };
+}
+
+/**
+ * Check the KDF name and its parameters
+ */
+function parseKdf(crypto: object): Pick<KeystoreV3['crypto'], 'kdf' | 'kdfparams'> {
+  const kdf = getField(crypto, 'kdf');
+  const params = getField(crypto, 'kdfparams');
+  if (typeof params !== 'object' || params === null) {
+    throw invalidKeystore('Keystore is missing its KDF parameters');
+  }
+
+  const dklen = checkNumber(getField(params, 'dklen'), 'dklen');
+  const salt = checkHex(getField(params, 'salt'), 'salt');
+
+  if (kdf === 'scrypt') {
+    return {
+      kdf,
+      kdfparams: {
+        dklen,
+        n: checkNumber(getField(params, 'n'), 'n'),
+        r: checkNumber(getField(params, 'r'), 'r'),
+        p: checkNumber(getField(params, 'p'), 'p'),
+        salt
+      }
+    };
+  }
+
+  if (kdf === 'pbkdf2') {
+    const prf = getField(params, 'prf');
+    if (prf !== 'hmac-sha256') {
+      throw invalidKeystore(`Unsupported keystore PRF: ${prf}`);
+    }
+
+    return { kdf, kdfparams: { dklen, c: checkNumber(getField(params, 'c'), 'c'), prf, salt } };
+  }
+
+  throw invalidKeystore(`Unsupported keystore KDF: ${kdf}`);
+}
+
+/**
+ * Derive the 32-byte key with the keystore's KDF
+ */
+function deriveKey(
+  kdf: KeystoreKdf,
+  params: KeystoreScryptParams | KeystorePbkdf2Params,
+  password: string | Uint8Array
+): Uint8Array {
+  const secret = typeof password === 'string' ? new TextEncoder().encode(password.normalize('NFKC')) : password;
+  const salt = fromHex(params.salt, 'salt');
+  if (params.dklen !== DERIVED_KEY_LENGTH) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidKeystore,
+      `Unsupported keystore key length: ${params.dklen}`
+    );
+  }
+
+  if (kdf === 'scrypt') {
+    const { n, r, p } = params as KeystoreScryptParams;
+    checkScryptParams(n, r, p);
+  } else if (kdf === 'pbkdf2') {
+    const { c } = params as KeystorePbkdf2Params;
+    if (!Number.isSafeInteger(c) || c < 1 || c > MAX_PBKDF2_ITERATIONS) {
+      throw invalidKeystore(`Unsupported keystore PBKDF2 iteration count: ${c}`);
+    }
+  }
+
+  try {
+    if (kdf === 'scrypt') {
+      const { n, r, p } = params as KeystoreScryptParams;
+
+      // Node's default 32 MiB limit is below geth's standard n = 2^18, r = 8
+      return new Uint8Array(scryptSync(secret, salt, DERIVED_KEY_LENGTH, {
+        N: n,
+        r,
+        p,
+        maxmem: SCRYPT_MAX_MEMORY
+      }));
+    }
+
+    if (kdf === 'pbkdf2') {
+      const { c, prf } = params as KeystorePbkdf2Params;
+      if (prf !== 'hmac-sha256') {
+        throw new Error(`Unsupported PRF: ${prf}`);
+      }
+
+      return new Uint8Array(pbkdf2Sync(secret, salt, c, DERIVED_KEY_LENGTH, 'sha256'));
+    }
+  } catch (error) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidKeystore,
+      `Invalid keystore KDF parameters: ${(error as Error).message}`
+    );
+  }
+
+  throw new Secp256k1EcdsaException(
+    Secp256k1EcdsaError.InvalidKeystore,
+    `Unsupported keystore KDF: ${kdf}`
+  );
+}
+
+/**
+ * Ensure scrypt parameters are within the accepted limits; n must be a power of two
+ */
+function checkScryptParams(n: number, r: number, p: number): void {
+  const inRange = (value: number, max: number) => Number.isSafeInteger(value) && value >= 1 && value <= max;
+  if (!inRange(n, MAX_SCRYPT.n) || n < 2 || (n & (n - 1)) !== 0 || !inRange(r, MAX_SCRYPT.r) || !inRange(p, MAX_SCRYPT.p)) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidKeystore,
+      `Unsupported keystore scrypt parameters: n = ${n}, r = ${r}, p = ${p}`
+    );
+  }
+}
+
+/**
+ * Compute the MAC: Keccak-256(derivedKey[16..32] || ciphertext)
+ */
+function computeMac(derivedKey: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  const data = new Uint8Array(16 + ciphertext.length);
+  data.set(derivedKey.subarray(16, 32));
+  data.set(ciphertext, 16);
+
+  return new Keccak().hash(data);
+}
+
+/**
+ * Encrypt or decrypt with AES-128-CTR keyed by the first half of the derived key
+ */
+function aes128Ctr(derivedKey: Uint8Array, iv: Uint8Array, data: Uint8Array, encrypt: boolean): Uint8Array {
+  const key = derivedKey.subarray(0, 16);
+  const cipher = encrypt ? createCipheriv('aes-128-ctr', key, iv) : createDecipheriv('aes-128-ctr', key, iv);
+
+  return new Uint8Array(Buffer.concat([cipher.update(data), cipher.final()]));
+}
+
+/**
+ * Decode a hex field, accepting an optional 0x prefix
+ */
+function fromHex(hex: string, field: string): Uint8Array {
+  if (typeof hex !== 'string' || !/^(0x)?([0-9a-fA-F]{2})*$/.test(hex)) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidKeystore,
+      `Invalid keystore ${field}: expected hex`
+    );
+  }
+
+  return Uint8Array.from(Buffer.from(hex.replace(/^0x/, ''), 'hex'));
+}
+
+/**
+ * Encode bytes as lowercase hex without a prefix
+ */
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+/**
+ * Read a property of a parsed JSON object
+ */
+function getField(object: object, key: string): unknown {
+  return (object as Record<string, unknown>)[key];
+}
+
+/**
+ * Check that a field is hex, of a given byte length when one is required
+ */
+function checkHex(value: unknown, field: string, length?: number): string {
+  if (typeof value !== 'string') {
+    throw invalidKeystore(`Invalid keystore ${field}: expected hex`);
+  }
+
+  const bytes = fromHex(value, field);
+  if (length !== undefined && bytes.length !== length) {
+    throw invalidKeystore(`Invalid keystore ${field} length: ${bytes.length}`);
+  }
+
+  return value;
+}
+
+/**
+ * Check that a field is a number
+ */
+function checkNumber(value: unknown, field: string): number {
+  if (typeof value !== 'number') {
+    throw invalidKeystore(`Invalid keystore ${field}: expected a number`);
+  }
+
+  return value;
+}
+
+/**
+ * Create an exception for a malformed or unsupported keystore
+ */
+function invalidKeystore(message: string): Secp256k1EcdsaException {
+  return new Secp256k1EcdsaException(Secp256k1EcdsaError.InvalidKeystore, message);
+}
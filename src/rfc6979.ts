@@ -0,0 +1,151 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { keccak_256 } from 'js-sha3';
+import { secp256k1 } from './curve';
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from './errors';
+
+/**
+ * Hash functions that can drive the RFC6979 HMAC-DRBG
+ */
+export type Rfc6979Hash = 'sha1' | 'sha224' | 'sha256' | 'sha384' | 'sha512' | 'keccak256';
+
+/**
+ * Options for deterministic nonce generation
+ */
+export interface Rfc6979Options {
+  // The hash used for HMAC (default 'sha256', as libsecp256k1 and Ethereum wallets use, whatever hash produced the message)
+  hash?: Rfc6979Hash;
+  // Additional data mixed into the nonce (RFC6979 section 3.6), or true for 32 random bytes
+  extraEntropy?: Uint8Array | boolean;
+  // The group order, which defaults to secp256k1's
+  order?: bigint;
+}
+
+// Block size in bytes and implementation of each hash, for HMAC
+const HASHES: Record<Rfc6979Hash, { blockSize: number, hash: (data: Uint8Array) => Uint8Array }> = {
+  sha1: { blockSize: 64, hash: data => nodeHash('sha1', data) },
+  sha224: { blockSize: 64, hash: data => nodeHash('sha224', data) },
+  sha256: { blockSize: 64, hash: data => nodeHash('sha256', data) },
+  sha384: { blockSize: 128, hash: data => nodeHash('sha384', data) },
+  sha512: { blockSize: 128, hash: data => nodeHash('sha512', data) },
+  keccak256: { blockSize: 136, hash: data => new Uint8Array(keccak_256.arrayBuffer(data)) }
+};
+
+/**
+ * Generate a deterministic ECDSA nonce k as specified by RFC6979 section 3.2
+ * @param privKey - The private key x, big-endian
+ * @param message - The message hash h1
+ * @param options - The HMAC hash, extra entropy and group order
+ * @returns The nonce k in [1, q-1], big-endian and as long as the order
+ */
+export function rfc6979Generate(privKey: Uint8Array, message: Uint8Array, options: Rfc6979Options = {}): Uint8Array {
+  const q = options.order ?? secp256k1.params.n;
+  const qlen = q.toString(2).length;
+  const rlen = Math.ceil(qlen / 8);
+  const hash = HASHES[options.hash ?? 'sha256'];
+  if (!hash) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidNonce,
+      `Unsupported RFC6979 hash: ${options.hash}`
+    );
+  }
+
+  // bits2int: the leftmost qlen bits of a bit string as an integer
+  const bits2int = (bytes: Uint8Array): bigint => {
+    const value = toBigInt(bytes);
+    const blen = bytes.length * 8;
+
+    return blen > qlen ? value >> BigInt(blen - qlen) : value;
+  };
+
+  // int2octets(x) and bits2octets(h1), the latter reduced mod q
+  const x = toBytes(toBigInt(privKey), rlen);
+  const h1 = toBytes(bits2int(message) % q, rlen);
+
+  // Section 3.6: additional data follows the message hash when seeding K
+  const extra = options.extraEntropy === true
+    ? new Uint8Array(randomBytes(32))
+    : options.extraEntropy || new Uint8Array(0);
+
+  const hmac = (key: Uint8Array, ...parts: Uint8Array[]) => hmacHash(hash, key, ...parts);
+  const outlen = hash.hash(new Uint8Array(0)).length;
+
+  // Step b and c: V = 0x01 0x01 ... and K = 0x00 0x00 ...
+  let v: Uint8Array = new Uint8Array(outlen).fill(1);
+  let k: Uint8Array = new Uint8Array(outlen).fill(0);
+
+  // Step d to g: seed K and V with the private key and message hash
+  k = hmac(k, v, Uint8Array.of(0x00), x, h1, extra);
+  v = hmac(k, v);
+  k = hmac(k, v, Uint8Array.of(0x01), x, h1, extra);
+  v = hmac(k, v);
+
+  // Step h: generate candidates until one is in [1, q-1]
+  for (;;) {
+    let t: Uint8Array = new Uint8Array(0);
+    while (t.length * 8 < qlen) {
+      v = hmac(k, v);
+      t = concat(t, v);
+    }
+
+    const candidate = bits2int(t);
+    if (candidate > 0n && candidate < q) {
+      return toBytes(candidate, rlen);
+    }
+
+    k = hmac(k, v, Uint8Array.of(0x00));
+    v = hmac(k, v);
+  }
+}
+
+/**
+ * Compute HMAC (RFC2104) over the concatenation of the given parts
+ */
+function hmacHash(
+  hash: { blockSize: number, hash: (data: Uint8Array) => Uint8Array },
+  key: Uint8Array,
+  ...parts: Uint8Array[]
+): Uint8Array {
+  // Keys longer than a block are hashed first, then zero-padded to a block
+  const block = new Uint8Array(hash.blockSize);
+  block.set(key.length > hash.blockSize ? hash.hash(key) : key);
+
+  const inner = block.map(byte => byte ^ 0x36);
+  const outer = block.map(byte => byte ^ 0x5c);
+
+  return hash.hash(concat(outer, hash.hash(concat(inner, ...parts))));
+}
+
+/**
+ * Hash data with a Node.js crypto algorithm
+ */
+function nodeHash(algorithm: string, data: Uint8Array): Uint8Array {
+  return new Uint8Array(createHash(algorithm).update(data).digest());
+}
+
+/**
+ * Concatenate byte arrays
+ */
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+
+  return result;
+}
+
+/**
+ * Convert a big-endian Uint8Array to a bigint
+ */
+function toBigInt(bytes: Uint8Array): bigint {
+  return BigInt('0x' + (Buffer.from(bytes).toString('hex') || '0'));
+}
+
+/**
+ * Convert a bigint to a big-endian Uint8Array of the given length
+ */
+function toBytes(value: bigint, length: number): Uint8Array {
+  return Uint8Array.from(Buffer.from(value.toString(16).padStart(length * 2, '0'), 'hex'));
+}
@@ -0,0 +1,5 @@
+/**
+ * Schnorr Modules - BIP340 signatures and Nostr events
+ */
+export * from './signature';
+export * from './nostr';
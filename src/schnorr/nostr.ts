@@ -0,0 +1,81 @@
+import { createHash } from 'node:crypto';
+import type { Secp256k1EcdsaPrivateKey } from '../keys';
+import { Secp256k1SchnorrSignature } from './signature';
+
+/**
+ * The fields of a Nostr event chosen by its author
+ */
+export interface NostrEventTemplate {
+  kind: number;
+  // Unix timestamp in seconds
+  created_at: number;
+  tags: string[][];
+  content: string;
+}
+
+/**
+ * A signed Nostr event (NIP-01)
+ */
+export interface NostrEvent extends NostrEventTemplate {
+  // Lowercase hex SHA256 of the serialized event
+  id: string;
+  // Lowercase hex x-only public key of the author
+  pubkey: string;
+  // Lowercase hex BIP340 signature of the id
+  sig: string;
+}
+
+/**
+ * Compute a Nostr event id: SHA256 of the JSON array [0, pubkey, created_at, kind, tags, content]
+ * @param event - The event with its author's public key
+ * @returns The id as lowercase hex
+ */
+export function getNostrEventId(event: NostrEventTemplate & { pubkey: string }): string {
+  const serialized = JSON.stringify([0, event.pubkey, event.created_at, event.kind, event.tags, event.content]);
+
+  return createHash('sha256').update(serialized, 'utf8').digest('hex');
+}
+
+/**
+ * Sign a Nostr event, filling in its pubkey, id and sig
+ * @param event - The event to sign
+ * @param privkey - The author's private key
+ * @param auxRand - 32 bytes of auxiliary randomness, fresh random bytes by default
+ * @returns The signed event
+ */
+export function signNostrEvent(
+  event: NostrEventTemplate,
+  privkey: Uint8Array | Secp256k1EcdsaPrivateKey,
+  auxRand?: Uint8Array
+): NostrEvent {
+  const pubkey = Buffer.from(Secp256k1SchnorrSignature.getPublicKey(privkey)).toString('hex');
+  const { kind, created_at, tags, content } = event;
+  const id = getNostrEventId({ kind, created_at, tags, content, pubkey });
+  const signature = Secp256k1SchnorrSignature.sign(fromHex(id), privkey, auxRand);
+
+  return { kind, created_at, tags, content, id, pubkey, sig: Buffer.from(signature.signature).toString('hex') };
+}
+
+/**
+ * Verify a Nostr event: its id must match its contents and its sig the id
+ * @param event - The signed event
+ * @returns True if the id and signature are valid
+ */
+export function verifyNostrEvent(event: NostrEvent): boolean {
+  const hex = /^[0-9a-f]*$/;
+  if (event.id !== getNostrEventId(event) || event.pubkey.length !== 64 || event.sig.length !== 128
+    || !hex.test(event.pubkey) || !hex.test(event.sig)) {
+    return false;
+  }
+
+  const signature = new Secp256k1SchnorrSignature(fromHex(event.sig));
+
+  return signature.verify(fromHex(event.id), fromHex(event.pubkey));
+}
+
+/**
+ * Decode a hex string
+ */
+function fromHex(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex, 'hex'));
+}
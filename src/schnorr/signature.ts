@@ -0,0 +1,215 @@
+import { randomBytes } from 'node:crypto';
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import { TaggedHash } from '../hash';
+import { Secp256k1EcdsaPrivateKey, Secp256k1EcdsaPublicKey, type Secp256k1EcdsaPublicKeyLike } from '../keys';
+import { Curve } from '../utils';
+
+// Signature length
+export const SECP256K1_SCHNORR_SIGNATURE_LENGTH = 64;
+
+// x-only public key length
+export const SECP256K1_SCHNORR_PUBLIC_KEY_LENGTH = 32;
+
+// The tagged hashes of BIP340
+const AUX_HASH = new TaggedHash('BIP0340/aux');
+const NONCE_HASH = new TaggedHash('BIP0340/nonce');
+const CHALLENGE_HASH = new TaggedHash('BIP0340/challenge');
+
+/**
+ * Secp256k1SchnorrSignature
+ * A BIP340 Schnorr signature (R.x || s) over x-only public keys, as used by Taproot and Nostr.
+ * Messages are signed as-is, at any length; BIP340 leaves hashing them to the protocol.
+ */
+export class Secp256k1SchnorrSignature {
+  /**
+   * Create a new signature from a 64-byte array
+   * @param signature - The signature bytes
+   */
+  constructor(public readonly signature: Uint8Array) {
+    if (signature.length !== SECP256K1_SCHNORR_SIGNATURE_LENGTH) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidSignature,
+        `Invalid signature length: ${signature.length}`
+      );
+    }
+  }
+
+  /**
+   * Get the r component of the signature, the x-coordinate of the nonce point R
+   * @returns The r component as a 32-byte array
+   */
+  r(): Uint8Array {
+    return this.signature.slice(0, 32);
+  }
+
+  /**
+   * Get the s component of the signature
+   * @returns The s component as a 32-byte array
+   */
+  s(): Uint8Array {
+    return this.signature.slice(32, 64);
+  }
+
+  /**
+   * Derive the x-only public key of a private key
+   * @param privkey - The private key
+   * @returns The 32-byte x-coordinate of the public key
+   */
+  static getPublicKey(privkey: Uint8Array | Secp256k1EcdsaPrivateKey): Uint8Array {
+    return Secp256k1EcdsaPrivateKey.from(privkey).publicKey().x;
+  }
+
+  /**
+   * Convert a public key to its x-only form, dropping the y parity
+   * @param pubkey - A public key, or a 32-byte x-only key which is checked to be on the curve
+   * @returns The 32-byte x-only public key
+   */
+  static toXOnly(pubkey: Secp256k1EcdsaPublicKeyLike): Uint8Array {
+    return Secp256k1SchnorrSignature.liftPublicKey(pubkey).x;
+  }
+
+  /**
+   * Sign a message as specified by BIP340
+   * @param message - The message, usually a 32-byte hash
+   * @param privkey - The private key
+   * @param auxRand - 32 bytes of auxiliary randomness, fresh random bytes by default
+   * @returns The signature, checked against the public key before it is returned
+   */
+  static sign(
+    message: Uint8Array,
+    privkey: Uint8Array | Secp256k1EcdsaPrivateKey,
+    auxRand: Uint8Array = new Uint8Array(randomBytes(32))
+  ): Secp256k1SchnorrSignature {
+    if (auxRand.length !== 32) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidNonce,
+        `Invalid auxiliary randomness length: ${auxRand.length}`
+      );
+    }
+
+    // Negate the key if needed so that P = d * G has an even y-coordinate
+    const privateKey = Secp256k1EcdsaPrivateKey.from(privkey);
+    const publicKey = privateKey.publicKey();
+    const d = isEven(publicKey.y) ? privateKey.toBytes() : Curve.negateN(privateKey.toBytes());
+
+    // k' = hash_nonce((d xor hash_aux(a)) || P.x || m) mod n
+    const t = AUX_HASH.hash(auxRand).map((byte, i) => byte ^ d[i]);
+    const nonce = Curve.modN(NONCE_HASH.hash(concat(t, publicKey.x, message)));
+    if (!Curve.isValidScalar(nonce)) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidNonce,
+        'Nonce is zero'
+      );
+    }
+
+    // Negate the nonce so that R = k * G has an even y-coordinate
+    const point = Curve.mulGPoint(nonce);
+    const k = isEven(point.y) ? nonce : Curve.negateN(nonce);
+
+    // s = k + e * d mod n
+    const e = Secp256k1SchnorrSignature.challenge(point.x, publicKey.x, message);
+    const signature = new Secp256k1SchnorrSignature(concat(point.x, Curve.addModN(k, Curve.mulModN(e, d))));
+
+    // BIP340 recommends verifying, to catch faults that could leak the key
+    if (!signature.verify(message, publicKey.x)) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.SignatureMismatch,
+        'Produced signature does not verify'
+      );
+    }
+
+    return signature;
+  }
+
+  /**
+   * Verify the signature as specified by BIP340
+   * @param message - The signed message
+   * @param pubkey - The 32-byte x-only public key, or any public key encoding
+   * @returns True if the signature is valid; false for invalid signatures or public keys
+   */
+  verify(message: Uint8Array, pubkey: Secp256k1EcdsaPublicKeyLike): boolean {
+    let point: Secp256k1EcdsaPublicKey;
+    try {
+      point = Secp256k1SchnorrSignature.liftPublicKey(pubkey);
+    } catch (error) {
+      return false;
+    }
+
+    const r = this.r();
+    const s = this.s();
+    if (BigInt('0x' + Buffer.from(r).toString('hex')) >= Curve.P || Curve.gteN(s)) {
+      return false;
+    }
+
+    // R = s * G - e * P must have an even y-coordinate and x equal to r
+    const e = Secp256k1SchnorrSignature.challenge(r, point.x, message);
+    let recovered: { x: Uint8Array, y: Uint8Array };
+    try {
+      recovered = Curve.ecMul(point, Curve.negateN(e)).tweak(s);
+    } catch (error) {
+      // R is the point at infinity
+      return false;
+    }
+
+    return isEven(recovered.y) && recovered.x.every((byte, i) => byte === r[i]);
+  }
+
+  /**
+   * Compare this signature to another
+   * @param other - The other signature
+   * @returns True if the signatures are equal
+   */
+  equals(other: Secp256k1SchnorrSignature): boolean {
+    return this.signature.every((byte, i) => byte === other.signature[i]);
+  }
+
+  /**
+   * Compute the challenge e = hash_challenge(R.x || P.x || m) mod n
+   */
+  private static challenge(r: Uint8Array, publicKeyX: Uint8Array, message: Uint8Array): Uint8Array {
+    return Curve.modN(CHALLENGE_HASH.hash(concat(r, publicKeyX, message)));
+  }
+
+  /**
+   * Get the point with even y-coordinate for a public key, lifting x-only keys
+   */
+  private static liftPublicKey(pubkey: Secp256k1EcdsaPublicKeyLike): Secp256k1EcdsaPublicKey {
+    let x: Uint8Array;
+    if (pubkey instanceof Uint8Array && pubkey.length === SECP256K1_SCHNORR_PUBLIC_KEY_LENGTH) {
+      x = pubkey;
+    } else {
+      x = Secp256k1EcdsaPublicKey.from(pubkey).x;
+    }
+
+    try {
+      const point = Curve.liftX(x, false);
+      return new Secp256k1EcdsaPublicKey(point.x, point.y);
+    } catch (error) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidPublicKey,
+        'x-only public key is not on the curve'
+      );
+    }
+  }
+}
+
+/**
+ * Check whether a 32-byte coordinate is even
+ */
+function isEven(y: Uint8Array): boolean {
+  return (y[31] & 1) === 0;
+}
+
+/**
+ * Concatenate byte arrays
+ */
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+
+  return result;
+}
@@ -0,0 +1,5 @@
+/**
+ * Secp256r1 Modules - NIST P-256 keys and ECDSA signatures
+ */
+export * from './keys';
+export * from './signature';
@@ -0,0 +1,197 @@
+import { P256 } from '../utils';
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+
+// Key lengths, the same as for secp256k1
+export const SECP256R1_PRIVATE_KEY_LENGTH = 32;
+export const SECP256R1_PUBLIC_KEY_COMPRESSED_LENGTH = 33;
+export const SECP256R1_PUBLIC_KEY_UNCOMPRESSED_LENGTH = 65;
+export const SECP256R1_PUBLIC_KEY_RAW_LENGTH = 64;
+
+// Anything accepted where a P-256 public key is expected: an instance, SEC1/raw bytes or coordinates
+export type Secp256r1PublicKeyLike = Secp256r1PublicKey | Uint8Array | { x: Uint8Array, y: Uint8Array };
+
+/**
+ * Secp256r1PrivateKey
+ * A P-256 secret scalar in the range [1, N-1].
+ */
+export class Secp256r1PrivateKey {
+  private readonly secret: Uint8Array;
+
+  /**
+   * Create a private key from a 32-byte array
+   * @param secret - The private key bytes
+   */
+  constructor(secret: Uint8Array) {
+    if (secret.length !== SECP256R1_PRIVATE_KEY_LENGTH) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidSecretKey,
+        `Invalid private key length: ${secret.length}`
+      );
+    }
+
+    if (!P256.isValidScalar(secret)) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidSecretKey,
+        'Private key must be in the range [1, N-1]'
+      );
+    }
+
+    this.secret = Uint8Array.from(secret);
+  }
+
+  /**
+   * Accept either raw private key bytes or a private key instance
+   * @param privkey - The private key
+   * @returns The private key instance
+   */
+  static from(privkey: Uint8Array | Secp256r1PrivateKey): Secp256r1PrivateKey {
+    return privkey instanceof Secp256r1PrivateKey ? privkey : new Secp256r1PrivateKey(privkey);
+  }
+
+  /**
+   * Generate a new private key from a cryptographically secure random source
+   * @returns The private key
+   */
+  static generate(): Secp256r1PrivateKey {
+    const secret = new Uint8Array(SECP256R1_PRIVATE_KEY_LENGTH);
+
+    // Rejection sampling: the P-256 order is close enough to 2^256 that retries are rare
+    do {
+      crypto.getRandomValues(secret);
+    } while (!P256.isValidScalar(secret));
+
+    return new Secp256r1PrivateKey(secret);
+  }
+
+  /**
+   * Derive the public key for this private key
+   * @returns The public key
+   */
+  publicKey(): Secp256r1PublicKey {
+    const point = P256.mulGPoint(this.secret);
+
+    return new Secp256r1PublicKey(point.x, point.y);
+  }
+
+  /**
+   * Get a copy of the private key bytes
+   * @returns The 32-byte private key
+   */
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.secret);
+  }
+}
+
+/**
+ * Secp256r1PublicKey
+ * A point on the P-256 curve.
+ */
+export class Secp256r1PublicKey {
+  /**
+   * Create a public key from its affine coordinates
+   * @param x - The x-coordinate as a 32-byte array
+   * @param y - The y-coordinate as a 32-byte array
+   */
+  constructor(public readonly x: Uint8Array, public readonly y: Uint8Array) {
+    if (x.length !== 32 || y.length !== 32 || !P256.isOnCurve({ x, y })) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidPublicKey,
+        'Public key is not a point on the curve'
+      );
+    }
+  }
+
+  /**
+   * Parse a public key from its compressed (33 bytes), uncompressed (65 bytes)
+   * or raw x||y (64 bytes) encoding
+   * @param bytes - The encoded public key
+   * @returns The public key
+   */
+  static fromBytes(bytes: Uint8Array): Secp256r1PublicKey {
+    switch (bytes.length) {
+      case SECP256R1_PUBLIC_KEY_COMPRESSED_LENGTH: {
+        if (bytes[0] !== 0x02 && bytes[0] !== 0x03) {
+          break;
+        }
+
+        try {
+          const point = P256.liftX(bytes.slice(1), bytes[0] === 0x03);
+          return new Secp256r1PublicKey(point.x, point.y);
+        } catch (error) {
+          throw new Secp256k1EcdsaException(
+            Secp256k1EcdsaError.InvalidPublicKey,
+            'Public key is not a point on the curve'
+          );
+        }
+      }
+      case SECP256R1_PUBLIC_KEY_UNCOMPRESSED_LENGTH:
+        if (bytes[0] !== 0x04) {
+          break;
+        }
+        return new Secp256r1PublicKey(bytes.slice(1, 33), bytes.slice(33, 65));
+      case SECP256R1_PUBLIC_KEY_RAW_LENGTH:
+        return new Secp256r1PublicKey(bytes.slice(0, 32), bytes.slice(32, 64));
+      default:
+        throw new Secp256k1EcdsaException(
+          Secp256k1EcdsaError.InvalidPublicKey,
+          `Invalid public key length: ${bytes.length}`
+        );
+    }
+
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidPublicKey,
+      `Invalid public key prefix: ${bytes[0]}`
+    );
+  }
+
+  /**
+   * Accept a public key instance, an encoded public key or raw coordinates
+   * @param pubkey - The public key
+   * @returns The public key instance
+   */
+  static from(pubkey: Secp256r1PublicKeyLike): Secp256r1PublicKey {
+    if (pubkey instanceof Secp256r1PublicKey) {
+      return pubkey;
+    }
+
+    if (pubkey instanceof Uint8Array) {
+      return Secp256r1PublicKey.fromBytes(pubkey);
+    }
+
+    return new Secp256r1PublicKey(pubkey.x, pubkey.y);
+  }
+
+  /**
+   * Serialize the public key in SEC1 compressed form, as the secp256r1 program expects
+   * @returns The 33-byte encoding (0x02/0x03 || x)
+   */
+  toCompressed(): Uint8Array {
+    const bytes = new Uint8Array(SECP256R1_PUBLIC_KEY_COMPRESSED_LENGTH);
+    bytes[0] = (this.y[31] & 1) === 1 ? 0x03 : 0x02;
+    bytes.set(this.x, 1);
+
+    return bytes;
+  }
+
+  /**
+   * Serialize the public key in SEC1 uncompressed form, as WebAuthn and Web Crypto export it
+   * @returns The 65-byte encoding (0x04 || x || y)
+   */
+  toUncompressed(): Uint8Array {
+    const bytes = new Uint8Array(SECP256R1_PUBLIC_KEY_UNCOMPRESSED_LENGTH);
+    bytes[0] = 0x04;
+    bytes.set(this.x, 1);
+    bytes.set(this.y, 33);
+
+    return bytes;
+  }
+
+  /**
+   * Compare this public key to another
+   * @param other - The other public key
+   * @returns True if the keys are equal
+   */
+  equals(other: { x: Uint8Array, y: Uint8Array }): boolean {
+    return this.x.every((byte, i) => byte === other.x[i]) && this.y.every((byte, i) => byte === other.y[i]);
+  }
+}
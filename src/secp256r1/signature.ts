@@ -0,0 +1,223 @@
+import type { Secp256k1EcdsaSignOptions } from '../index';
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import type { Secp256k1EcdsaHash } from '../hash';
+import { rfc6979Generate } from '../rfc6979';
+import { decodeDER, encodeDER } from '../der';
+import { P256 } from '../utils';
+import { Secp256r1PrivateKey, Secp256r1PublicKey, type Secp256r1PublicKeyLike } from './keys';
+
+// Signature length
+export const SECP256R1_ECDSA_SIGNATURE_LENGTH = 64;
+
+// Message hash length
+export const SECP256R1_ECDSA_HASH_LENGTH = 32;
+
+/**
+ * Secp256r1EcdsaSignature
+ * An ECDSA signature over NIST P-256, as produced by passkeys (WebAuthn) and
+ * checked by Solana's secp256r1 program.
+ */
+export class Secp256r1EcdsaSignature {
+  /**
+   * Create a new signature from a 64-byte array
+   * @param signature - The signature bytes (r || s)
+   */
+  constructor(public readonly signature: Uint8Array) {
+    if (signature.length !== SECP256R1_ECDSA_SIGNATURE_LENGTH) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidSignature,
+        `Invalid signature length: ${signature.length}`
+      );
+    }
+  }
+
+  /**
+   * Get the r component of the signature
+   * @returns The r component as a 32-byte array
+   */
+  r(): Uint8Array {
+    return this.signature.slice(0, 32);
+  }
+
+  /**
+   * Get the s component of the signature
+   * @returns The s component as a 32-byte array
+   */
+  s(): Uint8Array {
+    return this.signature.slice(32, 64);
+  }
+
+  /**
+   * Parse a DER-encoded signature, the form WebAuthn authenticators return
+   * @param der - The DER encoding
+   * @returns The signature
+   */
+  static fromDER(der: Uint8Array): Secp256r1EcdsaSignature {
+    return new Secp256r1EcdsaSignature(decodeDER(der));
+  }
+
+  /**
+   * Encode the signature in DER format
+   * @returns The DER encoding
+   */
+  toDER(): Uint8Array {
+    return encodeDER(this.r(), this.s());
+  }
+
+  /**
+   * Sign a message using RFC6979 deterministic nonce generation over the P-256 order
+   * @param hashImpl - The hash implementation to use, SHA256 for WebAuthn and the secp256r1 program
+   * @param message - The message to sign
+   * @param privkey - The private key
+   * @param options - The nonce HMAC hash and extra entropy
+   * @returns The signature, which may have a high s value
+   */
+  static sign<H extends Secp256k1EcdsaHash>(
+    hashImpl: H,
+    message: Uint8Array,
+    privkey: Uint8Array | Secp256r1PrivateKey,
+    options: Secp256k1EcdsaSignOptions = {}
+  ): Secp256r1EcdsaSignature {
+    return Secp256r1EcdsaSignature.signDigest(hashImpl.hash(message), privkey, options);
+  }
+
+  /**
+   * Sign a 32-byte digest using RFC6979 deterministic nonce generation
+   * @param digest - The message hash, computed by the caller
+   * @param privkey - The private key
+   * @param options - The nonce HMAC hash and extra entropy
+   * @returns The signature, which may have a high s value
+   */
+  static signDigest(
+    digest: Uint8Array,
+    privkey: Uint8Array | Secp256r1PrivateKey,
+    options: Secp256k1EcdsaSignOptions = {}
+  ): Secp256r1EcdsaSignature {
+    Secp256r1EcdsaSignature.assertDigest(digest);
+
+    const secret = Secp256r1PrivateKey.from(privkey).toBytes();
+    const k = rfc6979Generate(secret, digest, {
+      hash: options.nonceHash,
+      extraEntropy: options.extraEntropy,
+      order: P256.N
+    });
+
+    return Secp256r1EcdsaSignature.signDigestWithK(digest, k, privkey);
+  }
+
+  /**
+   * Sign a 32-byte digest with a defined ephemeral key (k)
+   * @param digest - The message hash, computed by the caller
+   * @param k - The ephemeral key (must be cryptographically secure if not deterministic)
+   * @param privkey - The private key
+   * @returns The signature
+   */
+  static signDigestWithK(
+    digest: Uint8Array,
+    k: Uint8Array,
+    privkey: Uint8Array | Secp256r1PrivateKey
+  ): Secp256r1EcdsaSignature {
+    Secp256r1EcdsaSignature.assertDigest(digest);
+
+    const secret = Secp256r1PrivateKey.from(privkey).toBytes();
+
+    try {
+      // r = (k * G).x mod n, s = k^-1 * (h + privkey * r) mod n
+      const r = P256.modN(P256.mulG(k));
+      const s = P256.mulModN(P256.modInvN(k), P256.addModN(digest, P256.mulModN(r, secret)));
+
+      const signature = new Uint8Array(64);
+      signature.set(r, 0);
+      signature.set(s, 32);
+
+      return new Secp256r1EcdsaSignature(signature);
+    } catch (error) {
+      throw new Secp256k1EcdsaException(Secp256k1EcdsaError.InvalidSecretKey);
+    }
+  }
+
+  /**
+   * Normalize the signature to a lower S value, below half of the P-256 order
+   * @returns Normalized signature
+   */
+  normalizeS(): Secp256r1EcdsaSignature {
+    if (this.isLowS()) {
+      return this;
+    }
+
+    const signature = new Uint8Array(64);
+    signature.set(this.r(), 0);
+    signature.set(P256.negateN(this.s()), 32);
+
+    return new Secp256r1EcdsaSignature(signature);
+  }
+
+  /**
+   * Check whether s is at most N/2, which the secp256r1 program requires
+   * @returns True if the signature has a low s value
+   */
+  isLowS(): boolean {
+    return BigInt('0x' + Buffer.from(this.s()).toString('hex')) <= P256.N_DIV_2;
+  }
+
+  /**
+   * Verify a signature against a public key, accepting high s values as WebAuthn does
+   * @param hashImpl - The hash implementation to use
+   * @param message - The message that was signed
+   * @param pubkey - The public key to verify against
+   * @returns True if the signature is valid
+   */
+  verify<H extends Secp256k1EcdsaHash>(hashImpl: H, message: Uint8Array, pubkey: Secp256r1PublicKeyLike): boolean {
+    try {
+      return this.verifyDigest(hashImpl.hash(message), pubkey);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Verify a signature over a 32-byte digest
+   * @param digest - The message hash, computed by the caller
+   * @param pubkey - The public key to verify against
+   * @returns True if the signature is valid, false for any invalid signature or public key
+   */
+  verifyDigest(digest: Uint8Array, pubkey: Secp256r1PublicKeyLike): boolean {
+    Secp256r1EcdsaSignature.assertDigest(digest);
+
+    const r = this.r();
+    const s = this.s();
+    if (P256.gteN(r) || P256.gteN(s)) {
+      return false;
+    }
+
+    try {
+      const point = Secp256r1PublicKey.from(pubkey);
+
+      // R' = (h * s1) * G + (r * s1) * pubKey, compared against r
+      return P256.verifyPrepared(P256.preparePoint(point), digest, r, s);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Compare this signature to another
+   * @param other - The other signature
+   * @returns True if signatures are equal
+   */
+  equals(other: Secp256r1EcdsaSignature): boolean {
+    return this.signature.every((byte, i) => byte === other.signature[i]);
+  }
+
+  /**
+   * Ensure a digest is exactly 32 bytes
+   */
+  private static assertDigest(digest: Uint8Array): void {
+    if (digest.length !== SECP256R1_ECDSA_HASH_LENGTH) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidHashLength,
+        `Invalid hash length: ${digest.length}`
+      );
+    }
+  }
+}
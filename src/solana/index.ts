@@ -0,0 +1,8 @@
+/**
+ * Solana Native Program Modules
+ */
+export * from './secp256k1-program';
+export * from './secp256r1-program';
+export * from './message';
+export * from './precompile';
+export * from './offchain-message';
@@ -0,0 +1,222 @@
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import { base58Encode } from '../encoding';
+
+// Flag set on the first byte of versioned messages
+const VERSION_PREFIX_MASK = 0x80;
+
+/**
+ * A compiled instruction of a transaction message
+ */
+export interface SolanaCompiledInstruction {
+  programIdIndex: number;
+  accounts: number[];
+  data: Uint8Array;
+}
+
+/**
+ * An address lookup table reference of a v0 message
+ */
+export interface SolanaAddressTableLookup {
+  accountKey: Uint8Array;
+  writableIndexes: number[];
+  readonlyIndexes: number[];
+}
+
+/**
+ * SolanaMessage
+ * A parsed legacy or v0 Solana transaction message.
+ */
+export class SolanaMessage {
+  /**
+   * Create a message from its parsed fields
+   * @param version - 'legacy' or the version number of a versioned message
+   * @param header - The signature/read-only account counts
+   * @param accountKeys - The static account keys
+   * @param recentBlockhash - The recent blockhash
+   * @param instructions - The compiled instructions
+   * @param addressTableLookups - The address lookup tables (v0 only)
+   */
+  constructor(
+    public readonly version: 'legacy' | number,
+    public readonly header: {
+      numRequiredSignatures: number,
+      numReadonlySignedAccounts: number,
+      numReadonlyUnsignedAccounts: number
+    },
+    public readonly accountKeys: Uint8Array[],
+    public readonly recentBlockhash: Uint8Array,
+    public readonly instructions: SolanaCompiledInstruction[],
+    public readonly addressTableLookups: SolanaAddressTableLookup[] = []
+  ) {}
+
+  /**
+   * Parse a serialized transaction message
+   * @param bytes - The serialized message
+   * @returns The parsed message
+   */
+  static parse(bytes: Uint8Array): SolanaMessage {
+    const reader = new ByteReader(bytes);
+    const message = SolanaMessage.read(reader);
+
+    if (reader.remaining() !== 0) {
+      throw invalidTransaction(`Unexpected ${reader.remaining()} trailing bytes`);
+    }
+
+    return message;
+  }
+
+  /**
+   * Parse the message out of a serialized transaction (signatures followed by the message)
+   * @param bytes - The serialized transaction
+   * @returns The signatures and the parsed message
+   */
+  static fromTransaction(bytes: Uint8Array): { signatures: Uint8Array[], message: SolanaMessage } {
+    const reader = new ByteReader(bytes);
+
+    const signatureCount = reader.shortVec();
+    const signatures: Uint8Array[] = [];
+    for (let i = 0; i < signatureCount; i++) {
+      signatures.push(reader.bytes(64));
+    }
+
+    const message = SolanaMessage.read(reader);
+
+    if (reader.remaining() !== 0) {
+      throw invalidTransaction(`Unexpected ${reader.remaining()} trailing bytes`);
+    }
+
+    return { signatures, message };
+  }
+
+  /**
+   * Get the program id of an instruction as a base58 string
+   * @param instruction - The compiled instruction
+   * @returns The program id
+   */
+  programId(instruction: SolanaCompiledInstruction): string {
+    const key = this.accountKeys[instruction.programIdIndex];
+    if (!key) {
+      throw invalidTransaction(`Program id index out of range: ${instruction.programIdIndex}`);
+    }
+
+    return base58Encode(key);
+  }
+
+  /**
+   * Read a message from the current reader position
+   */
+  private static read(reader: ByteReader): SolanaMessage {
+    // Versioned messages set the high bit of the first byte
+    let version: 'legacy' | number = 'legacy';
+    if (reader.peek() & VERSION_PREFIX_MASK) {
+      version = reader.u8() & ~VERSION_PREFIX_MASK;
+      if (version !== 0) {
+        throw invalidTransaction(`Unsupported message version: ${version}`);
+      }
+    }
+
+    const header = {
+      numRequiredSignatures: reader.u8(),
+      numReadonlySignedAccounts: reader.u8(),
+      numReadonlyUnsignedAccounts: reader.u8()
+    };
+
+    const accountKeys: Uint8Array[] = [];
+    const accountCount = reader.shortVec();
+    for (let i = 0; i < accountCount; i++) {
+      accountKeys.push(reader.bytes(32));
+    }
+
+    const recentBlockhash = reader.bytes(32);
+
+    const instructions: SolanaCompiledInstruction[] = [];
+    const instructionCount = reader.shortVec();
+    for (let i = 0; i < instructionCount; i++) {
+      const programIdIndex = reader.u8();
+      const accounts = Array.from(reader.bytes(reader.shortVec()));
+      const data = reader.bytes(reader.shortVec());
+
+      instructions.push({ programIdIndex, accounts, data });
+    }
+
+    const addressTableLookups: SolanaAddressTableLookup[] = [];
+    if (version !== 'legacy') {
+      const lookupCount = reader.shortVec();
+      for (let i = 0; i < lookupCount; i++) {
+        const accountKey = reader.bytes(32);
+        const writableIndexes = Array.from(reader.bytes(reader.shortVec()));
+        const readonlyIndexes = Array.from(reader.bytes(reader.shortVec()));
+
+        addressTableLookups.push({ accountKey, writableIndexes, readonlyIndexes });
+      }
+    }
+
+    return new SolanaMessage(version, header, accountKeys, recentBlockhash, instructions, addressTableLookups);
+  }
+}
+
+/**
+ * Sequential reader over serialized message bytes
+ */
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  remaining(): number {
+    return this.data.length - this.offset;
+  }
+
+  peek(): number {
+    if (this.remaining() < 1) {
+      throw invalidTransaction('Unexpected end of data');
+    }
+
+    return this.data[this.offset];
+  }
+
+  u8(): number {
+    const value = this.peek();
+    this.offset += 1;
+
+    return value;
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.remaining() < length) {
+      throw invalidTransaction('Unexpected end of data');
+    }
+
+    const value = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+
+    return value;
+  }
+
+  /**
+   * Read a compact-u16 ("shortvec") length prefix
+   */
+  shortVec(): number {
+    let value = 0;
+    for (let i = 0; i < 3; i++) {
+      const byte = this.u8();
+      value |= (byte & 0x7f) << (7 * i);
+
+      if ((byte & 0x80) === 0) {
+        if (value > 0xffff) {
+          throw invalidTransaction('Compact-u16 value out of range');
+        }
+        return value;
+      }
+    }
+
+    throw invalidTransaction('Compact-u16 value too long');
+  }
+}
+
+/**
+ * Create an exception for a malformed transaction
+ */
+function invalidTransaction(message: string): Secp256k1EcdsaException {
+  return new Secp256k1EcdsaException(Secp256k1EcdsaError.InvalidTransaction, message);
+}
@@ -0,0 +1,256 @@
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import { base58Decode } from '../encoding';
+
+// Signing domain that starts every off-chain message, so it can never parse as a transaction
+export const SOLANA_OFFCHAIN_SIGNING_DOMAIN = new Uint8Array([0xff, ...new TextEncoder().encode('solana offchain')]);
+
+// The only header version defined so far
+export const SOLANA_OFFCHAIN_MESSAGE_VERSION = 0;
+
+// Limit of the short formats on the whole serialized message, for hardware wallets
+export const SOLANA_OFFCHAIN_MESSAGE_MAX_LEDGER_LENGTH = 1232;
+
+// Limit of the extended format on the message body, its length being a u16
+export const SOLANA_OFFCHAIN_MESSAGE_MAX_LENGTH = 0xffff;
+
+// Header field sizes
+const APPLICATION_DOMAIN_LENGTH = 32;
+const SIGNER_LENGTH = 32;
+
+/**
+ * Message formats of the off-chain message header
+ */
+export enum SolanaOffchainMessageFormat {
+  // Printable ASCII (0x20-0x7e), at most 1232 bytes with the header
+  RestrictedAscii = 0,
+  // UTF-8, at most 1232 bytes with the header
+  LimitedUtf8 = 1,
+  // UTF-8, at most 65535 bytes
+  ExtendedUtf8 = 2
+}
+
+/**
+ * The header fields of an off-chain message
+ */
+export interface SolanaOffchainMessageOptions {
+  // The public keys expected to sign the message, 32 bytes or base58 each
+  signers: (Uint8Array | string)[];
+  // 32 bytes identifying the requesting application, or base58; zeros by default
+  applicationDomain?: Uint8Array | string;
+  // The message format, the most restrictive one that fits by default
+  format?: SolanaOffchainMessageFormat;
+}
+
+/**
+ * SolanaOffchainMessage
+ * A version 0 Solana off-chain message: the signing domain, a header naming the
+ * application and signers, and the message body.
+ */
+export class SolanaOffchainMessage {
+  public readonly version = SOLANA_OFFCHAIN_MESSAGE_VERSION;
+  public readonly signers: Uint8Array[];
+  public readonly applicationDomain: Uint8Array;
+  public readonly format: SolanaOffchainMessageFormat;
+
+  /**
+   * Create a message, checking the body against its format
+   * @param message - The message body
+   * @param options - The signers, application domain and format
+   */
+  constructor(public readonly message: Uint8Array, options: SolanaOffchainMessageOptions) {
+    this.signers = options.signers.map(signer => toKeyBytes(signer, SIGNER_LENGTH, 'signer'));
+    this.applicationDomain = options.applicationDomain === undefined
+      ? new Uint8Array(APPLICATION_DOMAIN_LENGTH)
+      : toKeyBytes(options.applicationDomain, APPLICATION_DOMAIN_LENGTH, 'application domain');
+
+    if (this.signers.length === 0 || this.signers.length > 0xff) {
+      throw invalidMessage(`Invalid signer count: ${this.signers.length}`);
+    }
+
+    this.format = options.format ?? SolanaOffchainMessage.detectFormat(message, this.signers.length);
+    SolanaOffchainMessage.checkFormat(message, this.format, this.signers.length);
+  }
+
+  /**
+   * Pick the most restrictive format a message body fits in
+   * @param message - The message body
+   * @param signerCount - The number of signers, which counts towards the 1232-byte limit
+   * @returns The format
+   */
+  static detectFormat(message: Uint8Array, signerCount: number = 1): SolanaOffchainMessageFormat {
+    const short = SolanaOffchainMessage.headerLength(signerCount) + message.length <= SOLANA_OFFCHAIN_MESSAGE_MAX_LEDGER_LENGTH;
+    if (short && isRestrictedAscii(message)) {
+      return SolanaOffchainMessageFormat.RestrictedAscii;
+    }
+
+    return short ? SolanaOffchainMessageFormat.LimitedUtf8 : SolanaOffchainMessageFormat.ExtendedUtf8;
+  }
+
+  /**
+   * Serialize the message for signing
+   * @returns signing domain || version || application domain || format || signer count || signers || u16 length || body
+   */
+  serialize(): Uint8Array {
+    const headerLength = SolanaOffchainMessage.headerLength(this.signers.length);
+    const data = new Uint8Array(headerLength + this.message.length);
+    const view = new DataView(data.buffer);
+
+    let offset = 0;
+    data.set(SOLANA_OFFCHAIN_SIGNING_DOMAIN, offset);
+    offset += SOLANA_OFFCHAIN_SIGNING_DOMAIN.length;
+    data[offset++] = this.version;
+    data.set(this.applicationDomain, offset);
+    offset += APPLICATION_DOMAIN_LENGTH;
+    data[offset++] = this.format;
+    data[offset++] = this.signers.length;
+    for (const signer of this.signers) {
+      data.set(signer, offset);
+      offset += SIGNER_LENGTH;
+    }
+    view.setUint16(offset, this.message.length, true);
+    data.set(this.message, headerLength);
+
+    return data;
+  }
+
+  /**
+   * Parse a serialized message, rejecting anything the encoder would not produce
+   * @param bytes - The serialized message
+   * @returns The parsed message
+   */
+  static parse(bytes: Uint8Array): SolanaOffchainMessage {
+    const domainLength = SOLANA_OFFCHAIN_SIGNING_DOMAIN.length;
+    if (bytes.length < SolanaOffchainMessage.headerLength(0) ||
+      !SOLANA_OFFCHAIN_SIGNING_DOMAIN.every((byte, i) => byte === bytes[i])) {
+      throw invalidMessage('Missing off-chain message signing domain');
+    }
+
+    let offset = domainLength;
+    const version = bytes[offset++];
+    if (version !== SOLANA_OFFCHAIN_MESSAGE_VERSION) {
+      throw invalidMessage(`Unsupported off-chain message version: ${version}`);
+    }
+
+    const applicationDomain = bytes.slice(offset, offset + APPLICATION_DOMAIN_LENGTH);
+    offset += APPLICATION_DOMAIN_LENGTH;
+
+    const format = bytes[offset++];
+    if (!(format in SolanaOffchainMessageFormat)) {
+      throw invalidMessage(`Unknown off-chain message format: ${format}`);
+    }
+
+    const signerCount = bytes[offset++];
+    const headerLength = SolanaOffchainMessage.headerLength(signerCount);
+    if (bytes.length < headerLength) {
+      throw invalidMessage('Unexpected end of off-chain message header');
+    }
+
+    const signers: Uint8Array[] = [];
+    for (let i = 0; i < signerCount; i++) {
+      signers.push(bytes.slice(offset, offset + SIGNER_LENGTH));
+      offset += SIGNER_LENGTH;
+    }
+
+    const length = bytes[offset] | (bytes[offset + 1] << 8);
+    if (bytes.length - headerLength !== length) {
+      throw invalidMessage(`Message length mismatch: header says ${length}, body has ${bytes.length - headerLength}`);
+    }
+
+    return new SolanaOffchainMessage(bytes.slice(headerLength), { signers, applicationDomain, format });
+  }
+
+  /**
+   * Decode the message body as text
+   * @returns The body as a string
+   */
+  text(): string {
+    return new TextDecoder().decode(this.message);
+  }
+
+  /**
+   * Get the length of the serialized header for a number of signers
+   */
+  private static headerLength(signerCount: number): number {
+    return SOLANA_OFFCHAIN_SIGNING_DOMAIN.length + 1 + APPLICATION_DOMAIN_LENGTH + 2 + signerCount * SIGNER_LENGTH + 2;
+  }
+
+  /**
+   * Check that a message body is non-empty and fits its format
+   */
+  private static checkFormat(message: Uint8Array, format: SolanaOffchainMessageFormat, signerCount: number): void {
+    if (message.length === 0) {
+      throw invalidMessage('Off-chain message is empty');
+    }
+
+    switch (format) {
+      case SolanaOffchainMessageFormat.RestrictedAscii:
+        if (!isRestrictedAscii(message)) {
+          throw invalidMessage('Restricted ASCII message contains characters outside 0x20-0x7e');
+        }
+        break;
+      case SolanaOffchainMessageFormat.LimitedUtf8:
+      case SolanaOffchainMessageFormat.ExtendedUtf8:
+        if (!isUtf8(message)) {
+          throw invalidMessage('Message is not valid UTF-8');
+        }
+        break;
+      default:
+        throw invalidMessage(`Unknown off-chain message format: ${format}`);
+    }
+
+    if (format === SolanaOffchainMessageFormat.ExtendedUtf8) {
+      if (message.length > SOLANA_OFFCHAIN_MESSAGE_MAX_LENGTH) {
+        throw invalidMessage(`Message too long: ${message.length} bytes, at most ${SOLANA_OFFCHAIN_MESSAGE_MAX_LENGTH}`);
+      }
+    } else {
+      const maxLength = SOLANA_OFFCHAIN_MESSAGE_MAX_LEDGER_LENGTH - SolanaOffchainMessage.headerLength(signerCount);
+      if (message.length > maxLength) {
+        throw invalidMessage(`Message too long for its format: ${message.length} bytes, at most ${maxLength}`);
+      }
+    }
+  }
+}
+
+/**
+ * Check that every byte is printable ASCII
+ */
+function isRestrictedAscii(message: Uint8Array): boolean {
+  return message.every(byte => byte >= 0x20 && byte <= 0x7e);
+}
+
+/**
+ * Check that bytes are well-formed UTF-8
+ */
+function isUtf8(message: Uint8Array): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(message);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Decode a 32-byte key given as bytes or base58
+ */
+function toKeyBytes(key: Uint8Array | string, length: number, name: string): Uint8Array {
+  let bytes: Uint8Array;
+  try {
+    bytes = typeof key === 'string' ? base58Decode(key) : key;
+  } catch (error) {
+    throw invalidMessage(`Invalid base58 ${name}`);
+  }
+
+  if (bytes.length !== length) {
+    throw invalidMessage(`Invalid ${name} length: ${bytes.length}`);
+  }
+
+  return bytes;
+}
+
+/**
+ * Create an exception for a malformed off-chain message
+ */
+function invalidMessage(message: string): Secp256k1EcdsaException {
+  return new Secp256k1EcdsaException(Secp256k1EcdsaError.InvalidOffchainMessage, message);
+}
@@ -0,0 +1,243 @@
+import { Secp256k1EcdsaSignature } from '../index';
+import { Keccak } from '../hash';
+import { Secp256k1EcdsaPublicKey } from '../keys';
+import { EthereumAddress } from '../address';
+import { SolanaMessage } from './message';
+import {
+  Secp256k1Program,
+  SECP256K1_PROGRAM_ID,
+  SECP256K1_SIGNATURE_OFFSETS_SERIALIZED_SIZE,
+  SECP256K1_SIGNATURE_OFFSETS_START,
+  SECP256K1_HASHED_PUBKEY_SERIALIZED_SIZE,
+  SECP256K1_SIGNATURE_SERIALIZED_SIZE
+} from './secp256k1-program';
+
+/**
+ * Errors returned by the secp256k1 precompile, numbered as the runtime's
+ * `PrecompileError` custom instruction error codes
+ */
+export enum Secp256k1PrecompileError {
+  InvalidPublicKey = 0,
+  InvalidRecoveryId = 1,
+  InvalidSignature = 2,
+  InvalidDataOffsets = 3,
+  InvalidInstructionDataSize = 4
+}
+
+/**
+ * Errors returned by the `secp256k1_recover` syscall, numbered as its return codes
+ */
+export enum Secp256k1RecoverError {
+  InvalidHash = 1,
+  InvalidRecoveryId = 2,
+  InvalidSignature = 3
+}
+
+/**
+ * Outcome of verifying one secp256k1 program instruction
+ */
+export type Secp256k1PrecompileResult =
+  | { valid: true }
+  | { valid: false, error: Secp256k1PrecompileError, signatureIndex?: number };
+
+/**
+ * Outcome of the `secp256k1_recover` syscall
+ */
+export type Secp256k1RecoverResult =
+  | { ok: true, publicKey: Uint8Array }
+  | { ok: false, error: Secp256k1RecoverError };
+
+/**
+ * Outcome of verifying a secp256k1 program instruction inside a transaction
+ */
+export interface Secp256k1InstructionVerification {
+  instructionIndex: number;
+  result: Secp256k1PrecompileResult;
+}
+
+/**
+ * Emulate the `secp256k1_recover` syscall
+ * @param hash - The 32-byte message hash
+ * @param recoveryId - The recovery id
+ * @param signature - The 64-byte r||s signature
+ * @returns The 64-byte x||y public key, or the syscall's error code
+ */
+export function secp256k1Recover(
+  hash: Uint8Array,
+  recoveryId: number,
+  signature: Uint8Array
+): Secp256k1RecoverResult {
+  if (hash.length !== 32) {
+    return { ok: false, error: Secp256k1RecoverError.InvalidHash };
+  }
+
+  if (!Number.isInteger(recoveryId) || recoveryId < 0 || recoveryId > 3) {
+    return { ok: false, error: Secp256k1RecoverError.InvalidRecoveryId };
+  }
+
+  const publicKey = recoverPublicKey(hash, recoveryId, signature);
+  if (!publicKey) {
+    return { ok: false, error: Secp256k1RecoverError.InvalidSignature };
+  }
+
+  return { ok: true, publicKey: publicKey.toRaw() };
+}
+
+/**
+ * Secp256k1Precompile
+ * Offline emulation of the runtime's secp256k1 program checks.
+ */
+export class Secp256k1Precompile {
+  /**
+   * Verify a secp256k1 program instruction the way the runtime does
+   * @param data - The instruction data
+   * @param instructionDatas - The data of every instruction in the transaction, by index
+   * @returns Whether the instruction passes, or the runtime's error
+   */
+  static verifyInstruction(data: Uint8Array, instructionDatas: Uint8Array[]): Secp256k1PrecompileResult {
+    if (data.length === 0) {
+      return { valid: false, error: Secp256k1PrecompileError.InvalidInstructionDataSize };
+    }
+
+    const count = data[0];
+    if (count === 0 && data.length > 1) {
+      return { valid: false, error: Secp256k1PrecompileError.InvalidInstructionDataSize };
+    }
+
+    const expectedDataSize = SECP256K1_SIGNATURE_OFFSETS_START + count * SECP256K1_SIGNATURE_OFFSETS_SERIALIZED_SIZE;
+    if (data.length < expectedDataSize) {
+      return { valid: false, error: Secp256k1PrecompileError.InvalidInstructionDataSize };
+    }
+
+    const keccak = new Keccak();
+    const offsetsList = Secp256k1Program.decodeOffsets(data);
+
+    for (let i = 0; i < offsetsList.length; i++) {
+      const offsets = offsetsList[i];
+      const fail = (error: Secp256k1PrecompileError): Secp256k1PrecompileResult =>
+        ({ valid: false, error, signatureIndex: i });
+
+      // Parse out the signature and recovery id
+      const signatureInstruction = instructionDatas[offsets.signatureInstructionIndex];
+      if (!signatureInstruction) {
+        return fail(Secp256k1PrecompileError.InvalidInstructionDataSize);
+      }
+
+      // The runtime requires the recovery id byte to follow the signature
+      const signatureEnd = offsets.signatureOffset + SECP256K1_SIGNATURE_SERIALIZED_SIZE;
+      if (signatureEnd >= signatureInstruction.length) {
+        return fail(Secp256k1PrecompileError.InvalidSignature);
+      }
+
+      const signature = signatureInstruction.slice(offsets.signatureOffset, signatureEnd);
+      const recoveryId = signatureInstruction[signatureEnd];
+      if (recoveryId > 3) {
+        return fail(Secp256k1PrecompileError.InvalidRecoveryId);
+      }
+
+      // Parse out the Ethereum address and the message
+      const ethAddress = getDataSlice(
+        instructionDatas,
+        offsets.ethAddressInstructionIndex,
+        offsets.ethAddressOffset,
+        SECP256K1_HASHED_PUBKEY_SERIALIZED_SIZE
+      );
+      if (typeof ethAddress === 'number') {
+        return fail(ethAddress);
+      }
+
+      const message = getDataSlice(
+        instructionDatas,
+        offsets.messageInstructionIndex,
+        offsets.messageDataOffset,
+        offsets.messageDataSize
+      );
+      if (typeof message === 'number') {
+        return fail(message);
+      }
+
+      // Recover the signer from the Keccak-256 hash of the message
+      const publicKey = recoverPublicKey(keccak.hash(message), recoveryId, signature);
+      if (!publicKey) {
+        return fail(Secp256k1PrecompileError.InvalidSignature);
+      }
+
+      // Compare the signer's Ethereum address
+      const expected = EthereumAddress.hashPublicKey(publicKey);
+      if (!expected.every((byte, j) => byte === ethAddress[j])) {
+        return fail(Secp256k1PrecompileError.InvalidSignature);
+      }
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Verify every secp256k1 program instruction of a transaction message
+   * @param message - The parsed or serialized transaction message
+   * @returns The outcome for each secp256k1 program instruction
+   */
+  static verifyMessage(message: SolanaMessage | Uint8Array): Secp256k1InstructionVerification[] {
+    const parsed = message instanceof SolanaMessage ? message : SolanaMessage.parse(message);
+    const instructionDatas = parsed.instructions.map(instruction => instruction.data);
+
+    const results: Secp256k1InstructionVerification[] = [];
+    parsed.instructions.forEach((instruction, instructionIndex) => {
+      if (parsed.programId(instruction) !== SECP256K1_PROGRAM_ID) {
+        return;
+      }
+
+      results.push({
+        instructionIndex,
+        result: Secp256k1Precompile.verifyInstruction(instruction.data, instructionDatas)
+      });
+    });
+
+    return results;
+  }
+
+  /**
+   * Verify every secp256k1 program instruction of a serialized transaction
+   * @param transaction - The serialized transaction (signatures followed by the message)
+   * @returns The outcome for each secp256k1 program instruction
+   */
+  static verifyTransaction(transaction: Uint8Array): Secp256k1InstructionVerification[] {
+    return Secp256k1Precompile.verifyMessage(SolanaMessage.fromTransaction(transaction).message);
+  }
+}
+
+/**
+ * Read a range of bytes from an instruction, mirroring the runtime's bounds checks
+ */
+function getDataSlice(
+  instructionDatas: Uint8Array[],
+  index: number,
+  offset: number,
+  size: number
+): Uint8Array | Secp256k1PrecompileError {
+  const data = instructionDatas[index];
+  if (!data) {
+    return Secp256k1PrecompileError.InvalidDataOffsets;
+  }
+
+  if (offset + size > data.length) {
+    return Secp256k1PrecompileError.InvalidSignature;
+  }
+
+  return data.slice(offset, offset + size);
+}
+
+/**
+ * Recover a public key from a 32-byte hash, or undefined if the signature is invalid
+ */
+function recoverPublicKey(
+  hash: Uint8Array,
+  recoveryId: number,
+  signature: Uint8Array
+): Secp256k1EcdsaPublicKey | undefined {
+  try {
+    return new Secp256k1EcdsaSignature(signature).recoverDigest(hash, recoveryId);
+  } catch (error) {
+    return undefined;
+  }
+}
@@ -0,0 +1,321 @@
+import { Secp256k1EcdsaSignature } from '../index';
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import { Secp256k1EcdsaPrivateKey } from '../keys';
+import { ESM, Keccak, SOM } from '../hash';
+import { EthereumAddress } from '../address';
+
+// Secp256k1 native program id
+export const SECP256K1_PROGRAM_ID = 'KeccakSecp256k11111111111111111111111111111';
+
+// Instruction layout sizes
+export const SECP256K1_SIGNATURE_OFFSETS_SERIALIZED_SIZE = 11;
+export const SECP256K1_SIGNATURE_OFFSETS_START = 1;
+export const SECP256K1_HASHED_PUBKEY_SERIALIZED_SIZE = 20;
+export const SECP256K1_SIGNATURE_SERIALIZED_SIZE = 64;
+
+/**
+ * Offsets of one signature's data, as stored in the instruction header
+ */
+export interface Secp256k1SignatureOffsets {
+  signatureOffset: number;
+  signatureInstructionIndex: number;
+  ethAddressOffset: number;
+  ethAddressInstructionIndex: number;
+  messageDataOffset: number;
+  messageDataSize: number;
+  messageInstructionIndex: number;
+}
+
+/**
+ * A signature checked by the secp256k1 program
+ */
+export interface Secp256k1ProgramSignature {
+  signature: Secp256k1EcdsaSignature;
+  recoveryId: number;
+  ethAddress: Uint8Array;
+  message: Uint8Array;
+}
+
+/**
+ * Secp256k1Program
+ * Encodes and decodes instruction data for Solana's secp256k1 native program.
+ */
+export class Secp256k1Program {
+  /**
+   * Sign a message so it can be checked by the secp256k1 program
+   * @param hashImpl - Keccak for raw messages, ESM for Ethereum Signed Messages, or SOM for Solana off-chain messages
+   * @param message - The message to sign
+   * @param privkey - The private key
+   * @returns The signature entry, with the message as the program will hash it
+   */
+  static createSignature(
+    hashImpl: Keccak | ESM | SOM,
+    message: Uint8Array,
+    privkey: Uint8Array | Secp256k1EcdsaPrivateKey
+  ): Secp256k1ProgramSignature {
+    const privateKey = Secp256k1EcdsaPrivateKey.from(privkey);
+
+    // The program always hashes with Keccak-256, so ESM and SOM messages carry their envelope
+    let signedMessage = message;
+    if (hashImpl instanceof ESM) {
+      signedMessage = ESM.encode(message);
+    } else if (hashImpl instanceof SOM) {
+      signedMessage = hashImpl.encode(message);
+    }
+
+    const signature = Secp256k1EcdsaSignature.sign(hashImpl, message, privateKey).normalizeS();
+
+    return {
+      signature,
+      recoveryId: signature.recoveryId!,
+      ethAddress: EthereumAddress.hashPublicKey(privateKey.publicKey()),
+      message: signedMessage
+    };
+  }
+
+  /**
+   * Encode a self-contained instruction carrying one or more signatures
+   * @param signatures - The signatures to check
+   * @param instructionIndex - The index of this instruction in the transaction
+   * @returns The instruction data
+   */
+  static encodeInstructionData(
+    signatures: Secp256k1ProgramSignature[],
+    instructionIndex: number = 0
+  ): Uint8Array {
+    // Lay out each signature's data after the offsets header
+    const dataStart = SECP256K1_SIGNATURE_OFFSETS_START +
+      signatures.length * SECP256K1_SIGNATURE_OFFSETS_SERIALIZED_SIZE;
+
+    const offsets: Secp256k1SignatureOffsets[] = [];
+    const chunks: Uint8Array[] = [];
+    let cursor = dataStart;
+
+    for (const entry of signatures) {
+      if (entry.ethAddress.length !== SECP256K1_HASHED_PUBKEY_SERIALIZED_SIZE) {
+        throw new Secp256k1EcdsaException(
+          Secp256k1EcdsaError.InvalidInstructionData,
+          `Invalid Ethereum address length: ${entry.ethAddress.length}`
+        );
+      }
+
+      // Validates the recovery id range
+      const signature = new Secp256k1EcdsaSignature(entry.signature.signature, entry.recoveryId);
+
+      // Layout: eth address (20) || signature (64) || recovery id (1) || message
+      const ethAddressOffset = cursor;
+      const signatureOffset = ethAddressOffset + SECP256K1_HASHED_PUBKEY_SERIALIZED_SIZE;
+      const messageDataOffset = signatureOffset + SECP256K1_SIGNATURE_SERIALIZED_SIZE + 1;
+
+      offsets.push({
+        signatureOffset,
+        signatureInstructionIndex: instructionIndex,
+        ethAddressOffset,
+        ethAddressInstructionIndex: instructionIndex,
+        messageDataOffset,
+        messageDataSize: entry.message.length,
+        messageInstructionIndex: instructionIndex
+      });
+      chunks.push(entry.ethAddress, signature.signature, Uint8Array.of(signature.recoveryId!), entry.message);
+
+      cursor = messageDataOffset + entry.message.length;
+    }
+
+    const payload = new Uint8Array(cursor - dataStart);
+    let position = 0;
+    for (const chunk of chunks) {
+      payload.set(chunk, position);
+      position += chunk.length;
+    }
+
+    return Secp256k1Program.encodeOffsets(offsets, payload);
+  }
+
+  /**
+   * Encode an instruction from explicit offsets, e.g. pointing into other instructions
+   * @param offsets - The offsets of each signature
+   * @param payload - Data appended after the offsets header
+   * @returns The instruction data
+   */
+  static encodeOffsets(
+    offsets: Secp256k1SignatureOffsets[],
+    payload: Uint8Array = new Uint8Array(0)
+  ): Uint8Array {
+    if (offsets.length > 0xff) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidInstructionData,
+        `Too many signatures: ${offsets.length}`
+      );
+    }
+
+    const headerLength = SECP256K1_SIGNATURE_OFFSETS_START +
+      offsets.length * SECP256K1_SIGNATURE_OFFSETS_SERIALIZED_SIZE;
+    const data = new Uint8Array(headerLength + payload.length);
+    const view = new DataView(data.buffer);
+
+    data[0] = offsets.length;
+
+    offsets.forEach((entry, i) => {
+      const start = SECP256K1_SIGNATURE_OFFSETS_START + i * SECP256K1_SIGNATURE_OFFSETS_SERIALIZED_SIZE;
+
+      writeU16(view, start, entry.signatureOffset);
+      writeU8(view, start + 2, entry.signatureInstructionIndex);
+      writeU16(view, start + 3, entry.ethAddressOffset);
+      writeU8(view, start + 5, entry.ethAddressInstructionIndex);
+      writeU16(view, start + 6, entry.messageDataOffset);
+      writeU16(view, start + 8, entry.messageDataSize);
+      writeU8(view, start + 10, entry.messageInstructionIndex);
+    });
+
+    data.set(payload, headerLength);
+
+    return data;
+  }
+
+  /**
+   * Decode the offsets header of an instruction
+   * @param data - The instruction data
+   * @returns The offsets of each signature
+   */
+  static decodeOffsets(data: Uint8Array): Secp256k1SignatureOffsets[] {
+    if (data.length < SECP256K1_SIGNATURE_OFFSETS_START) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidInstructionData,
+        'Instruction data is empty'
+      );
+    }
+
+    const count = data[0];
+    const headerLength = SECP256K1_SIGNATURE_OFFSETS_START + count * SECP256K1_SIGNATURE_OFFSETS_SERIALIZED_SIZE;
+    if (data.length < headerLength) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidInstructionData,
+        `Instruction data too small for ${count} signatures: ${data.length}`
+      );
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const offsets: Secp256k1SignatureOffsets[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const start = SECP256K1_SIGNATURE_OFFSETS_START + i * SECP256K1_SIGNATURE_OFFSETS_SERIALIZED_SIZE;
+
+      offsets.push({
+        signatureOffset: view.getUint16(start, true),
+        signatureInstructionIndex: view.getUint8(start + 2),
+        ethAddressOffset: view.getUint16(start + 3, true),
+        ethAddressInstructionIndex: view.getUint8(start + 5),
+        messageDataOffset: view.getUint16(start + 6, true),
+        messageDataSize: view.getUint16(start + 8, true),
+        messageInstructionIndex: view.getUint8(start + 10)
+      });
+    }
+
+    return offsets;
+  }
+
+  /**
+   * Decode a self-contained instruction back into its signatures
+   * @param data - The instruction data
+   * @param instructionIndex - The index of this instruction in the transaction
+   * @returns The signatures carried by the instruction
+   */
+  static decodeInstructionData(data: Uint8Array, instructionIndex: number = 0): Secp256k1ProgramSignature[] {
+    const instructionDatas: Uint8Array[] = [];
+    instructionDatas[instructionIndex] = data;
+
+    return Secp256k1Program.resolveSignatures(data, instructionDatas);
+  }
+
+  /**
+   * Decode an instruction whose offsets may point into other instructions
+   * @param data - The instruction data
+   * @param instructionDatas - The data of every instruction in the transaction, by index
+   * @returns The signatures referenced by the instruction
+   */
+  static resolveSignatures(data: Uint8Array, instructionDatas: Uint8Array[]): Secp256k1ProgramSignature[] {
+    return Secp256k1Program.decodeOffsets(data).map(offsets => {
+      const signatureBytes = sliceInstruction(
+        instructionDatas,
+        offsets.signatureInstructionIndex,
+        offsets.signatureOffset,
+        SECP256K1_SIGNATURE_SERIALIZED_SIZE + 1
+      );
+
+      return {
+        signature: new Secp256k1EcdsaSignature(
+          signatureBytes.slice(0, SECP256K1_SIGNATURE_SERIALIZED_SIZE),
+          signatureBytes[SECP256K1_SIGNATURE_SERIALIZED_SIZE]
+        ),
+        recoveryId: signatureBytes[SECP256K1_SIGNATURE_SERIALIZED_SIZE],
+        ethAddress: sliceInstruction(
+          instructionDatas,
+          offsets.ethAddressInstructionIndex,
+          offsets.ethAddressOffset,
+          SECP256K1_HASHED_PUBKEY_SERIALIZED_SIZE
+        ),
+        message: sliceInstruction(
+          instructionDatas,
+          offsets.messageInstructionIndex,
+          offsets.messageDataOffset,
+          offsets.messageDataSize
+        )
+      };
+    });
+  }
+}
+
+/**
+ * Read a range of bytes from one of the transaction's instructions
+ */
+function sliceInstruction(
+  instructionDatas: Uint8Array[],
+  index: number,
+  offset: number,
+  size: number
+): Uint8Array {
+  const data = instructionDatas[index];
+  if (!data) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidInstructionData,
+      `Offsets point into unavailable instruction ${index}`
+    );
+  }
+
+  if (offset + size > data.length) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidInstructionData,
+      `Offsets out of bounds of instruction ${index}: ${offset + size} > ${data.length}`
+    );
+  }
+
+  return data.slice(offset, offset + size);
+}
+
+/**
+ * Write a u8 field, checking its range
+ */
+function writeU8(view: DataView, offset: number, value: number): void {
+  if (!Number.isInteger(value) || value < 0 || value > 0xff) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidInstructionData,
+      `Value does not fit in a u8: ${value}`
+    );
+  }
+
+  view.setUint8(offset, value);
+}
+
+/**
+ * Write a little-endian u16 field, checking its range
+ */
+function writeU16(view: DataView, offset: number, value: number): void {
+  if (!Number.isInteger(value) || value < 0 || value > 0xffff) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidInstructionData,
+      `Value does not fit in a u16: ${value}`
+    );
+  }
+
+  view.setUint16(offset, value, true);
+}
@@ -0,0 +1,277 @@
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from '../errors';
+import { SHA256 } from '../hash';
+import { Secp256r1EcdsaSignature, Secp256r1PrivateKey } from '../secp256r1';
+
+// Secp256r1 native program id
+export const SECP256R1_PROGRAM_ID = 'Secp256r1SigVerify1111111111111111111111111';
+
+// Instruction layout sizes
+export const SECP256R1_SIGNATURE_OFFSETS_SERIALIZED_SIZE = 14;
+export const SECP256R1_SIGNATURE_OFFSETS_START = 2;
+export const SECP256R1_COMPRESSED_PUBKEY_SERIALIZED_SIZE = 33;
+export const SECP256R1_SIGNATURE_SERIALIZED_SIZE = 64;
+
+// Most signatures the program accepts in one instruction
+export const SECP256R1_MAX_SIGNATURES = 8;
+
+// Instruction index meaning "the secp256r1 instruction itself"
+export const SECP256R1_CURRENT_INSTRUCTION = 0xffff;
+
+/**
+ * Offsets of one signature's data, as stored in the instruction header
+ */
+export interface Secp256r1SignatureOffsets {
+  signatureOffset: number;
+  signatureInstructionIndex: number;
+  publicKeyOffset: number;
+  publicKeyInstructionIndex: number;
+  messageDataOffset: number;
+  messageDataSize: number;
+  messageInstructionIndex: number;
+}
+
+/**
+ * A signature checked by the secp256r1 program
+ */
+export interface Secp256r1ProgramSignature {
+  signature: Secp256r1EcdsaSignature;
+  // The signer's 33-byte compressed public key
+  publicKey: Uint8Array;
+  message: Uint8Array;
+}
+
+/**
+ * Secp256r1Program
+ * Encodes and decodes instruction data for Solana's secp256r1 (P-256) native program.
+ * Unlike the secp256k1 program, it takes the public key itself, u16 instruction indices,
+ * and hashes messages with SHA256.
+ */
+export class Secp256r1Program {
+  /**
+   * Sign a message so it can be checked by the secp256r1 program
+   * @param message - The message to sign, hashed with SHA256 by the program
+   * @param privkey - The P-256 private key
+   * @returns The signature entry, with a low s value as the program requires
+   */
+  static createSignature(
+    message: Uint8Array,
+    privkey: Uint8Array | Secp256r1PrivateKey
+  ): Secp256r1ProgramSignature {
+    const privateKey = Secp256r1PrivateKey.from(privkey);
+
+    return {
+      signature: Secp256r1EcdsaSignature.sign(new SHA256(), message, privateKey).normalizeS(),
+      publicKey: privateKey.publicKey().toCompressed(),
+      message
+    };
+  }
+
+  /**
+   * Encode a self-contained instruction carrying one or more signatures
+   * @param signatures - The signatures to check
+   * @returns The instruction data, whose offsets all point into the instruction itself
+   */
+  static encodeInstructionData(signatures: Secp256r1ProgramSignature[]): Uint8Array {
+    // Lay out each signature's data after the offsets header
+    const dataStart = SECP256R1_SIGNATURE_OFFSETS_START +
+      signatures.length * SECP256R1_SIGNATURE_OFFSETS_SERIALIZED_SIZE;
+
+    const offsets: Secp256r1SignatureOffsets[] = [];
+    const chunks: Uint8Array[] = [];
+    let cursor = dataStart;
+
+    for (const entry of signatures) {
+      if (entry.publicKey.length !== SECP256R1_COMPRESSED_PUBKEY_SERIALIZED_SIZE) {
+        throw new Secp256k1EcdsaException(
+          Secp256k1EcdsaError.InvalidInstructionData,
+          `Invalid compressed public key length: ${entry.publicKey.length}`
+        );
+      }
+
+      // Layout: public key (33) || signature (64) || message
+      const publicKeyOffset = cursor;
+      const signatureOffset = publicKeyOffset + SECP256R1_COMPRESSED_PUBKEY_SERIALIZED_SIZE;
+      const messageDataOffset = signatureOffset + SECP256R1_SIGNATURE_SERIALIZED_SIZE;
+
+      offsets.push({
+        signatureOffset,
+        signatureInstructionIndex: SECP256R1_CURRENT_INSTRUCTION,
+        publicKeyOffset,
+        publicKeyInstructionIndex: SECP256R1_CURRENT_INSTRUCTION,
+        messageDataOffset,
+        messageDataSize: entry.message.length,
+        messageInstructionIndex: SECP256R1_CURRENT_INSTRUCTION
+      });
+      chunks.push(entry.publicKey, entry.signature.signature, entry.message);
+
+      cursor = messageDataOffset + entry.message.length;
+    }
+
+    const payload = new Uint8Array(cursor - dataStart);
+    let position = 0;
+    for (const chunk of chunks) {
+      payload.set(chunk, position);
+      position += chunk.length;
+    }
+
+    return Secp256r1Program.encodeOffsets(offsets, payload);
+  }
+
+  /**
+   * Encode an instruction from explicit offsets, e.g. pointing into other instructions
+   * @param offsets - The offsets of each signature
+   * @param payload - Data appended after the offsets header
+   * @returns The instruction data
+   */
+  static encodeOffsets(
+    offsets: Secp256r1SignatureOffsets[],
+    payload: Uint8Array = new Uint8Array(0)
+  ): Uint8Array {
+    if (offsets.length === 0 || offsets.length > SECP256R1_MAX_SIGNATURES) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidInstructionData,
+        `Invalid signature count: ${offsets.length}, expected 1 to ${SECP256R1_MAX_SIGNATURES}`
+      );
+    }
+
+    const headerLength = SECP256R1_SIGNATURE_OFFSETS_START +
+      offsets.length * SECP256R1_SIGNATURE_OFFSETS_SERIALIZED_SIZE;
+    const data = new Uint8Array(headerLength + payload.length);
+    const view = new DataView(data.buffer);
+
+    // Signature count, then a padding byte
+    data[0] = offsets.length;
+
+    offsets.forEach((entry, i) => {
+      const start = SECP256R1_SIGNATURE_OFFSETS_START + i * SECP256R1_SIGNATURE_OFFSETS_SERIALIZED_SIZE;
+
+      writeU16(view, start, entry.signatureOffset);
+      writeU16(view, start + 2, entry.signatureInstructionIndex);
+      writeU16(view, start + 4, entry.publicKeyOffset);
+      writeU16(view, start + 6, entry.publicKeyInstructionIndex);
+      writeU16(view, start + 8, entry.messageDataOffset);
+      writeU16(view, start + 10, entry.messageDataSize);
+      writeU16(view, start + 12, entry.messageInstructionIndex);
+    });
+
+    data.set(payload, headerLength);
+
+    return data;
+  }
+
+  /**
+   * Decode the offsets header of an instruction
+   * @param data - The instruction data
+   * @returns The offsets of each signature
+   */
+  static decodeOffsets(data: Uint8Array): Secp256r1SignatureOffsets[] {
+    if (data.length < SECP256R1_SIGNATURE_OFFSETS_START) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidInstructionData,
+        `Instruction data too small: ${data.length}`
+      );
+    }
+
+    const count = data[0];
+    if (count === 0 || count > SECP256R1_MAX_SIGNATURES) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidInstructionData,
+        `Invalid signature count: ${count}, expected 1 to ${SECP256R1_MAX_SIGNATURES}`
+      );
+    }
+
+    const headerLength = SECP256R1_SIGNATURE_OFFSETS_START + count * SECP256R1_SIGNATURE_OFFSETS_SERIALIZED_SIZE;
+    if (data.length < headerLength) {
+      throw new Secp256k1EcdsaException(
+        Secp256k1EcdsaError.InvalidInstructionData,
+        `Instruction data too small for ${count} signatures: ${data.length}`
+      );
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const offsets: Secp256r1SignatureOffsets[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const start = SECP256R1_SIGNATURE_OFFSETS_START + i * SECP256R1_SIGNATURE_OFFSETS_SERIALIZED_SIZE;
+
+      offsets.push({
+        signatureOffset: view.getUint16(start, true),
+        signatureInstructionIndex: view.getUint16(start + 2, true),
+        publicKeyOffset: view.getUint16(start + 4, true),
+        publicKeyInstructionIndex: view.getUint16(start + 6, true),
+        messageDataOffset: view.getUint16(start + 8, true),
+        messageDataSize: view.getUint16(start + 10, true),
+        messageInstructionIndex: view.getUint16(start + 12, true)
+      });
+    }
+
+    return offsets;
+  }
+
+  /**
+   * Decode a self-contained instruction back into its signatures
+   * @param data - The instruction data
+   * @returns The signatures carried by the instruction
+   */
+  static decodeInstructionData(data: Uint8Array): Secp256r1ProgramSignature[] {
+    return Secp256r1Program.resolveSignatures(data, []);
+  }
+
+  /**
+   * Decode an instruction whose offsets may point into other instructions
+   * @param data - The instruction data, which `SECP256R1_CURRENT_INSTRUCTION` refers to
+   * @param instructionDatas - The data of every instruction in the transaction, by index
+   * @returns The signatures referenced by the instruction
+   */
+  static resolveSignatures(data: Uint8Array, instructionDatas: Uint8Array[]): Secp256r1ProgramSignature[] {
+    const slice = (index: number, offset: number, size: number) =>
+      sliceInstruction(index === SECP256R1_CURRENT_INSTRUCTION ? data : instructionDatas[index], index, offset, size);
+
+    return Secp256r1Program.decodeOffsets(data).map(offsets => ({
+      signature: new Secp256r1EcdsaSignature(
+        slice(offsets.signatureInstructionIndex, offsets.signatureOffset, SECP256R1_SIGNATURE_SERIALIZED_SIZE)
+      ),
+      publicKey: slice(
+        offsets.publicKeyInstructionIndex,
+        offsets.publicKeyOffset,
+        SECP256R1_COMPRESSED_PUBKEY_SERIALIZED_SIZE
+      ),
+      message: slice(offsets.messageInstructionIndex, offsets.messageDataOffset, offsets.messageDataSize)
+    }));
+  }
+}
+
+/**
+ * Read a range of bytes from one of the transaction's instructions
+ */
+function sliceInstruction(data: Uint8Array | undefined, index: number, offset: number, size: number): Uint8Array {
+  if (!data) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidInstructionData,
+      `Offsets point into unavailable instruction ${index}`
+    );
+  }
+
+  if (offset + size > data.length) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidInstructionData,
+      `Offsets out of bounds of instruction ${index}: ${offset + size} > ${data.length}`
+    );
+  }
+
+  return data.slice(offset, offset + size);
+}
+
+/**
+ * Write a little-endian u16 field, checking its range
+ */
+function writeU16(view: DataView, offset: number, value: number): void {
+  if (!Number.isInteger(value) || value < 0 || value > 0xffff) {
+    throw new Secp256k1EcdsaException(
+      Secp256k1EcdsaError.InvalidInstructionData,
+      `Value does not fit in a u16: ${value}`
+    );
+  }
+
+  view.setUint16(offset, value, true);
+}
@@ -1,55 +1,193 @@
-import { ec as EC } from 'elliptic';
+import { secp256k1, secp256r1, type PreparedPoint, type WeierstrassCurve } from './curve';
 
-// Initialize secp256k1 curve
-const ec = new EC('secp256k1');
+export type { PreparedPoint } from './curve';
 
 /**
- * Utility functions for elliptic curve operations
+ * Byte-oriented elliptic curve operations on 32-byte scalars and coordinates
  */
-export class Curve {
+export class EllipticCurve {
   // Half of the curve order
-  public static readonly N_DIV_2 = ec.n!.shrn(1);
-  
+  public readonly N_DIV_2: bigint;
+
   // Curve order
-  public static readonly N = ec.n!;
+  public readonly N: bigint;
+
+  // Field prime
+  public readonly P: bigint;
+
+  /**
+   * Create the operations of a curve
+   * @param curve - The underlying bigint curve, with 256-bit field and order
+   */
+  constructor(private readonly curve: WeierstrassCurve) {
+    this.N = curve.params.n;
+    this.P = curve.params.p;
+    this.N_DIV_2 = this.N >> 1n;
+  }
 
   /**
    * Multiply generator point by scalar
    * @param k - The scalar value
    * @returns The resulting point x-coordinate as a 32-byte array
    */
-  public static mulG(k: Uint8Array): Uint8Array {
-    try {
-      // Convert k to BN
-      const scalar = toScalar(k);
-      
-      // Multiply generator by scalar
-      const point = ec.g.mul(scalar);
-      
-      return pointXToBytes(point);
-    } catch (error) {
-      console.error('Error in mulG:', error);
-      throw error;
+  mulG(k: Uint8Array): Uint8Array {
+    return this.mulGPoint(k).x;
+  }
+
+  /**
+   * Multiply generator point by scalar, keeping both coordinates
+   * @param k - The scalar value, treated as secret
+   * @returns The resulting point with x and y coordinates as 32-byte arrays
+   */
+  mulGPoint(k: Uint8Array): { x: Uint8Array, y: Uint8Array } {
+    return pointToBytes(this.curve.multiplyBaseSecret(toBigInt(k)));
+  }
+
+  /**
+   * Multiply a point by a secret scalar, as in ECDH
+   * @param point - The point with x and y coordinates as 32-byte arrays
+   * @param k - The scalar value, treated as secret
+   * @returns The resulting point with x and y coordinates as 32-byte arrays
+   */
+  mulPointSecret(point: { x: Uint8Array, y: Uint8Array }, k: Uint8Array): { x: Uint8Array, y: Uint8Array } {
+    return pointToBytes(this.curve.multiplySecret({ x: toBigInt(point.x), y: toBigInt(point.y) }, toBigInt(k)));
+  }
+
+  /**
+   * Reduce a number modulo N
+   * @param a - The input value
+   * @returns The reduced value as a 32-byte array
+   */
+  modN(a: Uint8Array): Uint8Array {
+    return bigIntToBytes(this.toScalar(a));
+  }
+
+  /**
+   * Check whether a number is greater than or equal to N
+   * @param a - The input value
+   * @returns True if the value is not a reduced scalar
+   */
+  gteN(a: Uint8Array): boolean {
+    return toBigInt(a) >= this.N;
+  }
+
+  /**
+   * Recover the point R of a signature from its r component and recovery id
+   * @param r - The r component of the signature
+   * @param recoveryId - The recovery id (bit 0: y parity, bit 1: x overflowed N)
+   * @returns The point R with x and y coordinates as 32-byte arrays
+   */
+  liftR(r: Uint8Array, recoveryId: number): { x: Uint8Array, y: Uint8Array } {
+    let x = toBigInt(r);
+
+    // The x-coordinate of R was reduced mod N when producing r
+    if (recoveryId & 2) {
+      x += this.N;
+      if (x >= this.P) {
+        throw new Error('R x-coordinate out of range');
+      }
+    }
+
+    return this.liftX(bigIntToBytes(x), (recoveryId & 1) === 1);
+  }
+
+  /**
+   * Find the curve point with the given x-coordinate and y parity
+   * @param x - The x-coordinate as a 32-byte array
+   * @param odd - Whether the y-coordinate is odd
+   * @returns The point with x and y coordinates as 32-byte arrays
+   */
+  liftX(x: Uint8Array, odd: boolean): { x: Uint8Array, y: Uint8Array } {
+    // Throws if x is out of range or not on the curve
+    return pointToBytes(this.curve.liftX(toBigInt(x), odd));
+  }
+
+  /**
+   * Check whether coordinates describe a point on the curve
+   * @param point - The point with x and y coordinates as 32-byte arrays
+   * @returns True if the point is on the curve
+   */
+  isOnCurve(point: { x: Uint8Array, y: Uint8Array }): boolean {
+    return this.curve.isOnCurve({ x: toBigInt(point.x), y: toBigInt(point.y) });
+  }
+
+  /**
+   * Check whether a number is a valid private key, i.e. in [1, N-1]
+   * @param a - The input value
+   * @returns True if the value is a valid scalar
+   */
+  isValidScalar(a: Uint8Array): boolean {
+    const value = toBigInt(a);
+
+    return value > 0n && value < this.N;
+  }
+
+  /**
+   * Parse a public key into a reusable curve point for verification
+   * @param point - The point with x and y coordinates as 32-byte arrays
+   * @param precompute - Whether to build larger multiplication tables, worth it for keys verified many times
+   * @returns An opaque prepared point
+   */
+  preparePoint(point: { x: Uint8Array, y: Uint8Array }, precompute: boolean = false): PreparedPoint {
+    const affine = { x: toBigInt(point.x), y: toBigInt(point.y) };
+    if (!this.curve.isOnCurve(affine)) {
+      throw new Error('Point is not on the curve');
     }
+
+    return this.curve.prepare(affine, precompute);
+  }
+
+  /**
+   * Check an ECDSA signature against a prepared public key
+   * @param point - The prepared public key
+   * @param digest - The message hash
+   * @param r - The r component of the signature
+   * @param s - The s component of the signature
+   * @returns True if the x-coordinate of (h * s^-1) * G + (r * s^-1) * Q equals r
+   */
+  verifyPrepared(point: PreparedPoint, digest: Uint8Array, r: Uint8Array, s: Uint8Array): boolean {
+    const pointX = this.verifyPoint(point, digest, r, s);
+
+    // Compare r to x coordinate of recovered point
+    return pointX !== null && pointX.every((byte, i) => byte === r[i]);
+  }
+
+  /**
+   * Compute the x-coordinate of the point an ECDSA signature commits to
+   * @param point - The prepared public key
+   * @param digest - The message hash
+   * @param r - The r component of the signature
+   * @param s - The s component of the signature
+   * @returns The x-coordinate of (h * s^-1) * G + (r * s^-1) * Q reduced mod N, or null if r or s is zero or the point is at infinity
+   */
+  verifyPoint(point: PreparedPoint, digest: Uint8Array, r: Uint8Array, s: Uint8Array): Uint8Array | null {
+    const rScalar = this.toScalar(r);
+    const sScalar = this.toScalar(s);
+    if (rScalar === 0n || sScalar === 0n) {
+      return null;
+    }
+
+    // s1 = s^-1 % N
+    const s1 = this.curve.invert(sScalar, this.N);
+
+    // R' = (h * s1) * G + (r * s1) * Q
+    const hMulS1 = this.toScalar(digest) * s1;
+    const rMulS1 = rScalar * s1;
+    const recoveredPoint = this.curve.multiplyAdd(hMulS1, point, rMulS1);
+    if (!recoveredPoint) {
+      return null;
+    }
+
+    return bigIntToBytes(recoveredPoint.x % this.N);
   }
 
   /**
    * Compute modular inverse of a number mod N
-   * @param k - The input value
+   * @param k - The input value, treated as secret
    * @returns The modular inverse as a 32-byte array
    */
-  public static modInvN(k: Uint8Array): Uint8Array {
-    try {
-      const scalar = toScalar(k);
-      
-      // Calculate modular inverse
-      const inverse = scalar.invm(ec.n!);
-      
-      return bnToBytes(inverse);
-    } catch (error) {
-      console.error('Error in modInvN:', error);
-      throw error;
-    }
+  modInvN(k: Uint8Array): Uint8Array {
+    return bigIntToBytes(this.curve.invertSecret(this.toScalar(k), this.N));
   }
 
   /**
@@ -58,19 +196,8 @@ export class Curve {
    * @param b - Second number
    * @returns The product as a 32-byte array
    */
-  public static mulModN(a: Uint8Array, b: Uint8Array): Uint8Array {
-    try {
-      const aBN = toScalar(a);
-      const bBN = toScalar(b);
-      
-      // Calculate product modulo N
-      const product = aBN.mul(bBN).mod(ec.n!);
-      
-      return bnToBytes(product);
-    } catch (error) {
-      console.error('Error in mulModN:', error);
-      throw error;
-    }
+  mulModN(a: Uint8Array, b: Uint8Array): Uint8Array {
+    return bigIntToBytes(this.curve.modN(this.toScalar(a) * this.toScalar(b)));
   }
 
   /**
@@ -79,19 +206,8 @@ export class Curve {
    * @param b - Second number
    * @returns The sum as a 32-byte array
    */
-  public static addModN(a: Uint8Array, b: Uint8Array): Uint8Array {
-    try {
-      const aBN = toScalar(a);
-      const bBN = toScalar(b);
-      
-      // Calculate sum modulo N
-      const sum = aBN.add(bBN).mod(ec.n!);
-      
-      return bnToBytes(sum);
-    } catch (error) {
-      console.error('Error in addModN:', error);
-      throw error;
-    }
+  addModN(a: Uint8Array, b: Uint8Array): Uint8Array {
+    return bigIntToBytes(this.curve.modN(this.toScalar(a) + this.toScalar(b)));
   }
 
   /**
@@ -99,162 +215,94 @@ export class Curve {
    * @param a - The number to negate
    * @returns The negation as a 32-byte array
    */
-  public static negateN(a: Uint8Array): Uint8Array {
-    try {
-      const aBN = toScalar(a);
-      
-      // Calculate negation modulo N
-      const negation = ec.n!.sub(aBN).mod(ec.n!);
-      
-      return bnToBytes(negation);
-    } catch (error) {
-      console.error('Error in negateN:', error);
-      throw error;
+  negateN(a: Uint8Array): Uint8Array {
+    return bigIntToBytes(this.curve.modN(-this.toScalar(a)));
+  }
+
+  /**
+   * Add tweak * G to a point
+   * @param point - The point with x and y coordinates as 32-byte arrays
+   * @param tweak - The scalar multiplying the generator
+   * @returns The resulting point with x and y coordinates as 32-byte arrays
+   */
+  tweakAdd(point: { x: Uint8Array, y: Uint8Array }, tweak: Uint8Array): { x: Uint8Array, y: Uint8Array } {
+    const prepared = this.curve.prepare({ x: toBigInt(point.x), y: toBigInt(point.y) });
+    const sum = this.curve.multiplyAdd(this.toScalar(tweak), prepared, 1n);
+    if (!sum) {
+      throw new Error('Point at infinity');
     }
+
+    return pointToBytes(sum);
   }
 
   /**
    * Multiply point by scalar
-   * @param point - The point (as an EC point or an object with x,y coordinates)
+   * @param point - The point with x and y coordinates as 32-byte arrays
    * @param scalar - The scalar value
-   * @returns The resulting point
+   * @returns The resulting point, computed on first access, and a function adding tweak * G to it
    */
-  public static ecMul(point: any, scalar: Uint8Array): any {
-    try {
-      // If point is already an EC point, use it directly
-      let ecPoint;
-      if (typeof point.mul === 'function') {
-        ecPoint = point;
-      } else {
-        // Otherwise, create a point from x,y coordinates
-        const xHex = Buffer.from(point.x).toString('hex');
-        const yHex = Buffer.from(point.y).toString('hex');
-        ecPoint = ec.curve.point(xHex, yHex);
-      }
-      
-      // Multiply by scalar
-      const result = ecPoint.mul(toScalar(scalar));
-      
-      return {
-        x: pointXToBytes(result),
-        y: pointYToBytes(result),
-        tweak: function(scalar: Uint8Array) {
-          try {
-            // Generate generator * scalar
-            const tweakPoint = ec.g.mul(toScalar(scalar));
-            
-            // Add to current point
-            const sumPoint = result.add(tweakPoint);
-            
-            return {
-              x: pointXToBytes(sumPoint),
-              y: pointYToBytes(sumPoint)
-            };
-          } catch (error) {
-            console.error('Error in tweak function:', error);
-            throw error;
-          }
+  ecMul(
+    point: { x: Uint8Array, y: Uint8Array },
+    scalar: Uint8Array
+  ): { x: Uint8Array, y: Uint8Array, tweak: (tweak: Uint8Array) => { x: Uint8Array, y: Uint8Array } } {
+    const prepared = this.curve.prepare({ x: toBigInt(point.x), y: toBigInt(point.y) });
+    const k = this.toScalar(scalar);
+
+    let product: { x: Uint8Array, y: Uint8Array } | undefined;
+    const getProduct = () => product ??= pointToBytes(
+      this.curve.multiply(prepared.point, k)
+    );
+
+    return {
+      get x() {
+        return getProduct().x;
+      },
+      get y() {
+        return getProduct().y;
+      },
+      // scalar * P + tweak * G, sharing the doublings of both multiplications
+      tweak: (tweak: Uint8Array) => {
+        const sum = this.curve.multiplyAdd(this.toScalar(tweak), prepared, k);
+        if (!sum) {
+          throw new Error('Point at infinity');
         }
-      };
-    } catch (error) {
-      console.error('Error in ecMul:', error);
-      throw error;
-    }
-  }
-}
 
-/**
- * Convert a Uint8Array to a BN scalar
- */
-function toScalar(bytes: Uint8Array): any {
-  try {
-    // Convert to hex string first
-    const hex = Buffer.from(bytes).toString('hex');
-    // Create BN from hex
-    return ec.keyFromPrivate(hex, 'hex').getPrivate();
-  } catch (error) {
-    console.error('Error in toScalar:', error);
-    throw error;
+        return pointToBytes(sum);
+      }
+    };
   }
-}
 
-/**
- * Convert a BN to a 32-byte Uint8Array
- */
-function bnToBytes(bn: any): Uint8Array {
-  try {
-    if (!bn) {
-      throw new Error('BN is undefined or null');
-    }
-    
-    // Get hex representation with padding
-    const hex = bn.toString(16).padStart(64, '0');
-    const result = new Uint8Array(32);
-    
-    for (let i = 0; i < 32; i++) {
-      result[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
-    }
-    
-    return result;
-  } catch (error) {
-    console.error('Error in bnToBytes:', error, 'BN:', bn);
-    throw error;
+  /**
+   * Convert a Uint8Array to a scalar reduced modulo N
+   */
+  private toScalar(bytes: Uint8Array): bigint {
+    return toBigInt(bytes) % this.N;
   }
 }
 
+// secp256k1, used throughout the library
+export const Curve = new EllipticCurve(secp256k1);
+
+// NIST P-256 (secp256r1), for passkeys and Solana's secp256r1 program
+export const P256 = new EllipticCurve(secp256r1);
+
 /**
- * Extract x-coordinate from a point as a 32-byte Uint8Array
+ * Convert a big-endian Uint8Array to a bigint
  */
-function pointXToBytes(point: any): Uint8Array {
-  try {
-    if (!point || !point.getX) {
-      throw new Error('Invalid point object');
-    }
-    return bnToBytes(point.getX());
-  } catch (error) {
-    console.error('Error in pointXToBytes:', error);
-    throw error;
-  }
+function toBigInt(bytes: Uint8Array): bigint {
+  return BigInt('0x' + (Buffer.from(bytes).toString('hex') || '0'));
 }
 
 /**
- * Extract y-coordinate from a point as a 32-byte Uint8Array
+ * Convert a bigint to a 32-byte big-endian Uint8Array
  */
-function pointYToBytes(point: any): Uint8Array {
-  try {
-    if (!point || !point.getY) {
-      throw new Error('Invalid point object');
-    }
-    return bnToBytes(point.getY());
-  } catch (error) {
-    console.error('Error in pointYToBytes:', error);
-    throw error;
-  }
+function bigIntToBytes(value: bigint): Uint8Array {
+  return Uint8Array.from(Buffer.from(value.toString(16).padStart(64, '0'), 'hex'));
 }
 
 /**
- * Generate an RFC6979 deterministic k value for ECDSA signing
+ * Convert an affine point to 32-byte coordinates
  */
-export function rfc6979Generate(privKey: Uint8Array, message: Uint8Array): Uint8Array {
-  try {
-    // Convert to hex string first
-    const privHex = Buffer.from(privKey).toString('hex');
-    const msgHex = Buffer.from(message).toString('hex');
-    
-    // Use elliptic's built-in RFC6979 implementation
-    const key = ec.keyFromPrivate(privHex, 'hex');
-    const msgHash = Buffer.from(msgHex, 'hex');
-    
-    // Get k value from the built-in deterministic k generation
-    const signOptions: { canonical: boolean, k: any } = { canonical: true, k: null };
-    const sign = key.sign(msgHash, signOptions);
-    
-    // In elliptic library, the 'k' is available on the Signature object
-    const k = (sign as any).k;
-    
-    return bnToBytes(k);
-  } catch (error) {
-    console.error('Error in rfc6979Generate:', error);
-    throw error;
-  }
-} 
\ No newline at end of file
+function pointToBytes(point: { x: bigint, y: bigint }): { x: Uint8Array, y: Uint8Array } {
+  return { x: bigIntToBytes(point.x), y: bigIntToBytes(point.y) };
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "bun:test";
+import {
+  EthereumAddress,
+  BitcoinAddress,
+  TronAddress,
+  CosmosAddress,
+  Secp256k1EcdsaSignature,
+  Secp256k1EcdsaPublicKey,
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaError,
+  ESM
+} from "../src";
+import { expectError } from "./helpers";
+
+// Helper function to convert hex string to Uint8Array
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes[i / 2] = parseInt(hex.substring(i, i + 2), 16);
+  }
+  return bytes;
+}
+
+// Helper function to convert Uint8Array to hex string
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// The public key of private key 1, i.e. the generator point
+const PUBLIC_KEY = Secp256k1EcdsaPublicKey.fromPrivateKey(
+  hexToBytes("0000000000000000000000000000000000000000000000000000000000000001")
+);
+
+describe("Ethereum addresses", () => {
+  it("should derive the checksummed address of a public key", () => {
+    expect(EthereumAddress.fromPublicKey(PUBLIC_KEY)).toBe("0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf");
+    expect(bytesToHex(EthereumAddress.hashPublicKey(PUBLIC_KEY.toCompressed()))).toBe(
+      "7e5f4552091a69125d5dfcb7b8c2659029395bdf"
+    );
+  });
+
+  it("should apply EIP-55 checksums", () => {
+    // Test vectors from EIP-55
+    for (const address of [
+      "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed",
+      "0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359",
+      "0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB",
+      "0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb"
+    ]) {
+      expect(EthereumAddress.toChecksumAddress(address.toLowerCase())).toBe(address);
+      expect(EthereumAddress.isValidChecksum(address)).toBe(true);
+      expect(EthereumAddress.isValid(address, true)).toBe(true);
+    }
+  });
+
+  it("should reject bad checksums and malformed addresses", () => {
+    const badChecksum = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD";
+
+    expect(EthereumAddress.isValid(badChecksum)).toBe(false);
+    expect(EthereumAddress.isValid(badChecksum.toLowerCase())).toBe(true);
+    expect(EthereumAddress.isValid(badChecksum.toLowerCase(), true)).toBe(false);
+    expect(EthereumAddress.isValid("0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeA")).toBe(false);
+    expect(EthereumAddress.isValid("0xZaAeb6053F3E94C9b9A09f33669435E7Ef1BeAed")).toBe(false);
+
+    expectError(() => EthereumAddress.parse(badChecksum), Secp256k1EcdsaError.InvalidAddress);
+  });
+
+  it("should check a signed-by-address claim", () => {
+    const privateKey = Secp256k1EcdsaPrivateKey.generate();
+    const address = EthereumAddress.fromPublicKey(privateKey.publicKey());
+    const message = new TextEncoder().encode("I own this address");
+
+    const esm = new ESM();
+    const signature = Secp256k1EcdsaSignature.sign(esm, message, privateKey);
+
+    expect(EthereumAddress.matches(address, signature.recover(esm, message))).toBe(true);
+    expect(EthereumAddress.matches(address, PUBLIC_KEY)).toBe(false);
+  });
+});
+
+describe("Bitcoin addresses", () => {
+  it("should derive P2PKH addresses", () => {
+    expect(BitcoinAddress.p2pkh(PUBLIC_KEY)).toBe("1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH");
+    expect(BitcoinAddress.p2pkh(PUBLIC_KEY, 'mainnet', false)).toBe("1EHNa6Q4Jz2uvNExL497mE43ikXhwF6kZm");
+    expect(BitcoinAddress.p2pkh(PUBLIC_KEY, 'testnet')).toBe("mrCDrCybB6J1vRfbwM5hemdJz73FwDBC8r");
+  });
+
+  it("should derive P2WPKH addresses", () => {
+    expect(BitcoinAddress.p2wpkh(PUBLIC_KEY)).toBe("bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4");
+    expect(BitcoinAddress.p2wpkh(PUBLIC_KEY, 'testnet')).toBe("tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx");
+  });
+
+  it("should parse addresses", () => {
+    expect(BitcoinAddress.parse("1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH")).toEqual({
+      type: 'p2pkh',
+      network: 'mainnet',
+      hash: hexToBytes("751e76e8199196d454941c45d1b3a323f1433bd6")
+    });
+    expect(BitcoinAddress.parse("BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4").type).toBe('p2wpkh');
+    expect(BitcoinAddress.parse("3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy").type).toBe('p2sh');
+
+    // BIP173 and BIP350 test vectors
+    const p2wsh = BitcoinAddress.parse("tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7");
+    expect(p2wsh.type).toBe('p2wsh');
+    expect(p2wsh.network).toBe('testnet');
+    expect(BitcoinAddress.parse("bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0").type).toBe('p2tr');
+  });
+
+  it("should validate addresses", () => {
+    expect(BitcoinAddress.isValid("1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH", 'mainnet')).toBe(true);
+    expect(BitcoinAddress.isValid("1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH", 'testnet')).toBe(false);
+
+    // Bad base58check checksum
+    expect(BitcoinAddress.isValid("1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMJ")).toBe(false);
+    // Bad bech32 checksum
+    expect(BitcoinAddress.isValid("bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t5")).toBe(false);
+    // Mixed case
+    expect(BitcoinAddress.isValid("bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8F3t4")).toBe(false);
+    // Witness v2 encoded with bech32 instead of bech32m
+    expect(BitcoinAddress.isValid("bc1zw508d6qejxtdg4y5r3zarvaryvqyzf3du")).toBe(false);
+  });
+
+  it("should match addresses to public keys", () => {
+    expect(BitcoinAddress.matches("1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH", PUBLIC_KEY)).toBe(true);
+    expect(BitcoinAddress.matches("1EHNa6Q4Jz2uvNExL497mE43ikXhwF6kZm", PUBLIC_KEY)).toBe(true);
+    expect(BitcoinAddress.matches("bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4", PUBLIC_KEY)).toBe(true);
+    expect(BitcoinAddress.matches("3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy", PUBLIC_KEY)).toBe(false);
+  });
+});
+
+describe("Tron addresses", () => {
+  it("should derive, parse and validate addresses", () => {
+    const address = TronAddress.fromPublicKey(PUBLIC_KEY);
+
+    expect(address).toBe("TMVQGm1qAQYVdetCeGRRkTWYYrLXuHK2HC");
+    expect(bytesToHex(TronAddress.parse(address))).toBe("7e5f4552091a69125d5dfcb7b8c2659029395bdf");
+    expect(TronAddress.isValid(address)).toBe(true);
+    expect(TronAddress.matches(address, PUBLIC_KEY)).toBe(true);
+
+    // A Bitcoin address has the wrong version byte
+    expect(TronAddress.isValid("1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH")).toBe(false);
+    expect(TronAddress.isValid("TMVQGm1qAQYVdetCeGRRkTWYYrLXuHK2HD")).toBe(false);
+  });
+});
+
+describe("Cosmos addresses", () => {
+  it("should derive, parse and validate addresses", () => {
+    const address = CosmosAddress.fromPublicKey(PUBLIC_KEY);
+
+    expect(address).toBe("cosmos1w508d6qejxtdg4y5r3zarvary0c5xw7k6ah60c");
+    expect(CosmosAddress.fromPublicKey(PUBLIC_KEY, 'osmo')).toBe("osmo1w508d6qejxtdg4y5r3zarvary0c5xw7kjxy2e2");
+
+    const parsed = CosmosAddress.parse(address, 'cosmos');
+    expect(parsed.prefix).toBe('cosmos');
+    expect(bytesToHex(parsed.hash)).toBe("751e76e8199196d454941c45d1b3a323f1433bd6");
+
+    expect(CosmosAddress.isValid(address)).toBe(true);
+    expect(CosmosAddress.isValid(address, 'osmo')).toBe(false);
+    expect(CosmosAddress.isValid("cosmos1w508d6qejxtdg4y5r3zarvary0c5xw7k6ah60d")).toBe(false);
+    expect(CosmosAddress.matches(address, PUBLIC_KEY)).toBe(true);
+  });
+});
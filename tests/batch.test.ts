@@ -0,0 +1,112 @@
+import { describe, expect, it } from "bun:test";
+import {
+  verifyBatch,
+  verifyBatchParallel,
+  Secp256k1EcdsaSignature,
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaPublicKey,
+  SHA256,
+  Keccak,
+  Secp256k1EcdsaError
+} from "../src";
+import type { Secp256k1EcdsaBatchItem } from "../src";
+import { runWorker } from "../src/batch/threads";
+import { expectError } from "./helpers";
+
+// Build a batch of valid and tampered signatures from a few signers
+function buildBatch(): Secp256k1EcdsaBatchItem[] {
+  const sha256 = new SHA256();
+  const signers = [Secp256k1EcdsaPrivateKey.generate(), Secp256k1EcdsaPrivateKey.generate()];
+  const items: Secp256k1EcdsaBatchItem[] = [];
+
+  // Enough signatures from the first signer to trigger table precomputation
+  for (let i = 0; i < 20; i++) {
+    const signer = signers[i % 5 === 0 ? 1 : 0];
+    const message = new TextEncoder().encode(`message ${i}`);
+    const signature = Secp256k1EcdsaSignature.sign(sha256, message, signer);
+
+    items.push({ signature, message, publicKey: signer.publicKey() });
+  }
+
+  // Wrong message, wrong key, mismatched hash, high-S and raw encodings
+  const message = new TextEncoder().encode("message 0");
+  items.push({ ...items[0], message: new TextEncoder().encode("tampered") });
+  items.push({ ...items[1], publicKey: items[0].publicKey });
+  items.push({ ...items[2], hashImpl: new Keccak() });
+  items.push({ ...items[0], signature: (items[0].signature as Secp256k1EcdsaSignature).normalizeS() });
+  items.push({ ...items[0], publicKey: (items[0].publicKey as Secp256k1EcdsaPublicKey).toCompressed() });
+  items.push({ ...items[0], signature: (items[0].signature as Secp256k1EcdsaSignature).signature, message });
+
+  // Unparseable signature and public key, and an all-zero signature
+  items.push({ ...items[0], signature: new Uint8Array(10) });
+  items.push({ ...items[0], publicKey: new Uint8Array(33) });
+  items.push({ ...items[0], signature: new Uint8Array(64) });
+
+  return items;
+}
+
+// The result of verifying each item one at a time
+function verifyEach(items: Secp256k1EcdsaBatchItem[]): boolean[] {
+  return items.map(item => {
+    try {
+      const signature = item.signature instanceof Secp256k1EcdsaSignature
+        ? item.signature
+        : new Secp256k1EcdsaSignature(item.signature);
+      const hashImpl = item.hashImpl ?? new SHA256();
+      const publicKey = item.publicKey instanceof Uint8Array
+        ? Secp256k1EcdsaPublicKey.fromBytes(item.publicKey)
+        : item.publicKey;
+
+      return signature.verify(hashImpl, item.message, publicKey);
+    } catch (error) {
+      return false;
+    }
+  });
+}
+
+describe("Batch verification", () => {
+  const items = buildBatch();
+  const expected = verifyEach(items);
+
+  it("should match single-item verification", () => {
+    expect(expected.slice(0, 20).every(Boolean)).toBe(true);
+    expect(expected.slice(20)).toEqual([false, false, false, true, true, true, false, false, false]);
+
+    expect(verifyBatch(items, { hashImpl: new SHA256() })).toEqual(expected);
+  });
+
+  it("should treat items without a hash implementation as invalid", () => {
+    expect(verifyBatch(items.slice(0, 2))).toEqual([false, false]);
+    expect(verifyBatch([])).toEqual([]);
+  });
+
+  it("should give the same results on worker threads", async () => {
+    const results = await verifyBatchParallel(items, { hashImpl: new SHA256(), workers: 2 });
+
+    expect(results).toEqual(expected);
+  });
+
+  it("should reject when a worker exits without posting results", async () => {
+    const exiting = new URL("./fixtures/exiting-worker.ts", import.meta.url);
+
+    await expect(runWorker([], exiting)).rejects.toThrow("exited with code 3");
+  });
+
+  it("should treat digests that are not 32 bytes as invalid, as verify rejects them", async () => {
+    const sha256 = new SHA256();
+    // SHA-256 behind a zero byte: the same integer as the signed digest, but 33 bytes long
+    const padded = { hash: (message: Uint8Array) => Uint8Array.of(0, ...sha256.hash(message)) };
+    const truncated = { hash: (message: Uint8Array) => sha256.hash(message).slice(0, 31) };
+    const item = items[0];
+    const signature = item.signature as Secp256k1EcdsaSignature;
+
+    const publicKey = item.publicKey as Secp256k1EcdsaPublicKey;
+    expect(signature.verify(padded, item.message, publicKey)).toBe(false);
+    expectError(() => signature.verifyDigest(padded.hash(item.message), publicKey), Secp256k1EcdsaError.InvalidHashLength);
+
+    const batch = [{ ...item, hashImpl: padded }, { ...item, hashImpl: truncated }, item];
+    expect(verifyBatch(batch, { hashImpl: sha256 })).toEqual(verifyEach(batch));
+    expect(verifyBatch(batch, { hashImpl: sha256 })).toEqual([false, false, true]);
+    expect(await verifyBatchParallel(batch, { hashImpl: sha256, workers: 2 })).toEqual([false, false, true]);
+  });
+});
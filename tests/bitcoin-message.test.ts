@@ -0,0 +1,105 @@
+import { describe, expect, it } from "bun:test";
+import {
+  signBitcoinMessage,
+  verifyBitcoinMessage,
+  encodeBitcoinMessageSignature,
+  decodeBitcoinMessageSignature,
+  BitcoinAddress,
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaError,
+  Secp256k1EcdsaException
+} from "../src";
+import { expectError } from "./helpers";
+
+// Helper function to convert hex string to Uint8Array
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes[i / 2] = parseInt(hex.substring(i, i + 2), 16);
+  }
+  return bytes;
+}
+
+// Bitcoin Core's rpc_signmessage.py vector: WIF cUeKHd5orzT3mz8P9pxyREHfsWtVfgsfDjiZZBcjUBAaGk1BTj7N
+const PRIVATE_KEY = Secp256k1EcdsaPrivateKey.from(
+  hexToBytes("d2b8a0116d641fe7d3036f8464628fb595b480414c13a301b3d4038c811c28b0")
+);
+const MESSAGE = "This is just a test message";
+const CORE_ADDRESS = "mpLQjfK79b7CCV4VMJWEWAj5Mpx8Up5zxB";
+const CORE_SIGNATURE = "INbVnW4e6PeRmsv2Qgu8NuopvrVjkcxob+sX8OcZG0SALhWybUjzMLPdAsXI46YZGb0KQTRii+wWIQzRpG/U+S0=";
+
+// The same signature with Electrum/Trezor segwit headers, cross-checked with bitcoinjs-message
+const SIGNATURE_BODY = CORE_SIGNATURE.slice(1);
+const ADDRESSES = {
+  p2pkh: "19pTScE8LZfwRNasdjXrgFWkVqMRcU99GK",
+  p2pkhUncompressed: "1CnXtvgj7uMsdiJasfWCVZ9i5kZLYnmWZi",
+  p2shP2wpkh: "37krNka3CuJNM1y7geio8J5qggGZjjEj8o",
+  p2wpkh: "bc1qvza2pay5kwxw8j2qm6n87wqym3fdr7u5s4hpp3"
+};
+
+describe("Bitcoin signed messages", () => {
+  it("should match Bitcoin Core's signmessage and verifymessage", () => {
+    expect(signBitcoinMessage(MESSAGE, PRIVATE_KEY)).toBe(CORE_SIGNATURE);
+    expect(verifyBitcoinMessage(MESSAGE, CORE_ADDRESS, CORE_SIGNATURE)).toBe(true);
+    expect(verifyBitcoinMessage(MESSAGE, ADDRESSES.p2pkh, CORE_SIGNATURE)).toBe(true);
+
+    expect(verifyBitcoinMessage("This is just a test message.", CORE_ADDRESS, CORE_SIGNATURE)).toBe(false);
+    expect(verifyBitcoinMessage(MESSAGE, "mrCDrCybB6J1vRfbwM5hemdJz73FwDBC8r", CORE_SIGNATURE)).toBe(false);
+  });
+
+  it("should sign and verify every address type", () => {
+    expect(BitcoinAddress.p2shP2wpkh(PRIVATE_KEY.publicKey())).toBe(ADDRESSES.p2shP2wpkh);
+
+    const cases = [
+      { header: "H", options: { compressed: false }, address: ADDRESSES.p2pkhUncompressed },
+      { header: "I", options: {}, address: ADDRESSES.p2pkh },
+      { header: "J", options: { type: 'p2sh-p2wpkh' as const }, address: ADDRESSES.p2shP2wpkh },
+      { header: "K", options: { type: 'p2wpkh' as const }, address: ADDRESSES.p2wpkh }
+    ];
+
+    for (const { header, options, address } of cases) {
+      const signature = signBitcoinMessage(MESSAGE, PRIVATE_KEY, options);
+      expect(signature).toBe(header + SIGNATURE_BODY);
+      expect(verifyBitcoinMessage(MESSAGE, address, signature)).toBe(true);
+    }
+  });
+
+  it("should bind the key compression flag to the address", () => {
+    // An uncompressed header does not match the compressed key's addresses
+    const uncompressed = "H" + SIGNATURE_BODY;
+    expect(verifyBitcoinMessage(MESSAGE, ADDRESSES.p2pkh, uncompressed)).toBe(false);
+    expect(verifyBitcoinMessage(MESSAGE, ADDRESSES.p2wpkh, uncompressed)).toBe(false);
+
+    // Segwit signatures with Bitcoin Core's compressed P2PKH header are accepted
+    expect(verifyBitcoinMessage(MESSAGE, ADDRESSES.p2wpkh, CORE_SIGNATURE)).toBe(true);
+  });
+
+  it("should verify long messages with multi-byte length prefixes", () => {
+    const message = "x".repeat(300);
+    const signature = "Jy47ypULJHm9CGYfPLZpZUfYtiK/4Bfc38TlrQn+t5uBeAunXKMNgPh6pd98L/CY61qGGvpL4OpsPGgALArIrT8=";
+
+    expect(signBitcoinMessage(message, PRIVATE_KEY, { type: 'p2wpkh' })).toBe(signature);
+    expect(verifyBitcoinMessage(new TextEncoder().encode(message), ADDRESSES.p2wpkh, signature)).toBe(true);
+  });
+
+  it("should encode and decode compact signatures", () => {
+    const decoded = decodeBitcoinMessageSignature("K" + SIGNATURE_BODY);
+
+    expect(decoded.type).toBe('p2wpkh');
+    expect(decoded.compressed).toBe(true);
+    expect(decoded.signature.recoveryId).toBe(1);
+    expect(Buffer.from(encodeBitcoinMessageSignature(decoded)).toString("base64")).toBe("K" + SIGNATURE_BODY);
+
+    // Headers outside 27-42 are rejected
+    const bytes = Uint8Array.from(Buffer.from(CORE_SIGNATURE, "base64"));
+    for (const header of [26, 43]) {
+      bytes[0] = header;
+      expectError(() => decodeBitcoinMessageSignature(bytes), Secp256k1EcdsaError.InvalidRecoveryId);
+    }
+    expect(verifyBitcoinMessage(MESSAGE, CORE_ADDRESS, bytes)).toBe(false);
+
+    // Segwit signatures need a compressed key
+    expect(() => signBitcoinMessage(MESSAGE, PRIVATE_KEY, { type: 'p2wpkh', compressed: false }))
+      .toThrow(Secp256k1EcdsaException);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "bun:test";
+import { runCli, CLI_EXIT_USAGE } from "../src/cli/run";
+import type { CliIO } from "../src/cli/run";
+import { base58Encode } from "../src/encoding";
+import { Secp256k1EcdsaError } from "../src";
+
+const PRIVATE_KEY = "0000000000000000000000000000000000000000000000000000000000000001";
+const PUBLIC_KEY = "0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798";
+
+// Run the CLI against in-memory streams and files
+async function run(argv: string[], stdin: string = "", files: Record<string, string> = {}) {
+  let stdout = "";
+  let stderr = "";
+  const io: CliIO = {
+    stdout: text => { stdout += text; },
+    stderr: text => { stderr += text; },
+    readStdin: async () => new TextEncoder().encode(stdin),
+    readFile: path => {
+      if (!(path in files)) {
+        throw new Error("ENOENT");
+      }
+      return new TextEncoder().encode(files[path]);
+    }
+  };
+
+  const code = await runCli(argv, io);
+  const output = stdout || stderr;
+  return { code, stdout, stderr, json: output.startsWith("{") ? JSON.parse(output) : null };
+}
+
+describe("sol-ecdsa CLI", () => {
+  it("should generate keys and derive public keys", async () => {
+    const keygen = await run(["keygen"]);
+    const pubkey = await run(["pubkey", "-k", keygen.json.privateKey]);
+
+    expect(keygen.code).toBe(0);
+    expect(pubkey.json.publicKey).toBe(keygen.json.publicKey);
+    expect((await run(["pubkey", "--key", PRIVATE_KEY])).json.publicKey).toBe(PUBLIC_KEY);
+  });
+
+  it("should sign, verify and recover with the selected hash", async () => {
+    for (const hash of ["sha256", "sha256d", "keccak", "bsm", "esm"]) {
+      const sign = await run(["sign", "-k", PRIVATE_KEY, "-H", hash, "hello"]);
+      const signature65 = sign.json.signature + sign.json.recoveryId.toString(16).padStart(2, "0");
+
+      expect(sign.code).toBe(0);
+      expect((await run(["verify", "-p", PUBLIC_KEY, "-s", sign.json.signature, "--hash", hash, "hello"])).json)
+        .toEqual({ valid: true });
+      expect((await run(["recover", "-s", signature65, "-H", hash, "hello"])).json.publicKey).toBe(PUBLIC_KEY);
+      expect((await run(["recover", "-s", sign.json.signature, "-r", String(sign.json.recoveryId), "-H", hash, "-m", "hello"]))
+        .json.publicKey).toBe(PUBLIC_KEY);
+    }
+  });
+
+  it("should read hex, base64, base58, file and stdin inputs", async () => {
+    const key = Buffer.from(PRIVATE_KEY, "hex");
+    const expected = (await run(["sign", "-k", PRIVATE_KEY, "hello"])).json.signature;
+    const inputs: [string[], string, Record<string, string>][] = [
+      [["sign", "-k", "0x" + PRIVATE_KEY, "hex:68656c6c6f"], "", {}],
+      [["sign", "-k", "base64:" + key.toString("base64"), "base64:aGVsbG8="], "", {}],
+      [["sign", "-k", "base58:" + base58Encode(key), "utf8:hello"], "", {}],
+      [["sign", "-k", "@key.txt", "@message.txt"], "", { "key.txt": PRIVATE_KEY + "\n", "message.txt": "hello" }],
+      [["sign", "-k", PRIVATE_KEY, "-"], "hello", {}]
+    ];
+
+    for (const [argv, stdin, files] of inputs) {
+      expect((await run(argv, stdin, files)).json.signature).toBe(expected);
+    }
+  });
+
+  it("should encode output bytes in the requested format", async () => {
+    const hex = await run(["pubkey", "-k", PRIVATE_KEY]);
+    const base64 = await run(["pubkey", "-k", PRIVATE_KEY, "-f", "base64"]);
+    const base58 = await run(["pubkey", "-k", PRIVATE_KEY, "--format", "base58"]);
+
+    expect(base64.json.publicKey).toBe(Buffer.from(hex.json.publicKey, "hex").toString("base64"));
+    expect(base58.json.publicKey).toBe(base58Encode(Buffer.from(hex.json.publicKey, "hex")));
+  });
+
+  it("should normalize high-S signatures, which verify rejects by default", async () => {
+    const sign = await run(["sign", "-k", PRIVATE_KEY, "hello"]);
+    const highS = sign.json.r + (0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141n - BigInt("0x" + sign.json.s))
+      .toString(16).padStart(64, "0");
+
+    const strict = await run(["verify", "-p", PUBLIC_KEY, "-s", highS, "hello"]);
+    expect(strict.code).toBe(Secp256k1EcdsaError.HighS);
+    expect(strict.json).toMatchObject({ valid: false, reason: "HighS" });
+    expect((await run(["verify", "-p", PUBLIC_KEY, "-s", highS, "--allow-high-s", "hello"])).code).toBe(0);
+
+    const normalized = await run(["normalize", "-s", highS]);
+    expect(normalized.json).toMatchObject({ signature: sign.json.signature, changed: true });
+    expect((await run(["normalize", "-s", sign.json.signature])).json.changed).toBe(false);
+  });
+
+  it("should exit with the Secp256k1EcdsaError code of a failure", async () => {
+    const signature = (await run(["sign", "-k", PRIVATE_KEY, "hello"])).json.signature;
+    const mismatch = await run(["verify", "-p", PUBLIC_KEY, "-s", signature, "goodbye"]);
+    const badKey = await run(["sign", "-k", "00".repeat(32), "hello"]);
+    const badPublicKey = await run(["verify", "-p", "05" + "00".repeat(32), "-s", signature, "hello"]);
+    const noRecoveryId = await run(["recover", "-s", signature, "hello"]);
+
+    expect(mismatch.code).toBe(Secp256k1EcdsaError.SignatureMismatch);
+    expect(badKey.code).toBe(Secp256k1EcdsaError.InvalidSecretKey);
+    expect(badKey.json).toMatchObject({ error: "InvalidSecretKey", code: Secp256k1EcdsaError.InvalidSecretKey });
+    expect(badPublicKey.code).toBe(Secp256k1EcdsaError.InvalidPublicKey);
+    expect(noRecoveryId.code).toBe(Secp256k1EcdsaError.InvalidRecoveryId);
+  });
+
+  it("should report usage errors", async () => {
+    for (const argv of [[], ["bogus"], ["sign", "hello"], ["sign", "-k", PRIVATE_KEY], ["keygen", "--nope"],
+      ["sign", "-k", PRIVATE_KEY, "-H", "md5", "hello"], ["sign", "-k", "xyz", "hello"], ["sign", "-k", "@missing", "x"]]) {
+      expect((await run(argv)).code).toBe(CLI_EXIT_USAGE);
+    }
+
+    const help = await run(["--help"]);
+    expect(help.code).toBe(0);
+    expect(help.stdout).toContain("Usage: sol-ecdsa");
+  });
+
+  it("should set the process exit code", () => {
+    const result = Bun.spawnSync(["bun", "src/cli/index.ts", "sign", "-k", "00", "hello"], { cwd: `${import.meta.dir}/..` });
+
+    expect(result.exitCode).toBe(Secp256k1EcdsaError.InvalidSecretKey);
+    expect(JSON.parse(result.stderr.toString()).error).toBe("InvalidSecretKey");
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "bun:test";
+import { ec as EC } from "elliptic";
+import { secp256k1, secp256r1 } from "../src/curve";
+
+const ec = new EC("secp256k1");
+const n = secp256k1.params.n;
+
+// Deterministic pseudo-random scalars, including the edge cases around 0 and N
+function scalars(): bigint[] {
+  const values = [1n, 2n, 3n, n - 1n, n - 2n, n >> 1n, (1n << 255n) - 1n];
+  let seed = 0x9e3779b97f4a7c15n;
+  for (let i = 0; i < 8; i++) {
+    seed = (seed * 0x5851f42d4c957f2dn + 0x14057b7ef767814fn) % n;
+    values.push(seed);
+  }
+  return values;
+}
+
+function toHex(value: bigint): string {
+  return value.toString(16).padStart(64, "0");
+}
+
+describe("bigint curve backend", () => {
+  it("should match elliptic for secret and public generator multiplication", () => {
+    for (const k of scalars()) {
+      const expected = ec.g.mul(toHex(k));
+      const secret = secp256k1.multiplyBaseSecret(k);
+      const pub = secp256k1.multiplyBase(k);
+
+      expect(toHex(secret.x)).toBe(expected.getX().toString(16, 64));
+      expect(toHex(secret.y)).toBe(expected.getY().toString(16, 64));
+      expect(pub).toEqual(secret);
+    }
+  });
+
+  it("should match elliptic for arbitrary points and combined multiplication", () => {
+    const point = secp256k1.multiplyBase(0xdeadbeefn);
+    const prepared = secp256k1.prepare(point);
+    const precomputed = secp256k1.prepare(point, true);
+    const ellipticPoint = ec.keyFromPublic({ x: toHex(point.x), y: toHex(point.y) }).getPublic();
+
+    for (const k of scalars()) {
+      const expected = ellipticPoint.mul(toHex(k));
+      const product = secp256k1.multiplySecret(point, k);
+
+      expect(toHex(product.x)).toBe(expected.getX().toString(16, 64));
+      expect(secp256k1.multiply(point, k)).toEqual(product);
+
+      // u1 * G + u2 * P
+      const sum = ec.g.mul(toHex(k)).add(expected);
+      expect(toHex(secp256k1.multiplyAdd(k, prepared, k)!.x)).toBe(sum.getX().toString(16, 64));
+      expect(secp256k1.multiplyAdd(k, precomputed, k)).toEqual(secp256k1.multiplyAdd(k, prepared, k));
+    }
+  });
+
+  it("should return null when the combination is the point at infinity", () => {
+    const prepared = secp256k1.prepare(secp256k1.G);
+
+    expect(secp256k1.multiplyAdd(5n, prepared, n - 5n)).toBeNull();
+  });
+
+  it("should agree on inversion and point decompression", () => {
+    for (const k of scalars()) {
+      expect(secp256k1.invertSecret(k, n)).toBe(secp256k1.invert(k, n));
+      expect((secp256k1.invert(k, n) * k) % n).toBe(1n);
+
+      const point = secp256k1.multiplyBase(k);
+      expect(secp256k1.liftX(point.x, (point.y & 1n) === 1n)).toEqual(point);
+      expect(secp256k1.isOnCurve(point)).toBe(true);
+    }
+
+    expect(secp256k1.isOnCurve({ x: 1n, y: 1n })).toBe(false);
+  });
+
+  it("should match elliptic on P-256, whose a coefficient is not zero", () => {
+    const p256 = new EC("p256");
+    const order = secp256r1.params.n;
+    const point = secp256r1.multiplyBase(0xdeadbeefn);
+    const prepared = secp256r1.prepare(point);
+
+    for (const k of [1n, 2n, order - 1n, order >> 1n, 0x1234567890abcdefn * 0xfedcba0987654321n]) {
+      const expected = p256.g.mul(toHex(k));
+      const secret = secp256r1.multiplyBaseSecret(k);
+
+      expect(toHex(secret.x)).toBe(expected.getX().toString(16, 64));
+      expect(toHex(secret.y)).toBe(expected.getY().toString(16, 64));
+      expect(secp256r1.multiplyBase(k)).toEqual(secret);
+      expect(secp256r1.liftX(secret.x, (secret.y & 1n) === 1n)).toEqual(secret);
+
+      const sum = expected.add(p256.keyFromPublic({ x: toHex(point.x), y: toHex(point.y) }).getPublic().mul(toHex(k)));
+      expect(toHex(secp256r1.multiplyAdd(k, prepared, k)!.x)).toBe(sum.getX().toString(16, 64));
+    }
+
+    expect(secp256r1.multiplyAdd(5n, secp256r1.prepare(secp256r1.G), order - 5n)).toBeNull();
+  });
+});
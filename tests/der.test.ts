@@ -0,0 +1,121 @@
+import { describe, expect, it } from "bun:test";
+import {
+  Secp256k1EcdsaSignature,
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaError,
+  Secp256k1EcdsaException,
+  SHA256
+} from "../src";
+import { expectError } from "./helpers";
+import { ec as EC } from 'elliptic';
+
+// Initialize the secp256k1 curve
+const ec = new EC('secp256k1');
+
+// Helper function to convert hex string to Uint8Array
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes[i / 2] = parseInt(hex.substring(i, i + 2), 16);
+  }
+  return bytes;
+}
+
+// Helper function to convert Uint8Array to hex string
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Helper function to assert that a DER encoding is rejected
+function expectRejected(der: string): void {
+  expectError(() => Secp256k1EcdsaSignature.fromDER(hexToBytes(der)), Secp256k1EcdsaError.InvalidSignature);
+}
+
+const ZEROS_31 = "00".repeat(31);
+
+describe("DER encoding", () => {
+  it("should encode a known signature", () => {
+    // Private key 1 signing "Satoshi Nakamoto" with SHA-256
+    const privkey = hexToBytes("0000000000000000000000000000000000000000000000000000000000000001");
+    const message = new TextEncoder().encode("Satoshi Nakamoto");
+    const signature = Secp256k1EcdsaSignature.sign(new SHA256(), message, privkey).normalizeS();
+
+    const der = "3045" +
+      "022100934b1ea10a4b3c1757e2b0c017d0b6143ce3c9a7e6a4a49860d7a6ab210ee3d8" +
+      "02202442ce9d2b916064108014783e923ec36b49743e2ffa1c4496f01a512aafd9e5";
+
+    expect(bytesToHex(signature.toDER())).toBe(der);
+    expect(Secp256k1EcdsaSignature.fromDER(hexToBytes(der)).equals(signature)).toBe(true);
+  });
+
+  it("should round-trip and match elliptic's encoding", () => {
+    const sha256 = new SHA256();
+
+    for (let i = 0; i < 32; i++) {
+      const privateKey = Secp256k1EcdsaPrivateKey.generate();
+      const message = crypto.getRandomValues(new Uint8Array(32));
+      const signature = Secp256k1EcdsaSignature.sign(sha256, message, privateKey);
+
+      const der = signature.toDER();
+      const expected = new Uint8Array(ec.sign(
+        Buffer.from(sha256.hash(message)),
+        Buffer.from(privateKey.toBytes()),
+        { canonical: false }
+      ).toDER());
+
+      expect(bytesToHex(der)).toBe(bytesToHex(expected));
+      expect(Secp256k1EcdsaSignature.fromDER(der).equals(signature)).toBe(true);
+    }
+  });
+
+  it("should pad high-bit integers and strip leading zeros", () => {
+    // r has its top bit set, s is small
+    const signature = new Secp256k1EcdsaSignature(hexToBytes("80" + ZEROS_31 + ZEROS_31 + "01"));
+    const der = signature.toDER();
+
+    expect(bytesToHex(der)).toBe("3026" + "022100" + "80" + ZEROS_31 + "020101");
+    expect(Secp256k1EcdsaSignature.fromDER(der).equals(signature)).toBe(true);
+  });
+
+  it("should append and strip a sighash type", () => {
+    const signature = new Secp256k1EcdsaSignature(hexToBytes("01" + ZEROS_31 + "02" + ZEROS_31));
+    const encoded = signature.toDER(0x01);
+
+    expect(encoded[encoded.length - 1]).toBe(0x01);
+
+    const decoded = Secp256k1EcdsaSignature.fromDERWithSighash(encoded);
+    expect(decoded.sighashType).toBe(0x01);
+    expect(decoded.signature.equals(signature)).toBe(true);
+
+    // The sighash byte must not be accepted by the strict decoder
+    expectRejected(bytesToHex(encoded));
+    expect(() => signature.toDER(0x100)).toThrow(Secp256k1EcdsaException);
+  });
+
+  it("should reject non-strict encodings", () => {
+    // Wrong SEQUENCE tag
+    expectRejected("3106020101020101");
+    // SEQUENCE length does not match
+    expectRejected("3007020101020101");
+    // Wrong INTEGER tags
+    expectRejected("3006030101020101");
+    expectRejected("3006020101030101");
+    // Empty integers
+    expectRejected("3006020002020101");
+    expectRejected("3006020201010200");
+    // Negative integers
+    expectRejected("3006020181020101");
+    expectRejected("3006020101020181");
+    // Excessive padding
+    expectRejected("300702020001020101");
+    expectRejected("300702010102020001");
+    // Integers longer than 32 bytes
+    expectRejected("3027022201" + ZEROS_31 + "0000" + "020101");
+    // r length overflowing the signature
+    expectRejected("3006020501020101");
+    // Too short
+    expectRejected("30050201010201");
+  });
+});
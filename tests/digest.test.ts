@@ -0,0 +1,73 @@
+import { describe, expect, it } from "bun:test";
+import {
+  Secp256k1EcdsaSignature,
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaError,
+  SHA256
+} from "../src";
+import { expectError } from "./helpers";
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex, "hex"));
+}
+
+// Cross-checked with @noble/curves: sign(sha256("sighash"), key, { lowS: true })
+const PRIVATE_KEY = hexToBytes("c9afa9d845ba75166b5c215767b1d6934e50c3db36e89b127b8a622b120f6721");
+const DIGEST = hexToBytes("b9b74d5852010cc4bf1010500ae6a97eca7868c9779d50c60fb4ae568b01ea38");
+const SIGNATURE = "0d619c0cf8e332428a1b760b4aac58c7cf6f6a08960733b7aeba3ab8a3e6ec38"
+  + "5376fe6844adb5035dcbd6e415b264ec49f5e8a28974c141f2640de86fabb2f7";
+
+describe("Digest signing", () => {
+  const privateKey = new Secp256k1EcdsaPrivateKey(PRIVATE_KEY);
+  const publicKey = privateKey.publicKey();
+
+  it("should sign a digest deterministically", () => {
+    const signature = Secp256k1EcdsaSignature.signDigest(DIGEST, privateKey).normalizeS();
+
+    expect(Buffer.from(signature.signature).toString("hex")).toBe(SIGNATURE);
+    expect(signature.recoveryId).toBe(0);
+  });
+
+  it("should verify and recover from a digest", () => {
+    const signature = new Secp256k1EcdsaSignature(hexToBytes(SIGNATURE), 0);
+
+    expect(signature.verifyDigest(DIGEST, publicKey)).toBe(true);
+    expect(signature.verifyDigest(new Uint8Array(32), publicKey)).toBe(false);
+    expect(signature.verifyDigestDetailed(DIGEST, publicKey)).toEqual({ valid: true });
+    expect(signature.recoverDigest(DIGEST).equals(publicKey)).toBe(true);
+  });
+
+  it("should match the message-based methods", () => {
+    const sha256 = new SHA256();
+    const message = new TextEncoder().encode("sighash");
+    const k = hexToBytes("00000000000000000000000000000000000000000000000000000000000000ff");
+
+    expect(Secp256k1EcdsaSignature.sign(sha256, message, privateKey)
+      .equals(Secp256k1EcdsaSignature.signDigest(DIGEST, privateKey))).toBe(true);
+    expect(Secp256k1EcdsaSignature.signWithK(sha256, message, k, privateKey)
+      .equals(Secp256k1EcdsaSignature.signDigestWithK(DIGEST, k, privateKey))).toBe(true);
+
+    const signature = Secp256k1EcdsaSignature.signDigest(DIGEST, privateKey);
+    expect(signature.verify(sha256, message, publicKey)).toBe(true);
+    expect(signature.recover(sha256, message).equals(publicKey)).toBe(true);
+  });
+
+  it("should reject digests that are not 32 bytes", () => {
+    const signature = new Secp256k1EcdsaSignature(hexToBytes(SIGNATURE), 0);
+
+    for (const digest of [new Uint8Array(0), new Uint8Array(20), new Uint8Array(33)]) {
+      const calls = [
+        () => Secp256k1EcdsaSignature.signDigest(digest, privateKey),
+        () => Secp256k1EcdsaSignature.signDigestWithK(digest, DIGEST, privateKey),
+        () => signature.verifyDigest(digest, publicKey),
+        () => signature.recoverDigest(digest)
+      ];
+
+      for (const call of calls) {
+        expectError(call, Secp256k1EcdsaError.InvalidHashLength);
+      }
+
+      expect(signature.verifyDigestDetailed(digest, publicKey).reason).toBe(Secp256k1EcdsaError.InvalidHashLength);
+    }
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "bun:test";
+import {
+  ecdh,
+  ecdhHashed,
+  ecdhSharedPoint,
+  eciesEncrypt,
+  eciesDecrypt,
+  eccryptoEncrypt,
+  eccryptoDecrypt,
+  serializeEccrypto,
+  deserializeEccrypto,
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaError,
+  Keccak
+} from "../src";
+import { expectError } from "./helpers";
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex, "hex"));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("hex");
+}
+
+const ALICE = hexToBytes("11".repeat(32));
+const BOB = hexToBytes("22".repeat(32));
+const bobPublicKey = new Secp256k1EcdsaPrivateKey(BOB).publicKey();
+const message = new TextEncoder().encode("hello secp256k1");
+
+// Written by eciesjs 0.4 encrypt() with its default configuration
+const ECIESJS_CIPHERTEXT = "04ece9de22bbed92693656bc319749d8302b3dc55540ac986561cb82317caf8055cf8862e79f9538f3f5bfb7cdf6fce85f1cebc0d0706a965eb1dd79c5bb283fd195d29a36379a22b459d79627fd53e79c6d390b2621d9d8c7716e66c6e5fd621bfec39d6d2fc11a7836a1755bd37f82";
+
+// eccrypto-js serialize(encryptSync()) with ephemeral key 0x33.. and IV 0x44..
+const ECCRYPTO_SERIALIZED = "44444444444444444444444444444444"
+  + "023c72addb4fdf09af94f0c94d7fe92a386a7e70cf8a1d85916386bb2535c7b1b1"
+  + "e0ba8d93d3faf6fc7c646ccd2fa89bc80a4a2e689f61c2fb5348a512396255a3"
+  + "cc684cc1e39e222f51530e28985ce7d0";
+
+// Cross-checked with @noble/curves getSharedSecret
+describe("ECDH", () => {
+  it("should agree on the shared secret from both sides", () => {
+    const alicePublicKey = new Secp256k1EcdsaPrivateKey(ALICE).publicKey();
+
+    expect(ecdhSharedPoint(ALICE, bobPublicKey).equals(ecdhSharedPoint(BOB, alicePublicKey))).toBe(true);
+    expect(toHex(ecdh(ALICE, bobPublicKey))).toBe("77e0510d5042e2f5e9e59c977b81eeed590cf7d20c1c51da451a8eaa9fdc45ff");
+    expect(ecdh(BOB, alicePublicKey.toCompressed())).toEqual(ecdh(ALICE, bobPublicKey));
+  });
+
+  it("should hash the compressed shared point as libsecp256k1 does", () => {
+    const sharedPoint = ecdhSharedPoint(ALICE, bobPublicKey).toCompressed();
+
+    expect(toHex(ecdhHashed(ALICE, bobPublicKey))).toBe("b36b6d195982c5be874d6d542dc268234379e1ae4ff1709402135b7de5cf0766");
+    expect(ecdhHashed(ALICE, bobPublicKey, new Keccak())).toEqual(new Keccak().hash(sharedPoint));
+  });
+
+  it("should reject invalid public keys", () => {
+    expectError(() => ecdh(ALICE, new Uint8Array(33).fill(5)), Secp256k1EcdsaError.InvalidPublicKey);
+    expectError(() => ecdh(ALICE, new Uint8Array(64)), Secp256k1EcdsaError.InvalidPublicKey);
+  });
+});
+
+describe("ECIES (eciesjs format)", () => {
+  it("should decrypt eciesjs ciphertexts", () => {
+    expect(eciesDecrypt(BOB, hexToBytes(ECIESJS_CIPHERTEXT))).toEqual(message);
+  });
+
+  it("should round-trip with fresh ephemeral keys", () => {
+    const first = eciesEncrypt(bobPublicKey, message);
+    const second = eciesEncrypt(bobPublicKey.toCompressed(), message);
+
+    expect(first.length).toBe(65 + 16 + 16 + message.length);
+    expect(first).not.toEqual(second);
+    expect(eciesDecrypt(BOB, first)).toEqual(message);
+    expect(eciesDecrypt(new Secp256k1EcdsaPrivateKey(BOB), second)).toEqual(message);
+    expect(eciesDecrypt(BOB, eciesEncrypt(bobPublicKey, new Uint8Array(0)))).toEqual(new Uint8Array(0));
+  });
+
+  it("should reject the wrong key, tampering and truncation", () => {
+    const ciphertext = hexToBytes(ECIESJS_CIPHERTEXT);
+    const tampered = ciphertext.slice();
+    tampered[tampered.length - 1] ^= 1;
+
+    expectError(() => eciesDecrypt(ALICE, ciphertext), Secp256k1EcdsaError.DecryptionFailed);
+    expectError(() => eciesDecrypt(BOB, tampered), Secp256k1EcdsaError.DecryptionFailed);
+    expectError(() => eciesDecrypt(BOB, ciphertext.subarray(0, 96)), Secp256k1EcdsaError.InvalidCiphertext);
+  });
+});
+
+describe("ECIES (eccrypto format)", () => {
+  it("should match eccrypto-js for a fixed ephemeral key and IV", () => {
+    const payload = eccryptoEncrypt(bobPublicKey, message, {
+      ephemeralKey: hexToBytes("33".repeat(32)),
+      iv: hexToBytes("44".repeat(16))
+    });
+
+    expect(toHex(serializeEccrypto(payload))).toBe(ECCRYPTO_SERIALIZED);
+    expect(eccryptoDecrypt(BOB, deserializeEccrypto(hexToBytes(ECCRYPTO_SERIALIZED)))).toEqual(message);
+  });
+
+  it("should round-trip and reject a bad MAC", () => {
+    const payload = eccryptoEncrypt(bobPublicKey, message);
+    const mac = payload.mac.slice();
+    mac[0] ^= 1;
+
+    expect(payload.ephemPublicKey.length).toBe(65);
+    expect(eccryptoDecrypt(BOB, payload)).toEqual(message);
+    expectError(() => eccryptoDecrypt(ALICE, payload), Secp256k1EcdsaError.DecryptionFailed);
+    expectError(() => eccryptoDecrypt(BOB, { ...payload, mac }), Secp256k1EcdsaError.DecryptionFailed);
+    expectError(() => deserializeEccrypto(new Uint8Array(80)), Secp256k1EcdsaError.InvalidCiphertext);
+  });
+});
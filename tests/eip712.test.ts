@@ -0,0 +1,186 @@
+import { describe, expect, it } from "bun:test";
+import {
+  EIP712,
+  EIP191,
+  EthereumSignature,
+  EthereumAddress,
+  Secp256k1EcdsaSignature,
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaError,
+  Secp256k1EcdsaException,
+  Keccak
+} from "../src";
+import { expectError } from "./helpers";
+import type { EIP712TypedData } from "../src";
+
+// Helper function to convert hex string to Uint8Array
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes[i / 2] = parseInt(hex.substring(i, i + 2), 16);
+  }
+  return bytes;
+}
+
+// Helper function to convert Uint8Array to hex string
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// The signing key used by the EIP-712 example: keccak256("cow")
+const COW_KEY = Secp256k1EcdsaPrivateKey.from(new Keccak().hash(new TextEncoder().encode("cow")));
+
+// The example from the EIP-712 specification
+const MAIL: EIP712TypedData = {
+  types: {
+    EIP712Domain: [
+      { name: "name", type: "string" },
+      { name: "version", type: "string" },
+      { name: "chainId", type: "uint256" },
+      { name: "verifyingContract", type: "address" }
+    ],
+    Person: [
+      { name: "name", type: "string" },
+      { name: "wallet", type: "address" }
+    ],
+    Mail: [
+      { name: "from", type: "Person" },
+      { name: "to", type: "Person" },
+      { name: "contents", type: "string" }
+    ]
+  },
+  primaryType: "Mail",
+  domain: {
+    name: "Ether Mail",
+    version: "1",
+    chainId: 1,
+    verifyingContract: "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC"
+  },
+  message: {
+    from: { name: "Cow", wallet: "0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826" },
+    to: { name: "Bob", wallet: "0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB" },
+    contents: "Hello, Bob!"
+  }
+};
+
+// Nested structs, arrays and dynamic types, cross-checked with ethers' TypedDataEncoder
+const ORDER: EIP712TypedData = {
+  types: {
+    Order: [
+      { name: "maker", type: "address" },
+      { name: "amounts", type: "uint256[]" },
+      { name: "deltas", type: "int64[2]" },
+      { name: "legs", type: "Leg[]" },
+      { name: "data", type: "bytes" },
+      { name: "tag", type: "bytes4" },
+      { name: "flags", type: "bool[]" },
+      { name: "notes", type: "string[]" },
+      { name: "grid", type: "uint8[][]" }
+    ],
+    Leg: [
+      { name: "asset", type: "Asset" },
+      { name: "qty", type: "uint128" }
+    ],
+    Asset: [
+      { name: "symbol", type: "string" },
+      { name: "id", type: "bytes32" }
+    ]
+  },
+  primaryType: "Order",
+  domain: {
+    name: "Test",
+    version: "2",
+    chainId: 137,
+    verifyingContract: "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC",
+    salt: "0x" + "11".repeat(32)
+  },
+  message: {
+    maker: "0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf",
+    amounts: [1n, 2n, 10n ** 30n],
+    deltas: [-5, 7],
+    legs: [
+      { asset: { symbol: "ETH", id: "0x" + "ab".repeat(32) }, qty: 3 },
+      { asset: { symbol: "USDC", id: "0x" + "cd".repeat(32) }, qty: "1000" }
+    ],
+    data: "0xdeadbeef",
+    tag: "0x12345678",
+    flags: [true, false],
+    notes: ["a", "bc"],
+    grid: [[1, 2], [3]]
+  }
+};
+
+describe("EIP-712 typed data", () => {
+  it("should match the specification example", () => {
+    const { hashImpl, message } = EIP712.fromTypedData(MAIL);
+
+    expect(hashImpl.encodeType("Mail")).toBe("Mail(Person from,Person to,string contents)Person(string name,address wallet)");
+    expect(bytesToHex(hashImpl.typeHash("Mail"))).toBe("a0cedeb2dc280ba39b857546d74f5549c3a1d7bdc2dd96bf881f76108e23dac2");
+    expect(bytesToHex(hashImpl.domainSeparator)).toBe("f2cee375fa42b42143804025fc449deafd50cc031ca257e0b194a650a912090f");
+    expect(bytesToHex(message)).toBe("c52c0ee5d84264471806290a3f2c4cecfc5490626bf912d01f240d7a274b371e");
+    expect(bytesToHex(EIP712.hashTypedData(MAIL))).toBe("be609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2");
+  });
+
+  it("should sign and verify with the existing signature API", () => {
+    const { hashImpl, message } = EIP712.fromTypedData(MAIL);
+    const signature = Secp256k1EcdsaSignature.sign(hashImpl, message, COW_KEY);
+
+    expect(bytesToHex(signature.r())).toBe("4355c47d63924e8a72e509b65029052eb6c299d53a04e167c5775fd466751c9d");
+    expect(bytesToHex(signature.s())).toBe("07299936d304c153f6443dfa05f40ff007d72911b6f72307f996231605b91562");
+    expect(signature.verify(hashImpl, message, COW_KEY.publicKey())).toBe(true);
+    expect(EthereumSignature.fromSignature(signature).v).toBe(28);
+  });
+
+  it("should encode nested structs, arrays and dynamic types like eth_signTypedData_v4", () => {
+    const { hashImpl, message } = EIP712.fromTypedData(ORDER);
+
+    expect(hashImpl.encodeType("Order")).toBe(
+      "Order(address maker,uint256[] amounts,int64[2] deltas,Leg[] legs,bytes data,bytes4 tag,bool[] flags,string[] notes,uint8[][] grid)" +
+      "Asset(string symbol,bytes32 id)Leg(Asset asset,uint128 qty)"
+    );
+    expect(bytesToHex(hashImpl.domainSeparator)).toBe("549b7bccaa2bc342823258b54017784d9d1142936569663132cee44a137ce7ac");
+    expect(bytesToHex(hashImpl.hash(message))).toBe("b937394c695d42f475d78b1c1832f68b8f44cd5c37374756a76dd1e5b252b136");
+
+    // Signature produced by ethers' Wallet.signTypedData
+    const signature = EthereumSignature.fromHex(
+      "0x6928597ed576c7c5efb39db21ca3012796120db220fb9be85b72ce20e83bcb59" +
+      "0c7c2952906f26922787ed7d1f478d623d272d18deb9ff5fd13b81ac23d9beee1c"
+    );
+    expect(signature.verify(hashImpl, message, EthereumAddress.fromPublicKey(COW_KEY.publicKey()))).toBe(true);
+  });
+
+  it("should reject malformed values", () => {
+    const cases: Array<Record<string, unknown>> = [
+      { ...ORDER.message, deltas: [1] },
+      { ...ORDER.message, deltas: [2n ** 63n, 0] },
+      { ...ORDER.message, amounts: [-1] },
+      { ...ORDER.message, tag: "0x1234" },
+      { ...ORDER.message, flags: [1] },
+      { ...ORDER.message, maker: "0x1234" },
+      { ...ORDER.message, notes: undefined }
+    ];
+
+    for (const message of cases) {
+      expect(() => EIP712.hashTypedData({ ...ORDER, message })).toThrow(Secp256k1EcdsaException);
+    }
+
+    expectError(() => EIP712.hashTypedData({ ...ORDER, primaryType: "Unknown" }), Secp256k1EcdsaError.InvalidTypedData);
+  });
+});
+
+describe("EIP-191 intended validator", () => {
+  it("should hash data for a validator contract", () => {
+    const validator = "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC";
+    const data = hexToBytes("deadbeef");
+    const eip191 = new EIP191(validator);
+
+    const expected = new Keccak().hash(Uint8Array.from([0x19, 0x00, ...hexToBytes("cc".repeat(20)), ...data]));
+    expect(bytesToHex(eip191.hash(data))).toBe(bytesToHex(expected));
+    expect(bytesToHex(new EIP191(hexToBytes("cc".repeat(20))).hash(data))).toBe(bytesToHex(expected));
+
+    const signature = Secp256k1EcdsaSignature.sign(eip191, data, COW_KEY);
+    expect(signature.verify(eip191, data, COW_KEY.publicKey())).toBe(true);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "bun:test";
+import {
+  EthereumSignature,
+  EthereumAddress,
+  Secp256k1EcdsaSignature,
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaError,
+  Secp256k1EcdsaException,
+  ESM,
+  Keccak
+} from "../src";
+import { expectError } from "./helpers";
+import type { Secp256k1EcdsaHash } from "../src";
+
+// Helper function to convert hex string to Uint8Array
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes[i / 2] = parseInt(hex.substring(i, i + 2), 16);
+  }
+  return bytes;
+}
+
+// Hash implementation for messages that are already 32-byte digests
+const prehashed: Secp256k1EcdsaHash = { hash: (message: Uint8Array) => message };
+
+// personal_sign("Hello World") by the private key 0x4c08...2318, as produced by MetaMask and ethers
+const WALLET_PRIVATE_KEY = hexToBytes("4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318");
+const WALLET_ADDRESS = "0x2c7536E3605D9C16a7a3D7b1898e529396a65c23";
+const WALLET_SIGNATURE = "0x6f267aa61dda3067280942299172e2b9f6b4252b492e7c0343ecce6e7edfe0b2" +
+  "4110a805ba6777e4303501ea9dfae133855f4ee2e34fd0444bb23d11f296eef31c";
+
+describe("Ethereum signatures", () => {
+  const message = new TextEncoder().encode("Hello World");
+
+  it("should verify a personal_sign signature against an address in one call", () => {
+    expect(EthereumSignature.verifyMessage(message, WALLET_SIGNATURE, WALLET_ADDRESS)).toBe(true);
+    expect(EthereumSignature.verifyMessage(message, WALLET_SIGNATURE, WALLET_ADDRESS.toLowerCase())).toBe(true);
+
+    // Wrong message, wrong address and garbage input
+    expect(EthereumSignature.verifyMessage(new TextEncoder().encode("Hello World!"), WALLET_SIGNATURE, WALLET_ADDRESS)).toBe(false);
+    expect(EthereumSignature.verifyMessage(message, WALLET_SIGNATURE, "0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf")).toBe(false);
+    expect(EthereumSignature.verifyMessage(message, "0x1234", WALLET_ADDRESS)).toBe(false);
+  });
+
+  it("should produce the same signature as wallets", () => {
+    const signature = EthereumSignature.sign(new ESM(), message, WALLET_PRIVATE_KEY);
+
+    expect(signature.v).toBe(28);
+    expect(signature.format()).toBe('legacy');
+    expect(signature.toHex()).toBe(WALLET_SIGNATURE);
+    expect(signature.recoverAddress(new ESM(), message)).toBe(WALLET_ADDRESS);
+  });
+
+  it("should parse and serialize every v convention", () => {
+    const legacy = EthereumSignature.fromHex(WALLET_SIGNATURE);
+    expect(legacy.recoveryId).toBe(1);
+    expect(legacy.chainId).toBeUndefined();
+
+    const parity = legacy.toParity();
+    expect(parity.v).toBe(1);
+    expect(parity.format()).toBe('parity');
+    expect(parity.toBytes().length).toBe(65);
+    expect(EthereumSignature.fromBytes(parity.toBytes()).equals(parity)).toBe(true);
+    expect(parity.verify(new ESM(), message, WALLET_ADDRESS)).toBe(true);
+
+    const mainnet = legacy.toEIP155(1);
+    expect(mainnet.v).toBe(38);
+    expect(mainnet.chainId).toBe(1);
+    expect(mainnet.format()).toBe('eip155');
+    expect(mainnet.toLegacy().equals(legacy)).toBe(true);
+
+    // Large chain ids need a multi-byte v
+    const polygon = legacy.toEIP155(137);
+    expect(polygon.v).toBe(310);
+    expect(polygon.toBytes().length).toBe(66);
+    expect(EthereumSignature.fromBytes(polygon.toBytes()).chainId).toBe(137);
+  });
+
+  it("should reject invalid v values", () => {
+    const rs = hexToBytes(WALLET_SIGNATURE.slice(2, 130));
+
+    for (const v of [2, 26, 29, 34]) {
+      expectError(() => EthereumSignature.fromBytes(Uint8Array.from([...rs, v])), Secp256k1EcdsaError.InvalidRecoveryId);
+    }
+
+    expectError(() => EthereumSignature.fromBytes(rs), Secp256k1EcdsaError.InvalidSignature);
+
+    // A non-minimal v would give one signature several encodings
+    expectError(() => EthereumSignature.fromBytes(Uint8Array.from([...rs, 0x00, 0x1b])), Secp256k1EcdsaError.InvalidSignature);
+    expectError(() => EthereumSignature.fromHex("0x" + WALLET_SIGNATURE.slice(2, 130) + "0000ed"), Secp256k1EcdsaError.InvalidSignature);
+
+    // Recovery ids 2 and 3 have no v encoding
+    expect(() => EthereumSignature.fromSignature(new Secp256k1EcdsaSignature(rs, 2))).toThrow(Secp256k1EcdsaException);
+  });
+
+  it("should match the EIP-155 example transaction signature", () => {
+    // Signing hash and key from the EIP-155 specification
+    const signingHash = hexToBytes("daf5a779ae972f972197303d7b574746c7ef83eadac0f2791ad23db92e4c8e53");
+    const privateKey = Secp256k1EcdsaPrivateKey.from(hexToBytes("46".repeat(32)));
+
+    const signature = EthereumSignature.sign(prehashed, signingHash, privateKey, 1);
+
+    expect(signature.v).toBe(37);
+    expect(BigInt("0x" + Buffer.from(signature.signature.r()).toString("hex"))).toBe(
+      18515461264373351373200002665853028612451056578545711640558177340181847433846n
+    );
+    expect(BigInt("0x" + Buffer.from(signature.signature.s()).toString("hex"))).toBe(
+      46948507304638947509940763649030358759909902576025900602547168820602576006531n
+    );
+    expect(signature.recoverAddress(prehashed, signingHash)).toBe("0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F");
+  });
+
+  it("should keep v consistent when normalizing S", () => {
+    const keccak = new Keccak();
+    const privateKey = Secp256k1EcdsaPrivateKey.generate();
+    const address = EthereumAddress.fromPublicKey(privateKey.publicKey());
+
+    const low = EthereumSignature.sign(keccak, message, privateKey, 5);
+    const high = new EthereumSignature(
+      new Secp256k1EcdsaSignature(
+        Uint8Array.from([...low.signature.r(), ...hexToBytes(
+          (0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n -
+            BigInt("0x" + Buffer.from(low.signature.s()).toString("hex"))).toString(16).padStart(64, "0")
+        )])
+      ),
+      low.v + (low.recoveryId === 0 ? 1 : -1)
+    );
+
+    expect(high.verify(keccak, message, address)).toBe(true);
+    expect(high.normalizeS().equals(low)).toBe(true);
+    expect(high.normalizeS().chainId).toBe(5);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "bun:test";
+import {
+  EthereumTransaction,
+  type EthereumTransactionData,
+  rlpEncode,
+  rlpDecode,
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaError,
+  Secp256k1EcdsaSignature,
+  EthereumSignature
+} from "../src";
+import { expectError } from "./helpers";
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex.replace(/^0x/, ''), 'hex'));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return '0x' + Buffer.from(bytes).toString('hex');
+}
+
+const PRIVATE_KEY = new Secp256k1EcdsaPrivateKey(
+  hexToBytes("4b9d6f57d28b06cbfa1d4cc710953e62d653caf853d12da2581e69c4c400555c")
+);
+const SENDER = "0x67238BF18AF1d6B80381d1b980Cce2d3d7f07c51";
+const TO = "0x3535353535353535353535353535353535353535";
+
+// Signed with ethers v6 Wallet.signTransaction
+const VECTORS: Array<{ name: string, fields: EthereumTransactionData, signingHash: string, raw: string, hash: string }> = [
+  {
+    name: "legacy EIP-155",
+    fields: { type: 0, chainId: 1, nonce: 9n, gasPrice: 20000000000n, gasLimit: 21000n, to: TO, value: 1000000000000000000n, data: new Uint8Array(0) },
+    signingHash: "0xdaf5a779ae972f972197303d7b574746c7ef83eadac0f2791ad23db92e4c8e53",
+    raw: "0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a76400008025a0433115e0b015fcf634fa4ce3b84dfea02a068bfe1d737084c7d3461eac3a319ea052e08fa5c44e726a96dcdca9ea33c76ec173e0eb62ac36621f16f397e15f8d93",
+    hash: "0x6daf9966c50c93f609d35938c1ba1568ca1ad5a232aac652684dcf46534bc530"
+  },
+  {
+    name: "legacy contract creation without chain id",
+    fields: { type: 0, nonce: 0n, gasPrice: 1n, gasLimit: 100000n, to: null, value: 0n, data: hexToBytes("6080604052") },
+    signingHash: "0xe2bf6032f7b0400a0a130411614c41f0007f37a753092ce9a440f501e1db713b",
+    raw: "0xf8518001830186a080808560806040521ba04d272497cfc67d4a41229a1386db7f32b6f2cb830d3dadb2ff012052aa6365bda07ddf78596160bc48c0b3a45acc03778692d6c4f2caad4c95f0f0ffe1de5fdac2",
+    hash: "0x8c06caa249ed9c18558c95b98f104d53cf08a8c17ca7f0cc30a9ad01f2d0f499"
+  },
+  {
+    name: "EIP-2930 access list",
+    fields: {
+      type: 1, chainId: 137, nonce: 1n, gasPrice: 30000000000n, gasLimit: 50000n, to: TO, value: 5n, data: hexToBytes("deadbeef"),
+      accessList: [{ address: TO, storageKeys: [hexToBytes("00".repeat(31) + "01")] }]
+    },
+    signingHash: "0xd365f15e0c5d6361b7f352cf6f23984c03828d5074a2efa6fa858904d9d70d8a",
+    raw: "0x01f8a48189018506fc23ac0082c3509435353535353535353535353535353535353535350584deadbeeff838f7943535353535353535353535353535353535353535e1a0000000000000000000000000000000000000000000000000000000000000000180a054fb77e82010cc41068abdec88df48da727fb22875c3e075ef122c44d08e382fa06e575a1ce0fc7a1c701f081e7dd0cc468f456885b557a571394413f897649067",
+    hash: "0xc7c35a51b9c05faa128feed77a08d31c166e47eda23ad9794ef84c48b70789a5"
+  },
+  {
+    name: "EIP-1559 dynamic fee",
+    fields: {
+      type: 2, chainId: 8453, nonce: 300n, maxPriorityFeePerGas: 1500000000n, maxFeePerGas: 30000000000n, gasLimit: 65000n,
+      to: TO, value: 123456789n, data: hexToBytes("a9059cbb"), accessList: []
+    },
+    signingHash: "0x4e9ebed7714312f100516b2ce5947c1ddfbeb84e0c65e20b7e52a07531bec16f",
+    raw: "0x02f87782210582012c8459682f008506fc23ac0082fde894353535353535353535353535353535353535353584075bcd1584a9059cbbc001a0c1c5fca1e87ea1cf8cc423c7afc8dc0f8b1ca43f14b70e475d9cd2c83a279b4fa0233e39fe851b1b0e5255d754ac872b7a64a30eef0d68eba6bbeb2e5c032ea81a",
+    hash: "0x7e295a90459c34c3ef62f5adb11e8a4ac8c43e4cd20c1675d317d13cc9e9747f"
+  }
+];
+
+describe("RLP", () => {
+  it("should encode like ethers", () => {
+    expect(toHex(rlpEncode([]))).toBe("0xc0");
+    expect(toHex(rlpEncode(new Uint8Array(0)))).toBe("0x80");
+    expect(toHex(rlpEncode(0n))).toBe("0x80");
+    expect(toHex(rlpEncode(0x7f))).toBe("0x7f");
+    expect(toHex(rlpEncode(0x80))).toBe("0x8180");
+    expect(toHex(rlpEncode([new Uint8Array(56).fill(0xaa)]))).toBe("0xf83ab838" + "aa".repeat(56));
+    expect(toHex(rlpEncode([[], [[]], [[], [[]]]]))).toBe("0xc7c0c1c0c3c0c1c0");
+  });
+
+  it("should round-trip nested values", () => {
+    const value = [hexToBytes("01"), [hexToBytes("aa".repeat(60)), []], new Uint8Array(0)];
+
+    expect(rlpDecode(rlpEncode(value))).toEqual(value);
+  });
+
+  it("should reject non-canonical and truncated encodings", () => {
+    for (const hex of ["8100", "b800", "b90001" + "00", "c2", "c18180", "8180ff", "", "f800"]) {
+      expectError(() => rlpDecode(hexToBytes(hex)), Secp256k1EcdsaError.InvalidRlp);
+    }
+    expectError(() => rlpEncode(-1n), Secp256k1EcdsaError.InvalidRlp);
+  });
+});
+
+describe("Ethereum transactions", () => {
+  for (const vector of VECTORS) {
+    it(`should sign a ${vector.name} transaction like ethers`, () => {
+      const transaction = new EthereumTransaction(vector.fields);
+      const signed = transaction.sign(PRIVATE_KEY);
+
+      expect(toHex(transaction.signingHash())).toBe(vector.signingHash);
+      expect(signed.toHex()).toBe(vector.raw);
+      expect(toHex(signed.hash())).toBe(vector.hash);
+      expect(signed.signature!.signature.isLowS()).toBe(true);
+    });
+
+    it(`should parse a ${vector.name} transaction and recover its sender`, () => {
+      const parsed = EthereumTransaction.parse(vector.raw);
+
+      expect(parsed.fields).toEqual(vector.fields.type === 0 && vector.fields.chainId === undefined
+        ? { ...vector.fields, chainId: undefined }
+        : vector.fields);
+      expect(parsed.sender()).toBe(SENDER);
+      expect(toHex(parsed.serialize())).toBe(vector.raw);
+    });
+  }
+
+  it("should encode v for each transaction type", () => {
+    const [eip155, preEip155, accessList, dynamicFee] = VECTORS.map(vector => EthereumTransaction.parse(vector.raw).signature!);
+
+    expect(eip155.format()).toBe("eip155");
+    expect(eip155.chainId).toBe(1);
+    expect(preEip155.format()).toBe("legacy");
+    expect(accessList.format()).toBe("parity");
+    expect(dynamicFee.v).toBe(1);
+  });
+
+  it("should sign and parse typed transactions with large calldata", () => {
+    // Well past the engine's argument limit, which spreading the payload into a call would hit
+    const data = new Uint8Array(2 * 1024 * 1024).fill(0x60);
+    const signed = new EthereumTransaction({ ...VECTORS[3].fields, to: null, data } as EthereumTransactionData).sign(PRIVATE_KEY);
+    const parsed = EthereumTransaction.parse(signed.serialize());
+
+    expect(parsed.fields.data).toEqual(data);
+    expect(parsed.sender()).toBe(SENDER);
+  });
+
+  it("should reject high-S signatures", () => {
+    const parsed = EthereumTransaction.parse(VECTORS[3].raw);
+    const highS = new EthereumSignature(
+      new Secp256k1EcdsaSignature(Uint8Array.from([
+        ...parsed.signature!.signature.r(),
+        ...hexToBytes("dcc1c6017ae4e4f1adaa28ab5378d484560bcdf7a1dfb49503e73030cd079927") // n - s
+      ])),
+      0
+    );
+
+    const raw = new EthereumTransaction(parsed.fields, highS).serialize();
+    expectError(() => EthereumTransaction.parse(raw), Secp256k1EcdsaError.HighS);
+  });
+
+  it("should reject malformed transactions", () => {
+    const raw = hexToBytes(VECTORS[3].raw);
+
+    expectError(() => EthereumTransaction.parse(Uint8Array.of(0x03, ...raw.subarray(1))), Secp256k1EcdsaError.InvalidTransaction);
+    expectError(() => EthereumTransaction.parse(Uint8Array.of(0x02, ...rlpEncode([1, 2, 3]))), Secp256k1EcdsaError.InvalidTransaction);
+    expectError(() => EthereumTransaction.parse(raw.subarray(0, raw.length - 1)), Secp256k1EcdsaError.InvalidRlp);
+    expectError(() => EthereumTransaction.parse("0xzz"), Secp256k1EcdsaError.InvalidTransaction);
+    expectError(() => new EthereumTransaction(VECTORS[0].fields).serialize(), Secp256k1EcdsaError.InvalidTransaction);
+    expectError(
+      () => new EthereumTransaction({ ...VECTORS[3].fields, to: "0x1234" } as EthereumTransactionData),
+      Secp256k1EcdsaError.InvalidAddress
+    );
+  });
+});
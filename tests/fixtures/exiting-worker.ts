@@ -0,0 +1,4 @@
+import { parentPort } from 'node:worker_threads';
+
+// A batch worker that dies on its first chunk without posting results
+parentPort?.on('message', () => process.exit(3));
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "bun:test";
+import {
+  HDKey,
+  HARDENED_OFFSET,
+  BITCOIN_TESTNET_VERSIONS,
+  Secp256k1EcdsaError,
+  Secp256k1EcdsaSignature,
+  SHA256
+} from "../src";
+import { base58CheckDecode, base58CheckEncode } from "../src/encoding";
+import { expectError } from "./helpers";
+
+// BIP32 test vectors 1 to 4: [path, xpub, xprv]
+const VECTORS: { seed: string, chain: [string, string, string][] }[] = [
+  {
+    seed: "000102030405060708090a0b0c0d0e0f",
+    chain: [
+      ["m", "xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8", "xprv9s21ZrQH143K3QTDL4LXw2F7HEK3wJUD2nW2nRk4stbPy6cq3jPPqjiChkVvvNKmPGJxWUtg6LnF5kejMRNNU3TGtRBeJgk33yuGBxrMPHi"],
+      ["m/0'", "xpub68Gmy5EdvgibQVfPdqkBBCHxA5htiqg55crXYuXoQRKfDBFA1WEjWgP6LHhwBZeNK1VTsfTFUHCdrfp1bgwQ9xv5ski8PX9rL2dZXvgGDnw", "xprv9uHRZZhk6KAJC1avXpDAp4MDc3sQKNxDiPvvkX8Br5ngLNv1TxvUxt4cV1rGL5hj6KCesnDYUhd7oWgT11eZG7XnxHrnYeSvkzY7d2bhkJ7"],
+      ["m/0'/1", "xpub6ASuArnXKPbfEwhqN6e3mwBcDTgzisQN1wXN9BJcM47sSikHjJf3UFHKkNAWbWMiGj7Wf5uMash7SyYq527Hqck2AxYysAA7xmALppuCkwQ", "xprv9wTYmMFdV23N2TdNG573QoEsfRrWKQgWeibmLntzniatZvR9BmLnvSxqu53Kw1UmYPxLgboyZQaXwTCg8MSY3H2EU4pWcQDnRnrVA1xe8fs"],
+      ["m/0'/1/2'", "xpub6D4BDPcP2GT577Vvch3R8wDkScZWzQzMMUm3PWbmWvVJrZwQY4VUNgqFJPMM3No2dFDFGTsxxpG5uJh7n7epu4trkrX7x7DogT5Uv6fcLW5", "xprv9z4pot5VBttmtdRTWfWQmoH1taj2axGVzFqSb8C9xaxKymcFzXBDptWmT7FwuEzG3ryjH4ktypQSAewRiNMjANTtpgP4mLTj34bhnZX7UiM"],
+      ["m/0'/1/2'/2", "xpub6FHa3pjLCk84BayeJxFW2SP4XRrFd1JYnxeLeU8EqN3vDfZmbqBqaGJAyiLjTAwm6ZLRQUMv1ZACTj37sR62cfN7fe5JnJ7dh8zL4fiyLHV", "xprvA2JDeKCSNNZky6uBCviVfJSKyQ1mDYahRjijr5idH2WwLsEd4Hsb2Tyh8RfQMuPh7f7RtyzTtdrbdqqsunu5Mm3wDvUAKRHSC34sJ7in334"],
+      ["m/0'/1/2'/2/1000000000", "xpub6H1LXWLaKsWFhvm6RVpEL9P4KfRZSW7abD2ttkWP3SSQvnyA8FSVqNTEcYFgJS2UaFcxupHiYkro49S8yGasTvXEYBVPamhGW6cFJodrTHy", "xprvA41z7zogVVwxVSgdKUHDy1SKmdb533PjDz7J6N6mV6uS3ze1ai8FHa8kmHScGpWmj4WggLyQjgPie1rFSruoUihUZREPSL39UNdE3BBDu76"]
+    ]
+  },
+  {
+    seed: "fffcf9f6f3f0edeae7e4e1dedbd8d5d2cfccc9c6c3c0bdbab7b4b1aeaba8a5a29f9c999693908d8a8784817e7b7875726f6c696663605d5a5754514e4b484542",
+    chain: [
+      ["m", "xpub661MyMwAqRbcFW31YEwpkMuc5THy2PSt5bDMsktWQcFF8syAmRUapSCGu8ED9W6oDMSgv6Zz8idoc4a6mr8BDzTJY47LJhkJ8UB7WEGuduB", "xprv9s21ZrQH143K31xYSDQpPDxsXRTUcvj2iNHm5NUtrGiGG5e2DtALGdso3pGz6ssrdK4PFmM8NSpSBHNqPqm55Qn3LqFtT2emdEXVYsCzC2U"],
+      ["m/0", "xpub69H7F5d8KSRgmmdJg2KhpAK8SR3DjMwAdkxj3ZuxV27CprR9LgpeyGmXUbC6wb7ERfvrnKZjXoUmmDznezpbZb7ap6r1D3tgFxHmwMkQTPH", "xprv9vHkqa6EV4sPZHYqZznhT2NPtPCjKuDKGY38FBWLvgaDx45zo9WQRUT3dKYnjwih2yJD9mkrocEZXo1ex8G81dwSM1fwqWpWkeS3v86pgKt"],
+      ["m/0/2147483647'", "xpub6ASAVgeehLbnwdqV6UKMHVzgqAG8Gr6riv3Fxxpj8ksbH9ebxaEyBLZ85ySDhKiLDBrQSARLq1uNRts8RuJiHjaDMBU4Zn9h8LZNnBC5y4a", "xprv9wSp6B7kry3Vj9m1zSnLvN3xH8RdsPP1Mh7fAaR7aRLcQMKTR2vidYEeEg2mUCTAwCd6vnxVrcjfy2kRgVsFawNzmjuHc2YmYRmagcEPdU9"],
+      ["m/0/2147483647'/1", "xpub6DF8uhdarytz3FWdA8TvFSvvAh8dP3283MY7p2V4SeE2wyWmG5mg5EwVvmdMVCQcoNJxGoWaU9DCWh89LojfZ537wTfunKau47EL2dhHKon", "xprv9zFnWC6h2cLgpmSA46vutJzBcfJ8yaJGg8cX1e5StJh45BBciYTRXSd25UEPVuesF9yog62tGAQtHjXajPPdbRCHuWS6T8XA2ECKADdw4Ef"],
+      ["m/0/2147483647'/1/2147483646'", "xpub6ERApfZwUNrhLCkDtcHTcxd75RbzS1ed54G1LkBUHQVHQKqhMkhgbmJbZRkrgZw4koxb5JaHWkY4ALHY2grBGRjaDMzQLcgJvLJuZZvRcEL", "xprvA1RpRA33e1JQ7ifknakTFpgNXPmW2YvmhqLQYMmrj4xJXXWYpDPS3xz7iAxn8L39njGVyuoseXzU6rcxFLJ8HFsTjSyQbLYnMpCqE2VbFWc"],
+      ["m/0/2147483647'/1/2147483646'/2", "xpub6FnCn6nSzZAw5Tw7cgR9bi15UV96gLZhjDstkXXxvCLsUXBGXPdSnLFbdpq8p9HmGsApME5hQTZ3emM2rnY5agb9rXpVGyy3bdW6EEgAtqt", "xprvA2nrNbFZABcdryreWet9Ea4LvTJcGsqrMzxHx98MMrotbir7yrKCEXw7nadnHM8Dq38EGfSh6dqA9QWTyefMLEcBYJUuekgW4BYPJcr9E7j"]
+    ]
+  },
+  {
+    seed: "4b381541583be4423346c643850da4b320e46a87ae3d2a4e6da11eba819cd4acba45d239319ac14f863b8d5ab5a0d0c64d2e8e1e7d1457df2e5a3c51c73235be",
+    chain: [
+      ["m", "xpub661MyMwAqRbcFVnztiaYooPxqK1xTooTytHLMADdsVbTRBmew9MjV895vEiVyBpqjs8hVk7sNeivtjNq9ED1eDm9N28BqPRNPJXd8xj8yBJ", "xprv9s21ZrQH143K31iXnh3YSfTEHHBU4M5ccfMjYmp2KA4UYPSWPc3UwKpc4vpdEcFwC2n6fGHKsnouageaaL5dKPLXVuBThPjBqdSpNNTkEMw"],
+      ["m/0'", "xpub699gcQEv1tAWpP8ggD1tXdvAKyFwHsrRJbHAQUCc2g9fCtGtK8f4e5L4HqSHasW3VDjTuoenHWGyFqBBht2QC2ycQiDQjpiVkexDNUC1GTm", "xprv9vALCti2BWcDbu4DaBUtAVyRmwRStR8ZwNMZc5nzULcgL5wjmbLp6H1aSa2PRc8TLvu86dyKrJovwBBsQ6f7jQZyQoHM4LQdmecygrLUZWF"]
+    ]
+  },
+  {
+    seed: "3ddd5602285899a946114506157c7997e5444528f3003f6134712147db19b678",
+    chain: [
+      ["m", "xpub661MyMwAqRbcGczjuMoRm6dXaLDEhW1u34gKenbeYqAix21mdUKJyuyu5F1rzYGVxyL6tmgBUAEPrEz92mBXjByMRiJdba9wpnN37RLLAXa", "xprv9s21ZrQH143K48vGoLGRPxgo2JNkJ3J3fqkirQC2zVdk5Dgd5w14S7fRDyHH4dWNHUgkvsvNDCkvAwcSHNAQwhwgNMgZhLtQC63zxwhQmRv"],
+      ["m/0'", "xpub69AUMk3qDBi3uW1sXgjCmVjJ2G6WQoYSnNHyzkmdCHEhSZ4tBok37xfFEqHd2AddP56Tqp4o56AePAgCjYdvpW2PU2jbUPFKsav5ut6Ch1m", "xprv9vB7xEWwNp9kh1wQRfCCQMnZUEG21LpbR9NPCNN1dwhiZkjjeGRnaALmPXCX7SgjFTiCTT6bXes17boXtjq3xLpcDjzEuGLQBM5ohqkao9G"],
+      ["m/0'/1'", "xpub6BJA1jSqiukeaesWfxe6sNK9CCGaujFFSJLomWHprUL9DePQ4JDkM5d88n49sMGJxrhpjazuXYWdMf17C9T5XnxkopaeS7jGk1GyyVziaMt", "xprv9xJocDuwtYCMNAo3Zw76WENQeAS6WGXQ55RCy7tDJ8oALr4FWkuVoHJeHVAcAqiZLE7Je3vZJHxspZdFHfnBEjHqU5hG1Jaj32dVoS6XLT1"]
+    ]
+  }
+];
+
+// Re-encode a serialized key after changing its payload
+function tamper(extendedKey: string, edit: (bytes: Uint8Array) => void): string {
+  const bytes = base58CheckDecode(extendedKey);
+  edit(bytes);
+  return base58CheckEncode(bytes);
+}
+
+describe("BIP32 HD keys", () => {
+  it("should derive the BIP32 test vectors", () => {
+    for (const { seed, chain } of VECTORS) {
+      const master = HDKey.fromMasterSeed(Uint8Array.from(Buffer.from(seed, "hex")));
+
+      for (const [path, xpub, xprv] of chain) {
+        const key = master.derive(path);
+        expect(key.toExtendedPublicKey()).toBe(xpub);
+        expect(key.toExtendedPrivateKey()).toBe(xprv);
+      }
+    }
+  });
+
+  it("should derive step by step with deriveChild", () => {
+    const master = HDKey.fromMasterSeed(Uint8Array.from(Buffer.from(VECTORS[0].seed, "hex")));
+    const child = master.deriveChild(HARDENED_OFFSET).deriveChild(1);
+
+    expect(child.toExtendedPrivateKey()).toBe(VECTORS[0].chain[2][2]);
+    expect(child.depth).toBe(2);
+    expect(child.index).toBe(1);
+    expect(master.deriveChild(HARDENED_OFFSET).parentFingerprint).toBe(0x3442193e);
+    expect(master.fingerprint()).toBe(0x3442193e);
+  });
+
+  it("should round-trip serialized keys", () => {
+    for (const { chain } of VECTORS) {
+      for (const [, xpub, xprv] of chain) {
+        const privateKey = HDKey.fromExtendedKey(xprv);
+        const publicKey = HDKey.fromExtendedKey(xpub);
+
+        expect(privateKey.isPrivate()).toBe(true);
+        expect(publicKey.isPrivate()).toBe(false);
+        expect(privateKey.toExtendedPrivateKey()).toBe(xprv);
+        expect(privateKey.toExtendedPublicKey()).toBe(xpub);
+        expect(publicKey.toExtendedPublicKey()).toBe(xpub);
+        expect(privateKey.neuter().toExtendedPublicKey()).toBe(xpub);
+      }
+    }
+  });
+
+  it("should derive non-hardened children from public keys alone", () => {
+    // m/0'/1/2'/2/1000000000 from the public key at m/0'/1/2'
+    const [, parentXpub] = VECTORS[0].chain[3];
+    const [, childXpub] = VECTORS[0].chain[5];
+
+    expect(HDKey.fromExtendedKey(parentXpub).derive("m/2/1000000000").toExtendedPublicKey()).toBe(childXpub);
+
+    const xpub = HDKey.fromExtendedKey(parentXpub);
+    expectError(() => xpub.deriveChild(HARDENED_OFFSET), Secp256k1EcdsaError.InvalidDerivationPath);
+    expectError(() => xpub.toExtendedPrivateKey(), Secp256k1EcdsaError.InvalidSecretKey);
+  });
+
+  it("should sign with derived keys", () => {
+    const master = HDKey.fromMasterSeed(Uint8Array.from(Buffer.from(VECTORS[0].seed, "hex")));
+    const key = master.derive("m/44'/60'/0'/0/0");
+    const message = new TextEncoder().encode("derived");
+    const signature = Secp256k1EcdsaSignature.sign(new SHA256(), message, key.privateKey);
+
+    // A watch-only account key derives the same address keys
+    const account = master.derive("m/44'/60'/0'").neuter();
+    expect(account.derive("m/0/0").publicKey.equals(key.publicKey)).toBe(true);
+    expect(signature.verify(new SHA256(), message, account.derive("m/0/0").publicKey)).toBe(true);
+  });
+
+  it("should parse derivation paths", () => {
+    expect(HDKey.parsePath("m")).toEqual([]);
+    expect(HDKey.parsePath("m/44'/60h/0H/0/1")).toEqual([
+      HARDENED_OFFSET + 44, HARDENED_OFFSET + 60, HARDENED_OFFSET, 0, 1
+    ]);
+
+    for (const path of ["", "44'/0", "m/", "m//0", "m/-1", "m/0x1", "m/2147483648", "m/1'/a"]) {
+      expectError(() => HDKey.parsePath(path), Secp256k1EcdsaError.InvalidDerivationPath);
+    }
+  });
+
+  it("should use the given version bytes", () => {
+    const master = HDKey.fromMasterSeed(Uint8Array.from(Buffer.from(VECTORS[0].seed, "hex")), BITCOIN_TESTNET_VERSIONS);
+
+    expect(master.toExtendedPrivateKey().startsWith("tprv")).toBe(true);
+    expect(master.toExtendedPublicKey().startsWith("tpub")).toBe(true);
+    expect(HDKey.fromExtendedKey(master.toExtendedPublicKey(), BITCOIN_TESTNET_VERSIONS).publicKey.equals(master.publicKey))
+      .toBe(true);
+    expectError(() => HDKey.fromExtendedKey(master.toExtendedPublicKey()), Secp256k1EcdsaError.InvalidExtendedKey);
+  });
+
+  // Modeled on BIP32 test vector 5
+  it("should reject invalid extended keys", () => {
+    const [, xpub, xprv] = VECTORS[0].chain[0];
+    const [, childXpub] = VECTORS[0].chain[1];
+    const invalid = [
+      // Public version with private key data, and private version with public key data
+      tamper(xprv, bytes => bytes.set([0x04, 0x88, 0xb2, 0x1e], 0)),
+      tamper(xpub, bytes => bytes.set([0x04, 0x88, 0xad, 0xe4], 0)),
+      // Invalid key data prefixes
+      tamper(xpub, bytes => { bytes[45] = 0x04; }),
+      tamper(xprv, bytes => { bytes[45] = 0x01; }),
+      // Zero depth with a parent fingerprint or an index
+      tamper(childXpub, bytes => { bytes[4] = 0; }),
+      tamper(xpub, bytes => { bytes[12] = 1; }),
+      // Private key of zero or at least n
+      tamper(xprv, bytes => bytes.fill(0, 46)),
+      tamper(xprv, bytes => bytes.fill(0xff, 46)),
+      // Public key not on the curve
+      tamper(xpub, bytes => bytes.fill(0x00, 46).fill(0x05, 77)),
+      // Bad checksum and wrong length
+      xpub.slice(0, -1) + (xpub.endsWith("1") ? "2" : "1"),
+      base58CheckEncode(base58CheckDecode(xpub).slice(0, 77))
+    ];
+
+    for (const key of invalid) {
+      expectError(() => HDKey.fromExtendedKey(key), Secp256k1EcdsaError.InvalidExtendedKey);
+    }
+  });
+
+  it("should reject seeds of the wrong length", () => {
+    expectError(() => HDKey.fromMasterSeed(new Uint8Array(15)), Secp256k1EcdsaError.InvalidSecretKey);
+    expectError(() => HDKey.fromMasterSeed(new Uint8Array(65)), Secp256k1EcdsaError.InvalidSecretKey);
+  });
+});
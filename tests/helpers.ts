@@ -0,0 +1,21 @@
+import { expect } from "bun:test";
+import { Secp256k1EcdsaError, Secp256k1EcdsaException } from "../src";
+
+/**
+ * Assert that a call throws a Secp256k1EcdsaException with the given code,
+ * and optionally a message containing the given text
+ */
+export function expectError(fn: () => unknown, code: Secp256k1EcdsaError, message?: string): void {
+  let thrown: unknown;
+  try {
+    fn();
+  } catch (error) {
+    thrown = error;
+  }
+
+  expect(thrown).toBeInstanceOf(Secp256k1EcdsaException);
+  expect((thrown as Secp256k1EcdsaException).code).toBe(code);
+  if (message !== undefined) {
+    expect((thrown as Error).message).toContain(message);
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "bun:test";
+import {
+  Secp256k1EcdsaSignature,
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaPublicKey,
+  Secp256k1EcdsaKeypair,
+  Secp256k1EcdsaError,
+  SHA256
+} from "../src";
+import { expectError } from "./helpers";
+import { ec as EC } from 'elliptic';
+
+// Initialize the secp256k1 curve
+const ec = new EC('secp256k1');
+
+// Helper function to convert hex string to Uint8Array
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes[i / 2] = parseInt(hex.substring(i, i + 2), 16);
+  }
+  return bytes;
+}
+
+// Helper function to convert Uint8Array to hex string
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+describe("Secp256k1 keys", () => {
+  const PRIVATE_KEY_HEX = "ef235aacf90d9f4aadd8c92e4b2562e1d9eb97f0df9ba3b50825873901013db2";
+  const CURVE_ORDER_HEX = "fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141";
+
+  it("should derive the same public key as elliptic", () => {
+    const privateKey = new Secp256k1EcdsaPrivateKey(hexToBytes(PRIVATE_KEY_HEX));
+    const publicKey = privateKey.publicKey();
+
+    const expected = ec.keyFromPrivate(PRIVATE_KEY_HEX, 'hex').getPublic();
+
+    expect(bytesToHex(publicKey.toUncompressed())).toBe(expected.encode('hex', false));
+    expect(bytesToHex(publicKey.toCompressed())).toBe(expected.encode('hex', true));
+    expect(bytesToHex(publicKey.toRaw())).toBe(expected.encode('hex', false).slice(2));
+  });
+
+  it("should derive the generator for the private key 1", () => {
+    const publicKey = Secp256k1EcdsaPublicKey.fromPrivateKey(
+      hexToBytes("0000000000000000000000000000000000000000000000000000000000000001")
+    );
+
+    expect(bytesToHex(publicKey.toCompressed())).toBe(
+      "0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798"
+    );
+  });
+
+  it("should round-trip all public key encodings", () => {
+    const publicKey = Secp256k1EcdsaKeypair.generate().publicKey;
+
+    for (const encoded of [publicKey.toCompressed(), publicKey.toUncompressed(), publicKey.toRaw()]) {
+      const parsed = Secp256k1EcdsaPublicKey.fromBytes(encoded);
+      expect(parsed.equals(publicKey)).toBe(true);
+    }
+  });
+
+  it("should generate distinct valid private keys", () => {
+    const first = Secp256k1EcdsaPrivateKey.generate();
+    const second = Secp256k1EcdsaPrivateKey.generate();
+
+    expect(first.toBytes().length).toBe(32);
+    expect(first.equals(second)).toBe(false);
+  });
+
+  it("should reject out of range private keys", () => {
+    expectError(() => new Secp256k1EcdsaPrivateKey(new Uint8Array(32)), Secp256k1EcdsaError.InvalidSecretKey);
+    expectError(() => new Secp256k1EcdsaPrivateKey(hexToBytes(CURVE_ORDER_HEX)), Secp256k1EcdsaError.InvalidSecretKey);
+    expectError(() => new Secp256k1EcdsaPrivateKey(new Uint8Array(31).fill(1)), Secp256k1EcdsaError.InvalidSecretKey);
+  });
+
+  it("should reject invalid public keys", () => {
+    const publicKey = new Secp256k1EcdsaPrivateKey(hexToBytes(PRIVATE_KEY_HEX)).publicKey();
+
+    // Point not on the curve
+    const offCurve = publicKey.toUncompressed();
+    offCurve[64] ^= 1;
+    expectError(() => Secp256k1EcdsaPublicKey.fromBytes(offCurve), Secp256k1EcdsaError.InvalidPublicKey);
+
+    // Unknown prefixes
+    const badPrefix = publicKey.toCompressed();
+    badPrefix[0] = 0x04;
+    expectError(() => Secp256k1EcdsaPublicKey.fromBytes(badPrefix), Secp256k1EcdsaError.InvalidPublicKey);
+
+    // x-coordinate without a matching point (x = 5 has no square root)
+    const noPoint = new Uint8Array(33);
+    noPoint[0] = 0x02;
+    noPoint[32] = 5;
+    expectError(() => Secp256k1EcdsaPublicKey.fromBytes(noPoint), Secp256k1EcdsaError.InvalidPublicKey);
+
+    // Wrong length
+    expectError(() => Secp256k1EcdsaPublicKey.fromBytes(new Uint8Array(32)), Secp256k1EcdsaError.InvalidPublicKey);
+  });
+
+  it("should sign and verify with key types", () => {
+    const sha256 = new SHA256();
+    const message = new TextEncoder().encode("Hello");
+    const keypair = Secp256k1EcdsaKeypair.fromSecretKey(hexToBytes(PRIVATE_KEY_HEX));
+
+    const signature = Secp256k1EcdsaSignature.sign(sha256, message, keypair.privateKey);
+    const fromBytes = Secp256k1EcdsaSignature.sign(sha256, message, hexToBytes(PRIVATE_KEY_HEX));
+
+    expect(signature.equals(fromBytes)).toBe(true);
+    expect(signature.verify(sha256, message, keypair.publicKey)).toBe(true);
+    expect(signature.recover(sha256, message).equals(keypair.publicKey)).toBe(true);
+  });
+
+  it("should reject invalid private keys when signing", () => {
+    const message = new TextEncoder().encode("Hello");
+
+    expectError(
+      () => Secp256k1EcdsaSignature.sign(new SHA256(), message, hexToBytes(CURVE_ORDER_HEX)),
+      Secp256k1EcdsaError.InvalidSecretKey
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "bun:test";
+import {
+  encryptKeystore,
+  decryptKeystore,
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaError
+} from "../src";
+import type { KeystoreV3 } from "../src";
+import { expectError } from "./helpers";
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex, "hex"));
+}
+
+const PRIVATE_KEY = "7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d";
+
+// Web3 Secret Storage definition, PBKDF2-SHA-256 test vector
+const SPEC_PBKDF2 = {
+  crypto: {
+    cipher: "aes-128-ctr",
+    cipherparams: { iv: "6087dab2f9fdbbfaddc31a909735c1e6" },
+    ciphertext: "5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46",
+    kdf: "pbkdf2",
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: "hmac-sha256",
+      salt: "ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd"
+    },
+    mac: "517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2"
+  },
+  id: "3198bc9c-6672-5ab3-d995-4942343ae5b6",
+  version: 3
+};
+
+// Written by ethers' encryptKeystoreJsonSync with N = 1024, which uses the capitalized "Crypto" key
+const ETHERS_SCRYPT = JSON.stringify({
+  address: "008aeeda4d805471df9b2a5b0f38a0c3bcba786b",
+  id: "03030303-0303-4303-8303-030303030303",
+  version: 3,
+  Crypto: {
+    cipher: "aes-128-ctr",
+    cipherparams: { iv: "02020202020202020202020202020202" },
+    ciphertext: "f7be6f4e539c0de9915e901dde723ba83488d3ae44db46182e523529f8100d18",
+    kdf: "scrypt",
+    kdfparams: { salt: "01".repeat(32), n: 1024, dklen: 32, p: 1, r: 8 },
+    mac: "6086d6de00a35eff7224aff75b19c05a0f171e06f9905304558c63b1504f9c56"
+  }
+});
+
+describe("V3 keystore", () => {
+  it("should decrypt the specification's PBKDF2 vector", () => {
+    const privateKey = decryptKeystore(JSON.stringify(SPEC_PBKDF2), "testpassword");
+
+    expect(privateKey.toBytes()).toEqual(hexToBytes(PRIVATE_KEY));
+  });
+
+  it("should interoperate with ethers scrypt keystores", () => {
+    expect(decryptKeystore(ETHERS_SCRYPT, "pässwörd").toBytes()).toEqual(hexToBytes(PRIVATE_KEY));
+
+    const keystore = encryptKeystore(hexToBytes(PRIVATE_KEY), "pässwörd", {
+      n: 1024,
+      salt: new Uint8Array(32).fill(1),
+      iv: new Uint8Array(16).fill(2),
+      id: "03030303-0303-4303-8303-030303030303"
+    });
+    const expected = JSON.parse(ETHERS_SCRYPT);
+
+    expect(keystore.address).toBe(expected.address);
+    expect(keystore.crypto.ciphertext).toBe(expected.Crypto.ciphertext);
+    expect(keystore.crypto.mac).toBe(expected.Crypto.mac);
+  });
+
+  it("should round-trip with both KDFs", () => {
+    const privateKey = Secp256k1EcdsaPrivateKey.generate();
+    const scrypt = encryptKeystore(privateKey, "hunter2", { n: 1024 });
+    const pbkdf2 = encryptKeystore(privateKey, "hunter2", { kdf: "pbkdf2", c: 1000 });
+
+    expect(scrypt.id).not.toBe(pbkdf2.id);
+    expect(scrypt.crypto.kdfparams.salt).not.toBe(pbkdf2.crypto.kdfparams.salt);
+    expect(decryptKeystore(JSON.stringify(scrypt), "hunter2").toBytes()).toEqual(privateKey.toBytes());
+    expect(decryptKeystore(pbkdf2, "hunter2").toBytes()).toEqual(privateKey.toBytes());
+  });
+
+  it("should reject a wrong password or tampered ciphertext with a MAC mismatch", () => {
+    const keystore = encryptKeystore(hexToBytes(PRIVATE_KEY), "hunter2", { n: 1024 });
+    const tampered: KeystoreV3 = {
+      ...keystore,
+      crypto: { ...keystore.crypto, ciphertext: "00" + keystore.crypto.ciphertext.slice(2) }
+    };
+
+    expectError(() => decryptKeystore(keystore, "hunter3"), Secp256k1EcdsaError.KeystoreMacMismatch);
+    expectError(() => decryptKeystore(tampered, "hunter2"), Secp256k1EcdsaError.KeystoreMacMismatch);
+  });
+
+  it("should reject malformed keystores", () => {
+    const keystore = encryptKeystore(hexToBytes(PRIVATE_KEY), "hunter2", { kdf: "pbkdf2", c: 1000 });
+    const malformed: unknown[] = [
+      "{not json",
+      { ...keystore, version: 1 },
+      { ...keystore, crypto: undefined },
+      { ...keystore, crypto: { ...keystore.crypto, kdf: "argon2" } },
+      { ...keystore, crypto: { ...keystore.crypto, cipher: "aes-128-cbc" } },
+      { ...keystore, address: "0000000000000000000000000000000000000000" },
+      { ...keystore, address: 123 },
+      { ...keystore, address: "0x1234" },
+      { ...keystore, id: 5 },
+      { ...keystore, crypto: { ...keystore.crypto, cipherparams: undefined } },
+      { ...keystore, crypto: { ...keystore.crypto, cipherparams: { iv: "00".repeat(15) } } },
+      { ...keystore, crypto: { ...keystore.crypto, ciphertext: 42 } },
+      { ...keystore, crypto: { ...keystore.crypto, ciphertext: "00".repeat(31) } },
+      { ...keystore, crypto: { ...keystore.crypto, mac: "zz" } },
+      { ...keystore, crypto: { ...keystore.crypto, kdfparams: { ...keystore.crypto.kdfparams, c: "1000" } } },
+      null,
+      "[]"
+    ];
+
+    for (const json of malformed) {
+      expectError(
+        () => decryptKeystore(json as KeystoreV3, "hunter2"),
+        Secp256k1EcdsaError.InvalidKeystore
+      );
+    }
+  });
+
+  it("should reject scrypt costs above the limits before deriving", () => {
+    const keystore = encryptKeystore(hexToBytes(PRIVATE_KEY), "hunter2", { n: 1024 });
+    const params = keystore.crypto.kdfparams;
+    const costs = [{ n: 2 ** 22 }, { n: 1000 }, { n: 1 }, { r: 16 }, { p: 17 }, { p: 0 }, { n: 1.5 }];
+
+    for (const cost of costs) {
+      expectError(
+        () => decryptKeystore({ ...keystore, crypto: { ...keystore.crypto, kdfparams: { ...params, ...cost } } }, "hunter2"),
+        Secp256k1EcdsaError.InvalidKeystore
+      );
+    }
+    expectError(() => encryptKeystore(hexToBytes(PRIVATE_KEY), "hunter2", { n: 2 ** 20 }), Secp256k1EcdsaError.InvalidKeystore);
+  });
+
+  it("should reject PBKDF2 iteration counts above the limit before deriving", () => {
+    const keystore = encryptKeystore(hexToBytes(PRIVATE_KEY), "hunter2", { kdf: "pbkdf2", c: 1000 });
+    const params = keystore.crypto.kdfparams;
+
+    for (const c of [2 ** 31 - 1, 2 ** 20 + 1, 0, 1.5]) {
+      expectError(
+        () => decryptKeystore({ ...keystore, crypto: { ...keystore.crypto, kdfparams: { ...params, c } } }, "hunter2"),
+        Secp256k1EcdsaError.InvalidKeystore
+      );
+    }
+    expectError(() => encryptKeystore(hexToBytes(PRIVATE_KEY), "hunter2", { kdf: "pbkdf2", c: 2 ** 21 }), Secp256k1EcdsaError.InvalidKeystore);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "bun:test";
+import { createHash } from "node:crypto";
+import {
+  HDKey,
+  ENGLISH_WORDLIST,
+  generateMnemonic,
+  entropyToMnemonic,
+  mnemonicToEntropy,
+  mnemonicToSeed,
+  validateMnemonic,
+  Secp256k1EcdsaError,
+  Secp256k1EcdsaKeypair
+} from "../src";
+import { expectError } from "./helpers";
+
+// Trezor BIP39 test vectors (passphrase "TREZOR"): [entropy, mnemonic, seed, master xprv]
+const VECTORS: [string, string, string, string][] = [
+  [
+    "00000000000000000000000000000000",
+    "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about",
+    "c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04",
+    "xprv9s21ZrQH143K3h3fDYiay8mocZ3afhfULfb5GX8kCBdno77K4HiA15Tg23wpbeF1pLfs1c5SPmYHrEpTuuRhxMwvKDwqdKiGJS9XFKzUsAF"
+  ],
+  [
+    "7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f",
+    "legal winner thank year wave sausage worth useful legal winner thank yellow",
+    "2e8905819b8723fe2c1d161860e5ee1830318dbf49a83bd451cfb8440c28bd6fa457fe1296106559a3c80937a1c1069be3a3a5bd381ee6260e8d9739fce1f607",
+    "xprv9s21ZrQH143K2gA81bYFHqU68xz1cX2APaSq5tt6MFSLeXnCKV1RVUJt9FWNTbrrryem4ZckN8k4Ls1H6nwdvDTvnV7zEXs2HgPezuVccsq"
+  ],
+  [
+    "80808080808080808080808080808080",
+    "letter advice cage absurd amount doctor acoustic avoid letter advice cage above",
+    "d71de856f81a8acc65e6fc851a38d4d7ec216fd0796d0a6827a3ad6ed5511a30fa280f12eb2e47ed2ac03b5c462a0358d18d69fe4f985ec81778c1b370b652a8",
+    "xprv9s21ZrQH143K2shfP28KM3nr5Ap1SXjz8gc2rAqqMEynmjt6o1qboCDpxckqXavCwdnYds6yBHZGKHv7ef2eTXy461PXUjBFQg6PrwY4Gzq"
+  ],
+  [
+    "ffffffffffffffffffffffffffffffff",
+    "zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo wrong",
+    "ac27495480225222079d7be181583751e86f571027b0497b5b5d11218e0a8a13332572917f0f8e5a589620c6f15b11c61dee327651a14c34e18231052e48c069",
+    "xprv9s21ZrQH143K2V4oox4M8Zmhi2Fjx5XK4Lf7GKRvPSgydU3mjZuKGCTg7UPiBUD7ydVPvSLtg9hjp7MQTYsW67rZHAXeccqYqrsx8LcXnyd"
+  ],
+  [
+    "000000000000000000000000000000000000000000000000",
+    "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon agent",
+    "035895f2f481b1b0f01fcf8c289c794660b289981a78f8106447707fdd9666ca06da5a9a565181599b79f53b844d8a71dd9f439c52a3d7b3e8a79c906ac845fa",
+    "xprv9s21ZrQH143K3mEDrypcZ2usWqFgzKB6jBBx9B6GfC7fu26X6hPRzVjzkqkPvDqp6g5eypdk6cyhGnBngbjeHTe4LsuLG1cCmKJka5SMkmU"
+  ],
+  [
+    "808080808080808080808080808080808080808080808080",
+    "letter advice cage absurd amount doctor acoustic avoid letter advice cage absurd amount doctor acoustic avoid letter always",
+    "107d7c02a5aa6f38c58083ff74f04c607c2d2c0ecc55501dadd72d025b751bc27fe913ffb796f841c49b1d33b610cf0e91d3aa239027f5e99fe4ce9e5088cd65",
+    "xprv9s21ZrQH143K3VPCbxbUtpkh9pRG371UCLDz3BjceqP1jz7XZsQ5EnNkYAEkfeZp62cDNj13ZTEVG1TEro9sZ9grfRmcYWLBhCocViKEJae"
+  ],
+  [
+    "0000000000000000000000000000000000000000000000000000000000000000",
+    "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon art",
+    "bda85446c68413707090a52022edd26a1c9462295029f2e60cd7c4f2bbd3097170af7a4d73245cafa9c3cca8d561a7c3de6f5d4a10be8ed2a5e608d68f92fcc8",
+    "xprv9s21ZrQH143K32qBagUJAMU2LsHg3ka7jqMcV98Y7gVeVyNStwYS3U7yVVoDZ4btbRNf4h6ibWpY22iRmXq35qgLs79f312g2kj5539ebPM"
+  ],
+  [
+    "ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff",
+    "zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo vote",
+    "dd48c104698c30cfe2b6142103248622fb7bb0ff692eebb00089b32d22484e1613912f0a5b694407be899ffd31ed3992c456cdf60f5d4564b8ba3f05a69890ad",
+    "xprv9s21ZrQH143K2WFF16X85T2QCpndrGwx6GueB72Zf3AHwHJaknRXNF37ZmDrtHrrLSHvbuRejXcnYxoZKvRquTPyp2JiNG3XcjQyzSEgqCB"
+  ],
+  [
+    "9e885d952ad362caeb4efe34a8e91bd2",
+    "ozone drill grab fiber curtain grace pudding thank cruise elder eight picnic",
+    "274ddc525802f7c828d8ef7ddbcdc5304e87ac3535913611fbbfa986d0c9e5476c91689f9c8a54fd55bd38606aa6a8595ad213d4c9c9f9aca3fb217069a41028",
+    "xprv9s21ZrQH143K2oZ9stBYpoaZ2ktHj7jLz7iMqpgg1En8kKFTXJHsjxry1JbKH19YrDTicVwKPehFKTbmaxgVEc5TpHdS1aYhB2s9aFJBeJH"
+  ],
+  [
+    "6610b25967cdcca9d59875f5cb50b0ea75433311869e930b",
+    "gravity machine north sort system female filter attitude volume fold club stay feature office ecology stable narrow fog",
+    "628c3827a8823298ee685db84f55caa34b5cc195a778e52d45f59bcf75aba68e4d7590e101dc414bc1bbd5737666fbbef35d1f1903953b66624f910feef245ac",
+    "xprv9s21ZrQH143K3uT8eQowUjsxrmsA9YUuQQK1RLqFufzybxD6DH6gPY7NjJ5G3EPHjsWDrs9iivSbmvjc9DQJbJGatfa9pv4MZ3wjr8qWPAK"
+  ],
+  [
+    "68a79eaca2324873eacc50cb9c6eca8cc68ea5d936f98787c60c7ebc74e6ce7c",
+    "hamster diagram private dutch cause delay private meat slide toddler razor book happy fancy gospel tennis maple dilemma loan word shrug inflict delay length",
+    "64c87cde7e12ecf6704ab95bb1408bef047c22db4cc7491c4271d170a1b213d20b385bc1588d9c7b38f1b39d415665b8a9030c9ec653d75e65f847d8fc1fc440",
+    "xprv9s21ZrQH143K2XTAhys3pMNcGn261Fi5Ta2Pw8PwaVPhg3D8DWkzWQwjTJfskj8ofb81i9NP2cUNKxwjueJHHMQAnxtivTA75uUFqPFeWzk"
+  ]
+];
+
+describe("BIP39 mnemonics", () => {
+  it("should ship the official English wordlist", () => {
+    expect(ENGLISH_WORDLIST.length).toBe(2048);
+    expect(createHash("sha256").update(ENGLISH_WORDLIST.join("\n") + "\n").digest("hex"))
+      .toBe("2f5eed53a4727b4bf8880d8f3f199efc90e58503646d9ff8eff3a2ed3b24dbda");
+  });
+
+  it("should match the test vectors", () => {
+    for (const [entropy, mnemonic, seed, xprv] of VECTORS) {
+      const entropyBytes = Uint8Array.from(Buffer.from(entropy, "hex"));
+
+      expect(entropyToMnemonic(entropyBytes)).toBe(mnemonic);
+      expect(mnemonicToEntropy(mnemonic)).toEqual(entropyBytes);
+      expect(Buffer.from(mnemonicToSeed(mnemonic, "TREZOR")).toString("hex")).toBe(seed);
+      expect(HDKey.fromMnemonic(mnemonic, "TREZOR").toExtendedPrivateKey()).toBe(xprv);
+    }
+  });
+
+  it("should generate valid mnemonics of each strength", () => {
+    for (const [strength, words] of [[128, 12], [160, 15], [192, 18], [224, 21], [256, 24]] as const) {
+      const mnemonic = generateMnemonic(strength);
+
+      expect(mnemonic.split(" ").length).toBe(words);
+      expect(validateMnemonic(mnemonic)).toBe(true);
+    }
+
+    expect(generateMnemonic()).not.toBe(generateMnemonic());
+  });
+
+  it("should normalize whitespace and Unicode", () => {
+    const [, mnemonic, seed] = VECTORS[0];
+
+    expect(Buffer.from(mnemonicToSeed(`  ${mnemonic.replace(/ /g, "\n\t ")} `, "TREZOR")).toString("hex")).toBe(seed);
+
+    // A precomposed and a decomposed passphrase give the same seed
+    expect(mnemonicToSeed(mnemonic, "caf\u00e9")).toEqual(mnemonicToSeed(mnemonic, "cafe\u0301"));
+  });
+
+  it("should explain why a mnemonic is invalid", () => {
+    const [, mnemonic] = VECTORS[0];
+    const words = mnemonic.split(" ");
+
+    expectError(() => mnemonicToEntropy(words.slice(0, 11).join(" ")), Secp256k1EcdsaError.InvalidMnemonic, "word count: 11");
+    expectError(() => mnemonicToEntropy([...words.slice(0, 11), "abandom"].join(" ")), Secp256k1EcdsaError.InvalidMnemonic, "position 12: abandom");
+    expectError(() => mnemonicToEntropy([...words.slice(0, 11), "abandon"].join(" ")), Secp256k1EcdsaError.InvalidMnemonic, "checksum");
+    expectError(() => entropyToMnemonic(new Uint8Array(15)), Secp256k1EcdsaError.InvalidMnemonic, "entropy length: 15");
+    expectError(() => HDKey.fromMnemonic(words.slice(1).join(" ")), Secp256k1EcdsaError.InvalidMnemonic, "word count");
+
+    expect(validateMnemonic([...words.slice(0, 11), "abandon"].join(" "))).toBe(false);
+    expect(validateMnemonic(mnemonic)).toBe(true);
+  });
+
+  it("should restore a signer from a phrase", () => {
+    const [, mnemonic] = VECTORS[0];
+    const key = HDKey.fromMnemonic(mnemonic).derive("m/44'/60'/0'/0/0");
+    const keypair = new Secp256k1EcdsaKeypair(key.privateKey);
+
+    // The first Ethereum account of the "abandon ... about" phrase
+    expect(Buffer.from(keypair.privateKey.toBytes()).toString("hex"))
+      .toBe("1ab42cc412b618bdea3a599e3c9bae199ebf030895b039e9db1e30dafb12b727");
+  });
+});
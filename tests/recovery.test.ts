@@ -0,0 +1,133 @@
+import { describe, expect, it } from "bun:test";
+import {
+  Secp256k1EcdsaSignature,
+  Secp256k1EcdsaError,
+  Secp256k1EcdsaException,
+  SHA256,
+  Keccak,
+  ESM
+} from "../src";
+import { expectError } from "./helpers";
+import { ec as EC } from 'elliptic';
+
+// Initialize the secp256k1 curve
+const ec = new EC('secp256k1');
+
+// Helper function to convert hex string to Uint8Array
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes[i / 2] = parseInt(hex.substring(i, i + 2), 16);
+  }
+  return bytes;
+}
+
+// Helper function to derive the public key coordinates with elliptic
+function publicKeyOf(privkey: Uint8Array): { x: Uint8Array, y: Uint8Array } {
+  const pubPoint = ec.keyFromPrivate(Buffer.from(privkey)).getPublic();
+  return {
+    x: hexToBytes(pubPoint.getX().toString(16, 64)),
+    y: hexToBytes(pubPoint.getY().toString(16, 64))
+  };
+}
+
+describe("Public key recovery", () => {
+  const PRIVATE_KEY = hexToBytes("ef235aacf90d9f4aadd8c92e4b2562e1d9eb97f0df9ba3b50825873901013db2");
+  const MESSAGE = new TextEncoder().encode("Recover me");
+
+  it("should return a recovery id from sign", () => {
+    const signature = Secp256k1EcdsaSignature.sign(new SHA256(), MESSAGE, PRIVATE_KEY);
+
+    expect(signature.recoveryId).toBeGreaterThanOrEqual(0);
+    expect(signature.recoveryId).toBeLessThanOrEqual(3);
+  });
+
+  it("should sign deterministically like elliptic", () => {
+    const privkey = hexToBytes("0000000000000000000000000000000000000000000000000000000000000001");
+    const message = new TextEncoder().encode("Satoshi Nakamoto");
+    const sha256 = new SHA256();
+
+    const signature = Secp256k1EcdsaSignature.sign(sha256, message, privkey).normalizeS();
+    const expected = ec.keyFromPrivate(Buffer.from(privkey)).sign(Buffer.from(sha256.hash(message)), { canonical: true });
+
+    expect(Buffer.from(signature.signature).toString('hex')).toBe(
+      "934b1ea10a4b3c1757e2b0c017d0b6143ce3c9a7e6a4a49860d7a6ab210ee3d8" +
+      "2442ce9d2b916064108014783e923ec36b49743e2ffa1c4496f01a512aafd9e5"
+    );
+    expect(signature.recoveryId).toBe(expected.recoveryParam!);
+  });
+
+  it("should recover the signer's public key", () => {
+    for (const hashImpl of [new SHA256(), new Keccak(), new ESM()]) {
+      const signature = Secp256k1EcdsaSignature.sign(hashImpl, MESSAGE, PRIVATE_KEY);
+      const recovered = signature.recover(hashImpl, MESSAGE, signature.recoveryId!);
+
+      expect(recovered).toEqual(publicKeyOf(PRIVATE_KEY));
+    }
+  });
+
+  it("should keep the recovery id valid after normalizing S", () => {
+    const sha256 = new SHA256();
+
+    // Try several nonces so that both the high-S and low-S branches are covered
+    for (let i = 1; i <= 8; i++) {
+      const k = new Uint8Array(32);
+      k[31] = i;
+
+      const signature = Secp256k1EcdsaSignature.signWithK(sha256, MESSAGE, k, PRIVATE_KEY).normalizeS();
+
+      expect(signature.recover(sha256, MESSAGE)).toEqual(publicKeyOf(PRIVATE_KEY));
+    }
+  });
+
+  it("should match elliptic's recovery parameter", () => {
+    const sha256 = new SHA256();
+    const signature = Secp256k1EcdsaSignature.sign(sha256, MESSAGE, PRIVATE_KEY);
+
+    const hash = sha256.hash(MESSAGE);
+    const expected = ec.getKeyRecoveryParam(
+      Buffer.from(hash),
+      { r: Buffer.from(signature.r()).toString('hex'), s: Buffer.from(signature.s()).toString('hex') },
+      ec.keyFromPrivate(Buffer.from(PRIVATE_KEY)).getPublic()
+    );
+
+    expect(signature.recoveryId).toBe(expected);
+  });
+
+  it("should recover a different key for the wrong recovery id", () => {
+    const sha256 = new SHA256();
+    const signature = Secp256k1EcdsaSignature.sign(sha256, MESSAGE, PRIVATE_KEY);
+
+    const recovered = signature.recover(sha256, MESSAGE, signature.recoveryId! ^ 1);
+
+    expect(recovered).not.toEqual(publicKeyOf(PRIVATE_KEY));
+  });
+
+  it("should reject invalid recovery ids", () => {
+    const sha256 = new SHA256();
+    const signature = Secp256k1EcdsaSignature.sign(sha256, MESSAGE, PRIVATE_KEY);
+
+    for (const recoveryId of [-1, 4, 1.5]) {
+      expectError(() => signature.recover(sha256, MESSAGE, recoveryId), Secp256k1EcdsaError.InvalidRecoveryId);
+    }
+
+    expect(() => new Secp256k1EcdsaSignature(signature.signature, 4)).toThrow(Secp256k1EcdsaException);
+  });
+
+  it("should require a recovery id when the signature has none", () => {
+    const sha256 = new SHA256();
+    const signature = new Secp256k1EcdsaSignature(
+      Secp256k1EcdsaSignature.sign(sha256, MESSAGE, PRIVATE_KEY).signature
+    );
+
+    expect(() => signature.recover(sha256, MESSAGE)).toThrow(Secp256k1EcdsaException);
+  });
+
+  it("should reject signatures with a zero r component", () => {
+    const sha256 = new SHA256();
+    const bytes = new Uint8Array(64);
+    bytes[63] = 1;
+
+    expectError(() => new Secp256k1EcdsaSignature(bytes).recover(sha256, MESSAGE, 0), Secp256k1EcdsaError.InvalidSignature);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "bun:test";
+import { createHash } from "node:crypto";
+import {
+  rfc6979Generate,
+  Secp256k1EcdsaSignature,
+  Secp256k1EcdsaPrivateKey,
+  Keccak
+} from "../src";
+import type { Rfc6979Hash } from "../src";
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex, "hex"));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("hex").toUpperCase();
+}
+
+// RFC6979 appendix A.2.5: ECDSA, 256 bits (prime field), curve P-256
+const P256_ORDER = 0xFFFFFFFF00000000FFFFFFFFFFFFFFFFBCE6FAADA7179E84F3B9CAC2FC632551n;
+const P256_KEY = hexToBytes("C9AFA9D845BA75166B5C215767B1D6934E50C3DB36E89B127B8A622B120F6721");
+const P256_VECTORS: [string, Rfc6979Hash, string][] = [
+  ["sample", "sha1", "882905F1227FD620FBF2ABF21244F0BA83D0DC3A9103DBBEE43A1FB858109DB4"],
+  ["sample", "sha224", "103F90EE9DC52E5E7FB5132B7033C63066D194321491862059967C715985D473"],
+  ["sample", "sha256", "A6E3C57DD01ABE90086538398355DD4C3B17AA873382B0F24D6129493D8AAD60"],
+  ["sample", "sha384", "09F634B188CEFD98E7EC88B1AA9852D734D0BC272F7D2A47DECC6EBEB375AAD4"],
+  ["sample", "sha512", "5FA81C63109BADB88C1F367B47DA606DA28CAD69AA22C4FE6AD7DF73A7173AA5"],
+  ["test", "sha1", "8C9520267C55D6B980DF741E56B4ADEE114D84FBFA2E62137954164028632A2E"],
+  ["test", "sha224", "669F4426F2688B8BE0DB3A6BD1989BDAEFFF84B649EEB84F3DD26080F667FAA7"],
+  ["test", "sha256", "D16B6AE827F17175E040871A1C7EC3500192C4C92677336EC2537ACAEE0008E0"],
+  ["test", "sha384", "16AEFFA357260B04B1DD199693960740066C1A8F3E8EDD79070AA914D361B3B8"],
+  ["test", "sha512", "6915D11632ACA3C40D5D51C08DAF9C555933819548784480E93499000D9F0B7F"]
+];
+
+// RFC6979 appendix A.1.2: the 163-bit order exercises bits2int truncation
+const K163_ORDER = 0x4000000000000000000020108A2E0CC0D99F8A5EFn;
+const K163_KEY = hexToBytes("009A4D6792295A7F730FC3F2B49CBC0F62E862272F");
+
+describe("RFC6979 nonce generation", () => {
+  it("should match the RFC's P-256 vectors for every hash", () => {
+    for (const [message, hash, k] of P256_VECTORS) {
+      const h1 = new Uint8Array(createHash(hash).update(message).digest());
+
+      expect(toHex(rfc6979Generate(P256_KEY, h1, { hash, order: P256_ORDER }))).toBe(k);
+    }
+  });
+
+  it("should match the RFC's vectors for an order that is not a whole number of bytes", () => {
+    const h1 = new Uint8Array(createHash("sha256").update("sample").digest());
+    const k = rfc6979Generate(K163_KEY, h1, { hash: "sha256", order: K163_ORDER });
+
+    expect(BigInt("0x" + toHex(k))).toBe(0x23AF4074C90A02B3FE61D286D5C87F425E6BDD81Bn);
+  });
+});
+
+// Cross-checked with @noble/curves, signing with lowS: false
+describe("Signing nonce options", () => {
+  const privateKey = new Secp256k1EcdsaPrivateKey(
+    hexToBytes("c9afa9d845ba75166b5c215767b1d6934e50c3db36e89b127b8a622b120f6721")
+  );
+  const digest = new Keccak().hash(new TextEncoder().encode("hedged"));
+  const entropy = new Uint8Array(32).fill(0x42);
+
+  it("should use the requested HMAC hash", () => {
+    const signature = Secp256k1EcdsaSignature.signDigest(digest, privateKey, { nonceHash: "keccak256" });
+
+    expect(toHex(signature.signature)).toBe(
+      "D00AB4B219AD64B02F5E5E140DE7F8FF493EDBC34EC9116AD9E0CB3A5F7C715F"
+      + "26AAA3397E21F0C0B10A1ABA8B8EF738D6256AF76C2BC55A825F364E55DDE9BF"
+    );
+  });
+
+  it("should mix extra entropy into the nonce", () => {
+    const hedged = Secp256k1EcdsaSignature.signDigest(digest, privateKey, { extraEntropy: entropy });
+    const keccakHedged = Secp256k1EcdsaSignature.signDigest(digest, privateKey, {
+      nonceHash: "keccak256",
+      extraEntropy: entropy
+    });
+
+    expect(toHex(hedged.signature)).toBe(
+      "9CE0DEE74216F85655EC88A3E57B390E1DD06C721ED4F0C43DBC20B8B1D4C79D"
+      + "8BC0234CDB8FCF6018CEF63A2A90A8783AB2E572AD8D1CC8F218942D9F9D00AC"
+    );
+    expect(toHex(keccakHedged.signature)).toBe(
+      "02C1F45F51BF33439947C171549A16D31BEDF71DD9BB30D7D05B8C2438123C91"
+      + "B8E0CBE153A3BDAB6FBFCD86AD24E949424D3F2BA05265A9DDC406477B73915F"
+    );
+  });
+
+  it("should produce a fresh valid signature with random entropy", () => {
+    const keccak = new Keccak();
+    const message = new TextEncoder().encode("hedged");
+    const first = Secp256k1EcdsaSignature.sign(keccak, message, privateKey, { extraEntropy: true });
+    const second = Secp256k1EcdsaSignature.sign(keccak, message, privateKey, { extraEntropy: true });
+
+    expect(first.equals(second)).toBe(false);
+    expect(first.verify(keccak, message, privateKey.publicKey())).toBe(true);
+    expect(second.verify(keccak, message, privateKey.publicKey())).toBe(true);
+  });
+});
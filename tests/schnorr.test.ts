@@ -0,0 +1,120 @@
+import { describe, expect, it } from "bun:test";
+import { readFileSync } from "node:fs";
+import {
+  Secp256k1SchnorrSignature,
+  Secp256k1EcdsaPrivateKey,
+  TaggedHash,
+  getNostrEventId,
+  signNostrEvent,
+  verifyNostrEvent
+} from "../src";
+import type { NostrEvent } from "../src";
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex, "hex"));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("hex").toUpperCase();
+}
+
+// The official BIP340 test vectors, test-vectors.csv from the bips repository
+const vectors = readFileSync(new URL("./vectors/bip340.csv", import.meta.url), "utf8")
+  .trim()
+  .split("\n")
+  .slice(1)
+  .map(line => {
+    const [index, secretKey, publicKey, auxRand, message, signature, result, ...comment] = line.split(",");
+    return { index, secretKey, publicKey, auxRand, message, signature, valid: result === "TRUE", comment: comment.join(",") };
+  });
+
+describe("BIP340 test vectors", () => {
+  it("should include all official vectors", () => {
+    expect(vectors.length).toBe(19);
+  });
+
+  for (const vector of vectors) {
+    it(`vector ${vector.index}${vector.comment ? `: ${vector.comment}` : ""}`, () => {
+      const message = hexToBytes(vector.message);
+      const publicKey = hexToBytes(vector.publicKey);
+
+      if (vector.secretKey) {
+        const signature = Secp256k1SchnorrSignature.sign(message, hexToBytes(vector.secretKey), hexToBytes(vector.auxRand));
+
+        expect(toHex(Secp256k1SchnorrSignature.getPublicKey(hexToBytes(vector.secretKey)))).toBe(vector.publicKey);
+        expect(toHex(signature.signature)).toBe(vector.signature);
+      }
+
+      const signature = new Secp256k1SchnorrSignature(hexToBytes(vector.signature));
+      expect(signature.verify(message, publicKey)).toBe(vector.valid);
+    });
+  }
+});
+
+describe("Schnorr signatures", () => {
+  const privateKey = new Secp256k1EcdsaPrivateKey(hexToBytes("0340".repeat(16)));
+  const message = new TextEncoder().encode("taproot");
+
+  it("should accept full public keys as well as x-only keys", () => {
+    const publicKey = privateKey.publicKey();
+    const signature = Secp256k1SchnorrSignature.sign(message, privateKey);
+
+    expect(Secp256k1SchnorrSignature.toXOnly(publicKey.toUncompressed())).toEqual(publicKey.x);
+    expect(signature.verify(message, publicKey)).toBe(true);
+    expect(signature.verify(message, publicKey.toCompressed())).toBe(true);
+    expect(signature.verify(message.subarray(1), publicKey.x)).toBe(false);
+  });
+
+  it("should use fresh auxiliary randomness by default", () => {
+    const first = Secp256k1SchnorrSignature.sign(message, privateKey);
+    const second = Secp256k1SchnorrSignature.sign(message, privateKey);
+
+    expect(first.equals(second)).toBe(false);
+    expect(second.verify(message, Secp256k1SchnorrSignature.getPublicKey(privateKey))).toBe(true);
+    expect(() => Secp256k1SchnorrSignature.sign(message, privateKey, new Uint8Array(31))).toThrow();
+  });
+
+  it("should compute BIP340 tagged hashes", () => {
+    // sha256(sha256("TapLeaf") || sha256("TapLeaf")) of an empty message
+    expect(toHex(new TaggedHash("TapLeaf").hash(new Uint8Array(0))))
+      .toBe("5212C288A377D1F8164962A5A13429F9BA6A7B84E59776A52C6637DF2106FACB");
+  });
+});
+
+// Signed by nostr-tools finalizeEvent
+const NOSTR_EVENT: NostrEvent = {
+  kind: 1,
+  created_at: 1700000000,
+  tags: [["e", "ab".repeat(32)], ["t", "secp256k1"]],
+  content: "gm \"nostr\"\nline two ✓",
+  pubkey: "9ac20335eb38768d2052be1dbbc3c8f6178407458e51e6b4ad22f1d91758895b",
+  id: "840ed49e446cae57cb95b9e497a27797035f3345334690740112a3462c3cdc59",
+  sig: "9b356edbdd95a9ffb389f25e21fa1b256a13c7d31810ef987027368b7be5cc3a"
+    + "cc43d6ed4593442b8d2ca4a28e5ca8991d879d151991a8ebde43831ba5820896"
+};
+
+describe("Nostr events", () => {
+  it("should verify events signed by nostr-tools", () => {
+    expect(getNostrEventId(NOSTR_EVENT)).toBe(NOSTR_EVENT.id);
+    expect(verifyNostrEvent(NOSTR_EVENT)).toBe(true);
+  });
+
+  it("should sign events with the same id", () => {
+    const event = signNostrEvent(
+      { kind: NOSTR_EVENT.kind, created_at: NOSTR_EVENT.created_at, tags: NOSTR_EVENT.tags, content: NOSTR_EVENT.content },
+      hexToBytes("5".repeat(64))
+    );
+
+    expect(event.pubkey).toBe(NOSTR_EVENT.pubkey);
+    expect(event.id).toBe(NOSTR_EVENT.id);
+    expect(verifyNostrEvent(event)).toBe(true);
+  });
+
+  it("should reject edited content and foreign signatures", () => {
+    const other = signNostrEvent({ kind: 1, created_at: 1700000000, tags: [], content: "other" }, hexToBytes("6".repeat(64)));
+
+    expect(verifyNostrEvent({ ...NOSTR_EVENT, content: "gm" })).toBe(false);
+    expect(verifyNostrEvent({ ...NOSTR_EVENT, sig: other.sig })).toBe(false);
+    expect(verifyNostrEvent({ ...NOSTR_EVENT, pubkey: other.pubkey })).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "bun:test";
+import { createSign, createVerify, generateKeyPairSync } from "node:crypto";
+import {
+  Secp256r1EcdsaSignature,
+  Secp256r1PrivateKey,
+  Secp256r1PublicKey,
+  Secp256k1EcdsaSignature,
+  Secp256k1EcdsaError,
+  SHA256
+} from "../src";
+import { expectError } from "./helpers";
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex, 'hex'));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+// RFC6979 appendix A.2.5: P-256 with SHA-256, message "sample"
+const RFC6979_KEY = hexToBytes("c9afa9d845ba75166b5c215767b1d6934e50c3db36e89b127b8a622b120f6721");
+const RFC6979_PUBLIC_X = "60fed4ba255a9d31c961eb74c6356d68c049b8923b61fa6ce669622e60f29fb6";
+const RFC6979_PUBLIC_Y = "7903fe1008b8bc99a41ae9e95628bc64f2f1b20c2d7e9f5177a3c294d4462299";
+const RFC6979_SIGNATURE =
+  "efd48b2aacb6a8fd1140dd9cd45e81d69d2c877b56aaf991c34d0ea84eaf3716" +
+  "f7cb1c942d657c41d436c7a1b6e29f65f3e900dbb9aff4064dc4ab2f843acda8";
+
+const sha256 = new SHA256();
+const message = new TextEncoder().encode("sample");
+
+describe("Secp256r1 (P-256) signatures", () => {
+  it("should derive the RFC6979 public key", () => {
+    const publicKey = new Secp256r1PrivateKey(RFC6979_KEY).publicKey();
+
+    expect(toHex(publicKey.x)).toBe(RFC6979_PUBLIC_X);
+    expect(toHex(publicKey.y)).toBe(RFC6979_PUBLIC_Y);
+    expect(Secp256r1PublicKey.fromBytes(publicKey.toCompressed()).equals(publicKey)).toBe(true);
+    expect(Secp256r1PublicKey.fromBytes(publicKey.toUncompressed()).equals(publicKey)).toBe(true);
+  });
+
+  it("should sign the RFC6979 test vector", () => {
+    const signature = Secp256r1EcdsaSignature.sign(sha256, message, RFC6979_KEY);
+
+    expect(toHex(signature.signature)).toBe(RFC6979_SIGNATURE);
+    expect(signature.verify(sha256, message, new Secp256r1PrivateKey(RFC6979_KEY).publicKey())).toBe(true);
+  });
+
+  it("should normalize against the P-256 half order", () => {
+    const signature = Secp256r1EcdsaSignature.sign(sha256, message, RFC6979_KEY);
+    const normalized = signature.normalizeS();
+    const publicKey = new Secp256r1PrivateKey(RFC6979_KEY).publicKey();
+
+    // s = f7cb... is high for P-256
+    expect(signature.isLowS()).toBe(false);
+    expect(normalized.isLowS()).toBe(true);
+    expect(normalized.normalizeS()).toBe(normalized);
+    expect(normalized.verify(sha256, message, publicKey)).toBe(true);
+  });
+
+  it("should interoperate with node:crypto prime256v1 keys", () => {
+    const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+    const jwk = privateKey.export({ format: "jwk" });
+    const privkey = new Uint8Array(Buffer.from(jwk.d!, "base64url"));
+    const rawPublicKey = new Uint8Array(publicKey.export({ format: "der", type: "spki" })).slice(-65);
+
+    expect(toHex(new Secp256r1PrivateKey(privkey).publicKey().toUncompressed())).toBe(toHex(rawPublicKey));
+
+    // Ours verified by node
+    const ours = Secp256r1EcdsaSignature.sign(sha256, message, privkey);
+    expect(createVerify("sha256").update(message).verify(publicKey, Buffer.from(ours.toDER()))).toBe(true);
+
+    // Node's, DER-encoded as WebAuthn authenticators return them, verified by us
+    const der = createSign("sha256").update(message).sign(privateKey);
+    const theirs = Secp256r1EcdsaSignature.fromDER(new Uint8Array(der));
+    expect(theirs.verify(sha256, message, rawPublicKey)).toBe(true);
+    expect(theirs.verify(sha256, new TextEncoder().encode("other"), rawPublicKey)).toBe(false);
+  });
+
+  it("should not accept secp256k1 keys or signatures across curves", () => {
+    const p256Signature = Secp256r1EcdsaSignature.sign(sha256, message, RFC6979_KEY);
+    const k1Signature = Secp256k1EcdsaSignature.sign(sha256, message, RFC6979_KEY);
+
+    expect(p256Signature.equals(new Secp256r1EcdsaSignature(k1Signature.signature))).toBe(false);
+    expect(new Secp256r1EcdsaSignature(k1Signature.signature)
+      .verify(sha256, message, new Secp256r1PrivateKey(RFC6979_KEY).publicKey())).toBe(false);
+  });
+
+  it("should reject invalid keys and signatures", () => {
+    const order = hexToBytes("ffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551");
+    const publicKey = new Secp256r1PrivateKey(RFC6979_KEY).publicKey();
+
+    expectError(() => new Secp256r1PrivateKey(order), Secp256k1EcdsaError.InvalidSecretKey);
+    expectError(() => new Secp256r1PrivateKey(new Uint8Array(32)), Secp256k1EcdsaError.InvalidSecretKey);
+    expectError(() => Secp256r1PublicKey.fromBytes(Uint8Array.of(0x05, ...publicKey.x)), Secp256k1EcdsaError.InvalidPublicKey);
+    expectError(() => new Secp256r1EcdsaSignature(new Uint8Array(63)), Secp256k1EcdsaError.InvalidSignature);
+    expectError(() => Secp256r1EcdsaSignature.signDigest(new Uint8Array(31), RFC6979_KEY), Secp256k1EcdsaError.InvalidHashLength);
+
+    const signature = hexToBytes(RFC6979_SIGNATURE);
+    signature.set(order, 32);
+    expect(new Secp256r1EcdsaSignature(signature).verify(sha256, message, publicKey)).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "bun:test";
+import {
+  SiweMessage,
+  type SiweMessageFields,
+  SiweVerificationError,
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaError,
+  EthereumSignature,
+  ESM
+} from "../src";
+import { expectError } from "./helpers";
+
+const PRIVATE_KEY = new Secp256k1EcdsaPrivateKey(
+  Uint8Array.from(Buffer.from("4b9d6f57d28b06cbfa1d4cc710953e62d653caf853d12da2581e69c4c400555c", "hex"))
+);
+const ADDRESS = "0x67238BF18AF1d6B80381d1b980Cce2d3d7f07c51";
+
+const FULL: SiweMessageFields = {
+  scheme: "https",
+  domain: "example.com",
+  address: ADDRESS,
+  statement: "I accept the ExampleOrg Terms of Service: https://example.com/tos",
+  uri: "https://example.com/login",
+  version: "1",
+  chainId: 1,
+  nonce: "32891756",
+  issuedAt: "2021-09-30T16:25:24Z",
+  expirationTime: "2021-10-07T16:25:24.000Z",
+  notBefore: "2021-09-30T16:25:24Z",
+  requestId: "some-request-id",
+  resources: [
+    "ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq/",
+    "https://example.com/my-web2-claim.json"
+  ]
+};
+
+const MINIMAL: SiweMessageFields = {
+  domain: "localhost:3000",
+  address: ADDRESS,
+  uri: "http://localhost:3000",
+  version: "1",
+  chainId: 8453,
+  nonce: "abcdefgh12345678",
+  issuedAt: "2024-01-01T00:00:00.000Z"
+};
+
+// Text from the siwe package's prepareMessage, signed with ethers v6 Wallet.signMessage
+const VECTORS = [
+  {
+    name: "all fields",
+    fields: FULL,
+    text: "https://example.com wants you to sign in with your Ethereum account:\n0x67238BF18AF1d6B80381d1b980Cce2d3d7f07c51\n\nI accept the ExampleOrg Terms of Service: https://example.com/tos\n\nURI: https://example.com/login\nVersion: 1\nChain ID: 1\nNonce: 32891756\nIssued At: 2021-09-30T16:25:24Z\nExpiration Time: 2021-10-07T16:25:24.000Z\nNot Before: 2021-09-30T16:25:24Z\nRequest ID: some-request-id\nResources:\n- ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq/\n- https://example.com/my-web2-claim.json",
+    signature: "0x08dcdcb4bd59bf7aec1b95dd5f3e1002f972ca3fe1530d5a9717a2becf7f8f0550c11aa09e680956bd5ca215dc9a4c183eb2e08570a9da4d29fc7faa702ce57e1c"
+  },
+  {
+    name: "required fields only",
+    fields: MINIMAL,
+    text: "localhost:3000 wants you to sign in with your Ethereum account:\n0x67238BF18AF1d6B80381d1b980Cce2d3d7f07c51\n\n\nURI: http://localhost:3000\nVersion: 1\nChain ID: 8453\nNonce: abcdefgh12345678\nIssued At: 2024-01-01T00:00:00.000Z",
+    signature: "0xd777bd15682b6cde2432a98613f134d5bc9439799589849dba35008592707ec0142da0f1da43d9956765add8a1730b2def20bde76eec3ba33a39c5407253a2f11b"
+  }
+];
+
+describe("Sign-In With Ethereum", () => {
+  for (const vector of VECTORS) {
+    it(`should serialize and sign a message with ${vector.name} like siwe and ethers`, () => {
+      const message = new SiweMessage(vector.fields);
+
+      expect(message.toMessage()).toBe(vector.text);
+      expect(message.signingHash()).toEqual(new ESM().hash(new TextEncoder().encode(vector.text)));
+      expect(message.sign(PRIVATE_KEY).toHex()).toBe(vector.signature);
+    });
+
+    it(`should parse a message with ${vector.name}`, () => {
+      const message = SiweMessage.parse(vector.text);
+
+      expect(message.toMessage()).toBe(vector.text);
+      expect(message.fields.domain).toBe(vector.fields.domain);
+      expect(message.fields.statement).toBe(vector.fields.statement);
+      expect(message.fields.resources).toEqual(vector.fields.resources);
+      expect(message.verify(vector.signature, { time: new Date("2021-10-01T00:00:00Z") })).toEqual({ valid: true });
+    });
+  }
+
+  it("should round-trip an empty resource list", () => {
+    const message = new SiweMessage({ ...MINIMAL, resources: [] });
+    const parsed = SiweMessage.parse(message.toMessage());
+
+    expect(message.toMessage().endsWith("\nResources:")).toBe(true);
+    expect(parsed.fields.resources).toEqual([]);
+  });
+
+  it("should return typed verification failures", () => {
+    const message = new SiweMessage(FULL);
+    const signature = EthereumSignature.fromHex(VECTORS[0].signature);
+    const time = new Date("2021-10-01T00:00:00Z");
+
+    expect(message.verify(signature, { domain: "example.com", nonce: "32891756", time })).toEqual({ valid: true });
+    expect(message.verify(signature, { domain: "evil.com", time }))
+      .toEqual({ valid: false, error: SiweVerificationError.DomainMismatch });
+    expect(message.verify(signature, { nonce: "00000000", time }))
+      .toEqual({ valid: false, error: SiweVerificationError.NonceMismatch });
+    expect(message.verify(signature, { time: new Date("2021-10-07T16:25:24Z") }))
+      .toEqual({ valid: false, error: SiweVerificationError.Expired });
+    expect(message.verify(signature, { time: new Date("2021-09-30T16:25:23Z") }))
+      .toEqual({ valid: false, error: SiweVerificationError.NotYetValid });
+    expect(message.verify(message.sign(new Secp256k1EcdsaPrivateKey(new Uint8Array(32).fill(1))), { time }))
+      .toEqual({ valid: false, error: SiweVerificationError.InvalidSignature });
+    expect(message.verify("0x1234", { time }))
+      .toEqual({ valid: false, error: SiweVerificationError.InvalidSignature });
+    expect(new SiweMessage({ ...FULL, nonce: "32891757" }).verify(signature, { time }))
+      .toEqual({ valid: false, error: SiweVerificationError.InvalidSignature });
+  });
+
+  it("should generate alphanumeric nonces", () => {
+    const nonce = SiweMessage.generateNonce();
+
+    expect(nonce).toMatch(/^[0-9a-f]{32}$/);
+    expect(SiweMessage.generateNonce()).not.toBe(nonce);
+  });
+
+  it("should reject invalid fields", () => {
+    const invalid: Partial<SiweMessageFields>[] = [
+      { scheme: "1http" },
+      { domain: "example.com/path" },
+      { statement: "two\nlines" },
+      { statement: "" },
+      { uri: "not a uri" },
+      { version: "2" as "1" },
+      { chainId: -1 },
+      { nonce: "short" },
+      { nonce: "not-alpha-numeric" },
+      { issuedAt: "2021-02-29T00:00:00Z" },
+      { issuedAt: "2021-09-30 16:25:24Z" },
+      { expirationTime: "2021-10-07T24:00:00Z" },
+      { notBefore: "2021-09-30T16:25:24" },
+      { requestId: "a/b" },
+      { resources: ["https://example.com/ok", "no scheme"] }
+    ];
+
+    for (const fields of invalid) {
+      expectError(() => new SiweMessage({ ...FULL, ...fields }), Secp256k1EcdsaError.InvalidSiweMessage);
+    }
+    expectError(() => new SiweMessage({ ...FULL, address: ADDRESS.toLowerCase() }), Secp256k1EcdsaError.InvalidAddress);
+  });
+
+  it("should reject text that does not match the ABNF", () => {
+    const text = VECTORS[0].text;
+    const malformed = [
+      text + "\n",
+      text.replace("wants you to sign in", "wants you to log in"),
+      text.replace("\n\nURI:", "\nURI:"),
+      VECTORS[1].text.replace("\n\n\nURI:", "\n\n\n\nURI:"),
+      text.replace("Version: 1\nChain ID: 1", "Chain ID: 1\nVersion: 1"),
+      text.replace("\nNonce: 32891756", ""),
+      text.replace("Chain ID: 1", "Chain ID: 01"),
+      text.replace("Request ID", "Request Id"),
+      text.replace("- https://", "-https://"),
+      text.replace(/\n/g, "\r\n")
+    ];
+
+    for (const message of malformed) {
+      expectError(() => SiweMessage.parse(message), Secp256k1EcdsaError.InvalidSiweMessage);
+    }
+  });
+});
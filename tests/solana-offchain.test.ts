@@ -0,0 +1,157 @@
+import { describe, expect, it } from "bun:test";
+import {
+  SolanaOffchainMessage,
+  SolanaOffchainMessageFormat,
+  SOLANA_OFFCHAIN_MESSAGE_MAX_LEDGER_LENGTH,
+  Secp256k1Program,
+  Secp256k1Precompile,
+  Secp256k1EcdsaSignature,
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaError,
+  SOM
+} from "../src";
+import { expectError } from "./helpers";
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex, 'hex'));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+// Encoded with getOffchainMessageV0Encoder from @solana/offchain-messages
+const ASCII_VECTOR = {
+  signers: ['SysvarRent111111111111111111111111111111111'],
+  message: 'Hello, Solana!',
+  encoded: 'ff736f6c616e61206f6666636861696e00' + '00'.repeat(32) + '0001' +
+    '06a7d517192c5c51218cc94c3d4af17f58daee089ba1fd44e3dbd98a00000000' + '0e00' + '48656c6c6f2c20536f6c616e6121',
+  keccak: '1fec22fdd22d2e80f05dc7e3a064db60474a025dbb972a0f9eb1be48d944fe45'
+};
+const UTF8_VECTOR = {
+  applicationDomain: 'SysvarC1ock11111111111111111111111111111111',
+  signers: ['SysvarRent111111111111111111111111111111111', 'Vote111111111111111111111111111111111111111'],
+  message: 'Привет ☀',
+  encoded: 'ff736f6c616e61206f6666636861696e00' +
+    '06a7d51718c774c928566398691d5eb68b5eb8a39b4b6d5c73555b2100000000' + '0102' +
+    '06a7d517192c5c51218cc94c3d4af17f58daee089ba1fd44e3dbd98a00000000' +
+    '0761481d357474bb7c4d7624ebd3bdb3d8355e73d11043fc0da3538000000000' + '1000' +
+    'd09fd180d0b8d0b2d0b5d18220e29880'
+};
+
+describe("Solana off-chain messages", () => {
+  it("should encode like @solana/offchain-messages", () => {
+    const ascii = new SolanaOffchainMessage(text(ASCII_VECTOR.message), { signers: ASCII_VECTOR.signers });
+    expect(ascii.format).toBe(SolanaOffchainMessageFormat.RestrictedAscii);
+    expect(toHex(ascii.serialize())).toBe(ASCII_VECTOR.encoded);
+
+    const utf8 = new SolanaOffchainMessage(text(UTF8_VECTOR.message), {
+      signers: UTF8_VECTOR.signers,
+      applicationDomain: UTF8_VECTOR.applicationDomain
+    });
+    expect(utf8.format).toBe(SolanaOffchainMessageFormat.LimitedUtf8);
+    expect(toHex(utf8.serialize())).toBe(UTF8_VECTOR.encoded);
+  });
+
+  it("should parse encoded messages back", () => {
+    const parsed = SolanaOffchainMessage.parse(hexToBytes(UTF8_VECTOR.encoded));
+
+    expect(parsed.version).toBe(0);
+    expect(parsed.format).toBe(SolanaOffchainMessageFormat.LimitedUtf8);
+    expect(parsed.signers.length).toBe(2);
+    expect(parsed.text()).toBe(UTF8_VECTOR.message);
+    expect(toHex(parsed.serialize())).toBe(UTF8_VECTOR.encoded);
+  });
+
+  it("should pick the extended format only when the message needs it", () => {
+    const signers = [new Uint8Array(32)];
+    const limit = SOLANA_OFFCHAIN_MESSAGE_MAX_LEDGER_LENGTH - 16 - 1 - 32 - 2 - 32 - 2;
+
+    expect(new SolanaOffchainMessage(text('a'.repeat(limit)), { signers }).format).toBe(SolanaOffchainMessageFormat.RestrictedAscii);
+    expect(new SolanaOffchainMessage(text('a'.repeat(limit + 1)), { signers }).format).toBe(SolanaOffchainMessageFormat.ExtendedUtf8);
+    expect(new SolanaOffchainMessage(text('line\nbreak'), { signers }).format).toBe(SolanaOffchainMessageFormat.LimitedUtf8);
+
+    expectError(
+      () => new SolanaOffchainMessage(text('a'.repeat(limit + 1)), { signers, format: SolanaOffchainMessageFormat.LimitedUtf8 }),
+      Secp256k1EcdsaError.InvalidOffchainMessage
+    );
+    expectError(
+      () => new SolanaOffchainMessage(new Uint8Array(0x10000).fill(0x61), { signers }),
+      Secp256k1EcdsaError.InvalidOffchainMessage
+    );
+  });
+
+  it("should reject messages that break their format", () => {
+    const signers = [new Uint8Array(32)];
+    const invalid = [
+      () => new SolanaOffchainMessage(text('tab\t'), { signers, format: SolanaOffchainMessageFormat.RestrictedAscii }),
+      () => new SolanaOffchainMessage(Uint8Array.of(0xc3, 0x28), { signers, format: SolanaOffchainMessageFormat.ExtendedUtf8 }),
+      () => new SolanaOffchainMessage(new Uint8Array(0), { signers }),
+      () => new SolanaOffchainMessage(text('hi'), { signers: [] }),
+      () => new SolanaOffchainMessage(text('hi'), { signers: [new Uint8Array(31)] }),
+      () => new SolanaOffchainMessage(text('hi'), { signers, applicationDomain: '0OIl' }),
+      () => new SolanaOffchainMessage(text('hi'), { signers, format: 3 })
+    ];
+
+    for (const fn of invalid) {
+      expectError(fn, Secp256k1EcdsaError.InvalidOffchainMessage);
+    }
+  });
+
+  it("should reject malformed serialized messages", () => {
+    const encoded = hexToBytes(ASCII_VECTOR.encoded);
+    const withByte = (index: number, value: number) => {
+      const copy = encoded.slice();
+      copy[index] = value;
+      return copy;
+    };
+
+    const invalid = [
+      encoded.subarray(0, 40),
+      withByte(0, 0x80),
+      withByte(16, 1),
+      withByte(49, 7),
+      withByte(50, 0),
+      withByte(50, 2),
+      encoded.subarray(0, encoded.length - 1),
+      Uint8Array.from([...encoded, 0x21])
+    ];
+
+    for (const bytes of invalid) {
+      expectError(() => SolanaOffchainMessage.parse(bytes), Secp256k1EcdsaError.InvalidOffchainMessage);
+    }
+  });
+});
+
+describe("SOM hash", () => {
+  const PRIVATE_KEY = new Secp256k1EcdsaPrivateKey(
+    hexToBytes("4b9d6f57d28b06cbfa1d4cc710953e62d653caf853d12da2581e69c4c400555c")
+  );
+
+  it("should hash the envelope with Keccak-256", () => {
+    const som = new SOM({ signers: ASCII_VECTOR.signers });
+
+    expect(toHex(som.encode(text(ASCII_VECTOR.message)))).toBe(ASCII_VECTOR.encoded);
+    expect(toHex(som.hash(text(ASCII_VECTOR.message)))).toBe(ASCII_VECTOR.keccak);
+  });
+
+  it("should sign and verify messages in the envelope", () => {
+    const som = new SOM({ signers: [new Uint8Array(32).fill(7)] });
+    const message = text("Sign in to example.com");
+    const signature = Secp256k1EcdsaSignature.sign(som, message, PRIVATE_KEY);
+
+    expect(signature.verify(som, message, PRIVATE_KEY.publicKey())).toBe(true);
+    expect(signature.verify(new SOM({ signers: [new Uint8Array(32).fill(8)] }), message, PRIVATE_KEY.publicKey())).toBe(false);
+  });
+
+  it("should put the envelope in secp256k1 program instructions", () => {
+    const som = new SOM({ signers: ASCII_VECTOR.signers });
+    const entry = Secp256k1Program.createSignature(som, text(ASCII_VECTOR.message), PRIVATE_KEY);
+    const data = Secp256k1Program.encodeInstructionData([entry], 0);
+
+    expect(toHex(entry.message)).toBe(ASCII_VECTOR.encoded);
+    expect(Secp256k1Precompile.verifyInstruction(data, [data]).valid).toBe(true);
+  });
+});
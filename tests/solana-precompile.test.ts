@@ -0,0 +1,207 @@
+import { describe, expect, it } from "bun:test";
+import {
+  Secp256k1Precompile,
+  Secp256k1PrecompileError,
+  Secp256k1RecoverError,
+  Secp256k1Program,
+  Secp256k1EcdsaPrivateKey,
+  SolanaMessage,
+  secp256k1Recover,
+  Keccak
+} from "../src";
+import * as web3 from "@solana/web3.js";
+
+// Helper function to convert hex string to Uint8Array
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes[i / 2] = parseInt(hex.substring(i, i + 2), 16);
+  }
+  return bytes;
+}
+
+describe("Solana secp256k1 precompile emulation", () => {
+  const PRIVATE_KEY = new Secp256k1EcdsaPrivateKey(
+    hexToBytes("4b9d6f57d28b06cbfa1d4cc710953e62d653caf853d12da2581e69c4c400555c")
+  );
+  const MESSAGE = new TextEncoder().encode("Pre-flight me");
+  const FEE_PAYER = web3.Keypair.fromSeed(new Uint8Array(32).fill(7));
+  const BLOCKHASH = "11111111111111111111111111111111";
+
+  // Helper function to wrap secp256k1 instruction data in a signed legacy transaction
+  function buildTransaction(...datas: Uint8Array[]): Uint8Array {
+    const transaction = new web3.Transaction();
+    transaction.add(web3.SystemProgram.transfer({
+      fromPubkey: FEE_PAYER.publicKey,
+      toPubkey: FEE_PAYER.publicKey,
+      lamports: 1
+    }));
+    for (const data of datas) {
+      transaction.add(new web3.TransactionInstruction({
+        keys: [],
+        programId: web3.Secp256k1Program.programId,
+        data: Buffer.from(data)
+      }));
+    }
+    transaction.recentBlockhash = BLOCKHASH;
+    transaction.feePayer = FEE_PAYER.publicKey;
+    transaction.sign(FEE_PAYER);
+
+    return transaction.serialize();
+  }
+
+  // Helper function to build a valid instruction at the given index
+  function validInstruction(instructionIndex: number): Uint8Array {
+    const entry = Secp256k1Program.createSignature(new Keccak(), MESSAGE, PRIVATE_KEY);
+    return Secp256k1Program.encodeInstructionData([entry], instructionIndex);
+  }
+
+  it("should accept valid secp256k1 instructions in a transaction", () => {
+    const transaction = buildTransaction(validInstruction(1));
+
+    const results = Secp256k1Precompile.verifyTransaction(transaction);
+
+    expect(results).toEqual([{ instructionIndex: 1, result: { valid: true } }]);
+  });
+
+  it("should accept instructions created by @solana/web3.js", () => {
+    const instruction = web3.Secp256k1Program.createInstructionWithPrivateKey({
+      privateKey: PRIVATE_KEY.toBytes(),
+      message: MESSAGE,
+      instructionIndex: 1
+    });
+
+    const results = Secp256k1Precompile.verifyTransaction(buildTransaction(instruction.data));
+
+    expect(results[0].result.valid).toBe(true);
+  });
+
+  it("should verify v0 messages", () => {
+    const message = new web3.TransactionMessage({
+      payerKey: FEE_PAYER.publicKey,
+      recentBlockhash: BLOCKHASH,
+      instructions: [new web3.TransactionInstruction({
+        keys: [],
+        programId: web3.Secp256k1Program.programId,
+        data: Buffer.from(validInstruction(0))
+      })]
+    }).compileToV0Message();
+
+    const parsed = SolanaMessage.parse(message.serialize());
+
+    expect(parsed.version).toBe(0);
+    expect(Secp256k1Precompile.verifyMessage(parsed)[0].result).toEqual({ valid: true });
+  });
+
+  it("should report a tampered signature as InvalidSignature", () => {
+    const data = validInstruction(1);
+    data[1 + 11 + 20 + 5] ^= 1;
+
+    const [{ result }] = Secp256k1Precompile.verifyTransaction(buildTransaction(data));
+
+    expect(result).toEqual({ valid: false, error: Secp256k1PrecompileError.InvalidSignature, signatureIndex: 0 });
+  });
+
+  it("should report a wrong Ethereum address as InvalidSignature", () => {
+    const data = validInstruction(1);
+    data[1 + 11] ^= 1;
+
+    const [{ result }] = Secp256k1Precompile.verifyTransaction(buildTransaction(data));
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.error).toBe(Secp256k1PrecompileError.InvalidSignature);
+  });
+
+  it("should report an out of range recovery id as InvalidRecoveryId", () => {
+    const data = validInstruction(1);
+    data[1 + 11 + 20 + 64] = 4;
+
+    const [{ result }] = Secp256k1Precompile.verifyTransaction(buildTransaction(data));
+
+    expect(!result.valid && result.error).toBe(Secp256k1PrecompileError.InvalidRecoveryId);
+  });
+
+  it("should report offsets into missing instructions as InvalidDataOffsets", () => {
+    const data = validInstruction(1);
+
+    // Point the message at instruction 9
+    data[1 + 10] = 9;
+
+    const [{ result }] = Secp256k1Precompile.verifyTransaction(buildTransaction(data));
+
+    expect(!result.valid && result.error).toBe(Secp256k1PrecompileError.InvalidDataOffsets);
+  });
+
+  it("should report truncated instruction data as InvalidInstructionDataSize", () => {
+    expect(Secp256k1Precompile.verifyInstruction(new Uint8Array(0), [])).toEqual(
+      { valid: false, error: Secp256k1PrecompileError.InvalidInstructionDataSize }
+    );
+    expect(Secp256k1Precompile.verifyInstruction(Uint8Array.of(2, 0, 0, 0), [])).toEqual(
+      { valid: false, error: Secp256k1PrecompileError.InvalidInstructionDataSize }
+    );
+    expect(Secp256k1Precompile.verifyInstruction(Uint8Array.of(0, 0), [])).toEqual(
+      { valid: false, error: Secp256k1PrecompileError.InvalidInstructionDataSize }
+    );
+    expect(Secp256k1Precompile.verifyInstruction(Uint8Array.of(0), [])).toEqual({ valid: true });
+  });
+
+  it("should resolve offsets across instructions", () => {
+    const entry = Secp256k1Program.createSignature(new Keccak(), MESSAGE, PRIVATE_KEY);
+
+    // Instruction 1 only carries the message
+    const messageInstruction = MESSAGE;
+
+    const payload = new Uint8Array(85);
+    payload.set(entry.ethAddress, 0);
+    payload.set(entry.signature.signature, 20);
+    payload[84] = entry.recoveryId;
+
+    const data = Secp256k1Program.encodeOffsets([{
+      signatureOffset: 12 + 20,
+      signatureInstructionIndex: 2,
+      ethAddressOffset: 12,
+      ethAddressInstructionIndex: 2,
+      messageDataOffset: 0,
+      messageDataSize: MESSAGE.length,
+      messageInstructionIndex: 1
+    }], payload);
+
+    const results = Secp256k1Precompile.verifyTransaction(buildTransaction(messageInstruction, data));
+
+    // The message-only instruction is also sent to the secp256k1 program here, so it is reported too
+    expect(results[1]).toEqual({ instructionIndex: 2, result: { valid: true } });
+  });
+
+  it("should emulate the secp256k1_recover syscall", () => {
+    const keccak = new Keccak();
+    const entry = Secp256k1Program.createSignature(keccak, MESSAGE, PRIVATE_KEY);
+    const hash = keccak.hash(MESSAGE);
+
+    expect(secp256k1Recover(hash, entry.recoveryId, entry.signature.signature)).toEqual(
+      { ok: true, publicKey: PRIVATE_KEY.publicKey().toRaw() }
+    );
+    expect(secp256k1Recover(hash.slice(1), entry.recoveryId, entry.signature.signature)).toEqual(
+      { ok: false, error: Secp256k1RecoverError.InvalidHash }
+    );
+    expect(secp256k1Recover(hash, 4, entry.signature.signature)).toEqual(
+      { ok: false, error: Secp256k1RecoverError.InvalidRecoveryId }
+    );
+
+    // s = N is not a valid scalar
+    const overflow = Uint8Array.from(entry.signature.signature);
+    overflow.set(hexToBytes("fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141"), 32);
+    expect(secp256k1Recover(hash, entry.recoveryId, overflow)).toEqual(
+      { ok: false, error: Secp256k1RecoverError.InvalidSignature }
+    );
+  });
+
+  it("should parse the instructions of a transaction", () => {
+    const { signatures, message } = SolanaMessage.fromTransaction(buildTransaction(validInstruction(1)));
+
+    expect(signatures.length).toBe(1);
+    expect(message.version).toBe('legacy');
+    expect(message.instructions.length).toBe(2);
+    expect(message.programId(message.instructions[0])).toBe(web3.SystemProgram.programId.toBase58());
+    expect(message.programId(message.instructions[1])).toBe(web3.Secp256k1Program.programId.toBase58());
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "bun:test";
+import {
+  Secp256k1Program,
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaError,
+  Secp256k1EcdsaException,
+  SECP256K1_PROGRAM_ID,
+  Keccak,
+  ESM
+} from "../src";
+import { expectError } from "./helpers";
+import * as web3 from "@solana/web3.js";
+import { keccak_256 } from 'js-sha3';
+
+// Helper function to convert hex string to Uint8Array
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes[i / 2] = parseInt(hex.substring(i, i + 2), 16);
+  }
+  return bytes;
+}
+
+// Helper function to derive the Ethereum address of a private key
+function ethAddressOf(privateKey: Secp256k1EcdsaPrivateKey): Uint8Array {
+  return new Uint8Array(keccak_256.arrayBuffer(privateKey.publicKey().toRaw())).slice(12);
+}
+
+describe("Solana Secp256k1 program instructions", () => {
+  const PRIVATE_KEY = new Secp256k1EcdsaPrivateKey(
+    hexToBytes("4b9d6f57d28b06cbfa1d4cc710953e62d653caf853d12da2581e69c4c400555c")
+  );
+  const MESSAGE = new TextEncoder().encode("Verify me on-chain");
+
+  it("should use the native program id", () => {
+    expect(web3.Secp256k1Program.programId.toBase58()).toBe(SECP256K1_PROGRAM_ID);
+  });
+
+  it("should encode the same instruction data as @solana/web3.js", () => {
+    const entry = Secp256k1Program.createSignature(new Keccak(), MESSAGE, PRIVATE_KEY);
+
+    const expected = web3.Secp256k1Program.createInstructionWithEthAddress({
+      ethAddress: Buffer.from(entry.ethAddress),
+      message: Buffer.from(MESSAGE),
+      signature: Buffer.from(entry.signature.signature),
+      recoveryId: entry.recoveryId,
+      instructionIndex: 2
+    });
+
+    const data = Secp256k1Program.encodeInstructionData([entry], 2);
+
+    expect(Buffer.from(data).toString('hex')).toBe(expected.data.toString('hex'));
+    expect(entry.ethAddress).toEqual(ethAddressOf(PRIVATE_KEY));
+  });
+
+  it("should produce signatures the program can recover", () => {
+    const keccak = new Keccak();
+
+    for (const hashImpl of [keccak, new ESM()]) {
+      const entry = Secp256k1Program.createSignature(hashImpl, MESSAGE, PRIVATE_KEY);
+
+      // The program hashes the message data with Keccak-256 and recovers the signer
+      const recovered = entry.signature.recover(keccak, entry.message, entry.recoveryId);
+
+      expect(recovered.equals(PRIVATE_KEY.publicKey())).toBe(true);
+    }
+
+    const esmEntry = Secp256k1Program.createSignature(new ESM(), MESSAGE, PRIVATE_KEY);
+    expect(esmEntry.message).toEqual(ESM.encode(MESSAGE));
+  });
+
+  it("should round-trip multiple signatures in one instruction", () => {
+    const second = Secp256k1EcdsaPrivateKey.generate();
+    const entries = [
+      Secp256k1Program.createSignature(new Keccak(), MESSAGE, PRIVATE_KEY),
+      Secp256k1Program.createSignature(new ESM(), new TextEncoder().encode("second"), second)
+    ];
+
+    const data = Secp256k1Program.encodeInstructionData(entries, 1);
+    const offsets = Secp256k1Program.decodeOffsets(data);
+
+    expect(data[0]).toBe(2);
+    expect(offsets[0].ethAddressOffset).toBe(23);
+    expect(offsets[0].signatureOffset).toBe(43);
+    expect(offsets[0].messageDataOffset).toBe(108);
+    expect(offsets[1].ethAddressOffset).toBe(108 + MESSAGE.length);
+    expect(offsets.every(o => o.signatureInstructionIndex === 1)).toBe(true);
+
+    const decoded = Secp256k1Program.decodeInstructionData(data, 1);
+
+    expect(decoded.length).toBe(2);
+    decoded.forEach((entry, i) => {
+      expect(entry.signature.equals(entries[i].signature)).toBe(true);
+      expect(entry.recoveryId).toBe(entries[i].recoveryId);
+      expect(entry.ethAddress).toEqual(entries[i].ethAddress);
+      expect(entry.message).toEqual(entries[i].message);
+    });
+  });
+
+  it("should resolve offsets that point into other instructions", () => {
+    const entry = Secp256k1Program.createSignature(new Keccak(), MESSAGE, PRIVATE_KEY);
+
+    // Instruction 0 carries the message, e.g. as the data of another program's instruction
+    const messageInstruction = new Uint8Array(4 + MESSAGE.length);
+    messageInstruction.set(MESSAGE, 4);
+
+    // Instruction 1 carries the address, signature and recovery id
+    const payload = new Uint8Array(20 + 64 + 1);
+    payload.set(entry.ethAddress, 0);
+    payload.set(entry.signature.signature, 20);
+    payload[84] = entry.recoveryId;
+
+    const data = Secp256k1Program.encodeOffsets([{
+      signatureOffset: 12 + 20,
+      signatureInstructionIndex: 1,
+      ethAddressOffset: 12,
+      ethAddressInstructionIndex: 1,
+      messageDataOffset: 4,
+      messageDataSize: MESSAGE.length,
+      messageInstructionIndex: 0
+    }], payload);
+
+    const [resolved] = Secp256k1Program.resolveSignatures(data, [messageInstruction, data]);
+
+    expect(resolved.message).toEqual(MESSAGE);
+    expect(resolved.ethAddress).toEqual(entry.ethAddress);
+    expect(resolved.signature.equals(entry.signature)).toBe(true);
+
+    // Self-contained decoding cannot reach instruction 0
+    expect(() => Secp256k1Program.decodeInstructionData(data, 1)).toThrow(Secp256k1EcdsaException);
+  });
+
+  it("should reject malformed instruction data", () => {
+    for (const data of [new Uint8Array(0), Uint8Array.of(1, 0, 0)]) {
+      expectError(() => Secp256k1Program.decodeOffsets(data), Secp256k1EcdsaError.InvalidInstructionData);
+    }
+
+    const entry = Secp256k1Program.createSignature(new Keccak(), MESSAGE, PRIVATE_KEY);
+    const data = Secp256k1Program.encodeInstructionData([entry]);
+
+    // Truncated message data
+    expect(() => Secp256k1Program.decodeInstructionData(data.slice(0, data.length - 1))).toThrow(Secp256k1EcdsaException);
+
+    // Bad Ethereum address length
+    expect(() => Secp256k1Program.encodeInstructionData([{ ...entry, ethAddress: new Uint8Array(19) }]))
+      .toThrow(Secp256k1EcdsaException);
+  });
+});
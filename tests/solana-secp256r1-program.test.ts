@@ -0,0 +1,105 @@
+import { describe, expect, it } from "bun:test";
+import {
+  Secp256r1Program,
+  Secp256r1PrivateKey,
+  Secp256r1PublicKey,
+  SECP256R1_CURRENT_INSTRUCTION,
+  SECP256R1_MAX_SIGNATURES,
+  SECP256R1_PROGRAM_ID,
+  Secp256k1EcdsaError,
+  SHA256
+} from "../src";
+import { base58Decode } from "../src/encoding";
+import { expectError } from "./helpers";
+
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+describe("Solana Secp256r1 program instructions", () => {
+  const PRIVATE_KEY = new Secp256r1PrivateKey(
+    Uint8Array.from(Buffer.from("c9afa9d845ba75166b5c215767b1d6934e50c3db36e89b127b8a622b120f6721", "hex"))
+  );
+  const MESSAGE = new TextEncoder().encode("Verify me with a passkey");
+
+  it("should use the native program id", () => {
+    expect(base58Decode(SECP256R1_PROGRAM_ID).length).toBe(32);
+  });
+
+  it("should lay out a single signature like the native helper", () => {
+    const entry = Secp256r1Program.createSignature(MESSAGE, PRIVATE_KEY);
+    const data = Secp256r1Program.encodeInstructionData([entry]);
+
+    // count, padding, then offsets: signature 49, public key 16, message 113, all in this instruction
+    const header = "0100" + "3100ffff" + "1000ffff" + "7100" + "1800" + "ffff";
+    expect(toHex(data.subarray(0, 16))).toBe(header);
+    expect(toHex(data.subarray(16, 49))).toBe(toHex(PRIVATE_KEY.publicKey().toCompressed()));
+    expect(toHex(data.subarray(49, 113))).toBe(toHex(entry.signature.signature));
+    expect(data.subarray(113)).toEqual(MESSAGE);
+  });
+
+  it("should produce low-S signatures the program can verify", () => {
+    const entry = Secp256r1Program.createSignature(MESSAGE, PRIVATE_KEY);
+    const [decoded] = Secp256r1Program.decodeInstructionData(Secp256r1Program.encodeInstructionData([entry]));
+
+    expect(decoded.signature.isLowS()).toBe(true);
+    expect(decoded.signature.equals(entry.signature)).toBe(true);
+    expect(decoded.message).toEqual(MESSAGE);
+    expect(decoded.signature.verify(new SHA256(), decoded.message, Secp256r1PublicKey.fromBytes(decoded.publicKey))).toBe(true);
+  });
+
+  it("should round-trip multiple signatures in one instruction", () => {
+    const second = Secp256r1PrivateKey.generate();
+    const entries = [
+      Secp256r1Program.createSignature(MESSAGE, PRIVATE_KEY),
+      Secp256r1Program.createSignature(new TextEncoder().encode("second"), second)
+    ];
+
+    const decoded = Secp256r1Program.decodeInstructionData(Secp256r1Program.encodeInstructionData(entries));
+
+    expect(decoded.length).toBe(2);
+    decoded.forEach((entry, i) => {
+      expect(entry.publicKey).toEqual(entries[i].publicKey);
+      expect(entry.message).toEqual(entries[i].message);
+      expect(entry.signature.equals(entries[i].signature)).toBe(true);
+    });
+  });
+
+  it("should resolve offsets pointing into other instructions", () => {
+    const entry = Secp256r1Program.createSignature(MESSAGE, PRIVATE_KEY);
+    const other = Uint8Array.from([...entry.publicKey, ...entry.signature.signature]);
+    const data = Secp256r1Program.encodeOffsets([{
+      signatureOffset: 33,
+      signatureInstructionIndex: 1,
+      publicKeyOffset: 0,
+      publicKeyInstructionIndex: 1,
+      messageDataOffset: 16,
+      messageDataSize: MESSAGE.length,
+      messageInstructionIndex: SECP256R1_CURRENT_INSTRUCTION
+    }], MESSAGE);
+
+    const [resolved] = Secp256r1Program.resolveSignatures(data, [new Uint8Array(0), other]);
+
+    expect(resolved.publicKey).toEqual(entry.publicKey);
+    expect(resolved.message).toEqual(MESSAGE);
+    expectError(() => Secp256r1Program.decodeInstructionData(data), Secp256k1EcdsaError.InvalidInstructionData);
+  });
+
+  it("should reject malformed instruction data", () => {
+    const entry = Secp256r1Program.createSignature(MESSAGE, PRIVATE_KEY);
+    const data = Secp256r1Program.encodeInstructionData([entry]);
+
+    expectError(() => Secp256r1Program.encodeInstructionData([]), Secp256k1EcdsaError.InvalidInstructionData);
+    expectError(
+      () => Secp256r1Program.encodeInstructionData(new Array(SECP256R1_MAX_SIGNATURES + 1).fill(entry)),
+      Secp256k1EcdsaError.InvalidInstructionData
+    );
+    expectError(
+      () => Secp256r1Program.encodeInstructionData([{ ...entry, publicKey: PRIVATE_KEY.publicKey().toUncompressed() }]),
+      Secp256k1EcdsaError.InvalidInstructionData
+    );
+    expectError(() => Secp256r1Program.decodeOffsets(Uint8Array.of(0, 0)), Secp256k1EcdsaError.InvalidInstructionData);
+    expectError(() => Secp256r1Program.decodeOffsets(data.subarray(0, 15)), Secp256k1EcdsaError.InvalidInstructionData);
+    expectError(() => Secp256r1Program.decodeInstructionData(data.subarray(0, data.length - 1)), Secp256k1EcdsaError.InvalidInstructionData);
+  });
+});
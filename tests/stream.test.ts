@@ -0,0 +1,117 @@
+import { describe, expect, it } from "bun:test";
+import { Readable } from "node:stream";
+import {
+  Secp256k1EcdsaSignature,
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaError,
+  Secp256k1EcdsaException,
+  SHA256,
+  SHA256d,
+  Keccak,
+  BSM,
+  ESM,
+  hashStream
+} from "../src";
+import { expectError } from "./helpers";
+
+// A deterministic message of the given size
+function makeMessage(size: number): Uint8Array {
+  return Uint8Array.from({ length: size }, (_, i) => (i * 31 + 7) & 0xff);
+}
+
+// Split a message into uneven chunks
+function* chunks(message: Uint8Array): Generator<Uint8Array> {
+  let offset = 0;
+  for (let size = 1; offset < message.length; size = size * 3 + 1) {
+    yield message.subarray(offset, offset + size);
+    offset += size;
+  }
+}
+
+async function* asyncChunks(message: Uint8Array): AsyncGenerator<Uint8Array> {
+  yield* chunks(message);
+}
+
+function webStream(message: Uint8Array): ReadableStream<Uint8Array> {
+  const iterator = chunks(message);
+  return new ReadableStream({
+    pull(controller) {
+      const { done, value } = iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    }
+  });
+}
+
+describe("Streaming hashes", () => {
+  const message = makeMessage(100_000);
+
+  it("should match one-shot hashing", () => {
+    for (const input of [message, new Uint8Array(0), makeMessage(300)]) {
+      for (const hashImpl of [new SHA256(), new SHA256d(), new Keccak()]) {
+        const hasher = hashImpl.create();
+        for (const chunk of chunks(input)) {
+          hasher.update(chunk);
+        }
+        expect(hasher.digest()).toEqual(hashImpl.hash(input));
+      }
+
+      for (const hashImpl of [new BSM(), new ESM()]) {
+        const hasher = hashImpl.create(input.length);
+        for (const chunk of chunks(input)) {
+          hasher.update(chunk);
+        }
+        expect(hasher.digest()).toEqual(hashImpl.hash(input));
+      }
+    }
+  });
+
+  it("should require BSM and ESM to declare the message length", () => {
+    for (const hashImpl of [new BSM(), new ESM()]) {
+      expectError(() => hashImpl.create(), Secp256k1EcdsaError.InvalidMessageLength);
+      expectError(() => hashImpl.create(-1), Secp256k1EcdsaError.InvalidMessageLength);
+
+      // Too few bytes fail at the end, too many as soon as they arrive
+      expectError(() => hashImpl.create(5).update(new Uint8Array(4)).digest(), Secp256k1EcdsaError.InvalidMessageLength);
+      expectError(() => hashImpl.create(5).update(new Uint8Array(3)).update(new Uint8Array(3)), Secp256k1EcdsaError.InvalidMessageLength);
+    }
+  });
+
+  it("should hash async iterables, Node.js streams and Web streams", async () => {
+    const sha256 = new SHA256();
+    const expected = sha256.hash(message);
+
+    expect(await hashStream(sha256, asyncChunks(message))).toEqual(expected);
+    expect(await hashStream(sha256, Readable.from(chunks(message)))).toEqual(expected);
+    expect(await hashStream(sha256, webStream(message))).toEqual(expected);
+    expect(await hashStream(new ESM(), webStream(message), message.length)).toEqual(new ESM().hash(message));
+  });
+});
+
+describe("Streaming signatures", () => {
+  const message = makeMessage(50_000);
+  const privateKey = Secp256k1EcdsaPrivateKey.generate();
+  const publicKey = privateKey.publicKey();
+
+  it("should sign and verify streamed messages", async () => {
+    const sha256 = new SHA256();
+    const signature = await Secp256k1EcdsaSignature.signStream(sha256, Readable.from(chunks(message)), privateKey);
+
+    expect(signature.equals(Secp256k1EcdsaSignature.sign(sha256, message, privateKey))).toBe(true);
+    expect(await signature.verifyStream(sha256, webStream(message), publicKey)).toBe(true);
+    expect(await signature.verifyStream(sha256, asyncChunks(makeMessage(49_999)), publicKey)).toBe(false);
+  });
+
+  it("should reject streams that do not match the declared length", async () => {
+    const bsm = new BSM();
+    const signature = await Secp256k1EcdsaSignature.signStream(bsm, asyncChunks(message), privateKey, message.length);
+
+    expect(signature.verify(bsm, message, publicKey)).toBe(true);
+    expect(await signature.verifyStream(bsm, asyncChunks(message), publicKey, message.length)).toBe(true);
+    await expect(signature.verifyStream(bsm, asyncChunks(message), publicKey, message.length + 1))
+      .rejects.toBeInstanceOf(Secp256k1EcdsaException);
+  });
+});
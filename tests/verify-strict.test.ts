@@ -0,0 +1,114 @@
+import { describe, expect, it } from "bun:test";
+import {
+  Secp256k1EcdsaSignature,
+  Secp256k1EcdsaPrivateKey,
+  Secp256k1EcdsaError,
+  SHA256,
+  EIP712
+} from "../src";
+import type { Secp256k1EcdsaHash } from "../src";
+
+const N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+
+function bigIntToBytes(value: bigint): Uint8Array {
+  return Uint8Array.from(Buffer.from(value.toString(16).padStart(64, "0"), "hex"));
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return BigInt("0x" + Buffer.from(bytes).toString("hex"));
+}
+
+// Hash implementation that ignores the message and returns a fixed digest
+class FixedHash implements Secp256k1EcdsaHash {
+  constructor(private readonly digest: Uint8Array) {}
+
+  hash(): Uint8Array {
+    return this.digest;
+  }
+}
+
+describe("Strict verification", () => {
+  const sha256 = new SHA256();
+  const message = new TextEncoder().encode("strict verification");
+  const privateKey = Secp256k1EcdsaPrivateKey.generate();
+  const publicKey = privateKey.publicKey();
+  const signature = Secp256k1EcdsaSignature.sign(sha256, message, privateKey).normalizeS();
+
+  // The same signature with s replaced by N - s
+  const highS = new Uint8Array(signature.signature);
+  highS.set(bigIntToBytes(N - bytesToBigInt(signature.s())), 32);
+  const highSignature = new Secp256k1EcdsaSignature(highS);
+
+  it("should accept a valid low-S signature", () => {
+    expect(signature.isLowS()).toBe(true);
+    expect(signature.verifyStrict(sha256, message, publicKey)).toBe(true);
+    expect(signature.verifyDetailed(sha256, message, publicKey)).toEqual({ valid: true });
+  });
+
+  it("should reject high-S unless allowed", () => {
+    expect(highSignature.isLowS()).toBe(false);
+    expect(highSignature.verify(sha256, message, publicKey)).toBe(true);
+
+    const result = highSignature.verifyDetailed(sha256, message, publicKey);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe(Secp256k1EcdsaError.HighS);
+
+    expect(highSignature.verifyStrict(sha256, message, publicKey, { lowS: false })).toBe(true);
+  });
+
+  it("should reject r and s outside [1, N-1]", () => {
+    const cases = [
+      [new Uint8Array(32), signature.s()],
+      [signature.r(), new Uint8Array(32)],
+      [bigIntToBytes(N), signature.s()],
+      [signature.r(), new Uint8Array(32).fill(0xff)]
+    ];
+
+    for (const [r, s] of cases) {
+      const bytes = new Uint8Array(64);
+      bytes.set(r, 0);
+      bytes.set(s, 32);
+
+      const result = new Secp256k1EcdsaSignature(bytes).verifyDetailed(sha256, message, publicKey);
+      expect(result.reason).toBe(Secp256k1EcdsaError.ScalarOutOfRange);
+    }
+  });
+
+  it("should reject invalid public keys", () => {
+    const offCurve = { x: publicKey.x, y: new Uint8Array(publicKey.y) };
+    offCurve.y[31] ^= 1;
+
+    expect(signature.verifyDetailed(sha256, message, offCurve).reason).toBe(Secp256k1EcdsaError.PointNotOnCurve);
+    expect(signature.verifyDetailed(sha256, message, { x: new Uint8Array(32), y: new Uint8Array(32) }).reason)
+      .toBe(Secp256k1EcdsaError.PointAtInfinity);
+    expect(signature.verifyDetailed(sha256, message, { x: publicKey.x, y: new Uint8Array(33) }).reason)
+      .toBe(Secp256k1EcdsaError.InvalidPublicKey);
+  });
+
+  it("should report a recomputed point at infinity", () => {
+    // With h = -r * d, (h + r * d) * s^-1 * G is the point at infinity
+    const d = bytesToBigInt(privateKey.toBytes());
+    const h = ((N - bytesToBigInt(signature.r())) * d) % N;
+
+    const result = signature.verifyDetailed(new FixedHash(bigIntToBytes(h)), message, publicKey);
+    expect(result.reason).toBe(Secp256k1EcdsaError.PointAtInfinity);
+  });
+
+  it("should report mismatches and wrong hash lengths", () => {
+    const other = new TextEncoder().encode("another message");
+    expect(signature.verifyDetailed(sha256, other, publicKey).reason).toBe(Secp256k1EcdsaError.SignatureMismatch);
+    expect(signature.verifyDetailed(sha256, message, Secp256k1EcdsaPrivateKey.generate().publicKey()).reason)
+      .toBe(Secp256k1EcdsaError.SignatureMismatch);
+
+    const short = signature.verifyDetailed(new FixedHash(new Uint8Array(20)), message, publicKey);
+    expect(short.reason).toBe(Secp256k1EcdsaError.InvalidHashLength);
+    expect(short.message).toBe("Invalid hash length: 20");
+  });
+
+  it("should surface typed errors from the hash implementation", () => {
+    const eip712 = new EIP712({ name: "Test" });
+
+    expect(signature.verifyDetailed(eip712, new Uint8Array(31), publicKey).reason)
+      .toBe(Secp256k1EcdsaError.InvalidTypedData);
+  });
+});